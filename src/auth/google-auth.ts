@@ -2,7 +2,8 @@
 // Handles communication with the BoltReply website for Google OAuth login
 
 import { CONFIG } from '../config';
-import { AuthTokens, GoogleAuthMessage, User, AuthStateChangedMessage } from '../types';
+import { AuthTokens, User } from '../types';
+import { broadcastMessage, parseExternalMessage } from '../utils/messaging';
 
 // Storage keys for Google OAuth tokens
 const STORAGE_KEYS = {
@@ -320,9 +321,7 @@ function isAllowedOrigin(senderUrl: string | undefined): boolean {
  */
 export function setupExternalAuthListener(): void {
   chrome.runtime.onMessageExternal.addListener(
-    (message: GoogleAuthMessage, sender, sendResponse) => {
-      console.log('Google OAuth: Received external message:', message.type, 'from:', sender.url);
-      
+    (rawMessage: unknown, sender, sendResponse) => {
       // Verify the sender is from our website
       if (!isAllowedOrigin(sender.url)) {
         console.warn('Google OAuth: Received message from unknown origin:', sender.url);
@@ -330,6 +329,16 @@ export function setupExternalAuthListener(): void {
         return true;
       }
 
+      const parsed = parseExternalMessage(rawMessage);
+      if (!parsed.ok) {
+        console.warn('Google OAuth: Rejected external message:', parsed.error.error);
+        sendResponse(parsed.error);
+        return false;
+      }
+
+      const message = parsed.message;
+      console.log('Google OAuth: Received external message:', message.type, 'from:', sender.url);
+
       if (message.type === 'AUTH_TOKENS') {
         console.log('Google OAuth: Processing auth tokens from website');
         
@@ -361,18 +370,14 @@ export function setupExternalAuthListener(): void {
               }
 
               // Notify extension popup to refresh (if open)
-              try {
-                const profile = await getUserProfile();
-                const authStateMessage: AuthStateChangedMessage = {
-                  type: 'AUTH_STATE_CHANGED',
-                  isAuthenticated: true,
-                  user: profile || undefined
-                };
-                await chrome.runtime.sendMessage(authStateMessage);
-                console.log('Google OAuth: Notified extension popup of auth state change');
-              } catch (error) {
-                console.log('Google OAuth: Could not notify popup (may not be open)');
-              }
+              const profile = await getUserProfile();
+              const notified = await broadcastMessage({
+                type: 'AUTH_STATE_CHANGED',
+                payload: { isAuthenticated: true, user: profile || undefined }
+              });
+              console.log(notified
+                ? 'Google OAuth: Notified extension popup of auth state change'
+                : 'Google OAuth: Could not notify popup (may not be open)');
             }
           } catch (error) {
             console.error('Google OAuth: Error handling auth tokens:', error);
@@ -0,0 +1,109 @@
+// Context menu - "Reply with Bolt Reply" on selected text. Chrome reports the selection itself, so it
+// works where the floating button can't see one: pages that block selection events, shadow roots.
+// The template submenu lists the saved reply templates and is rebuilt whenever they change.
+
+import { getReplyTemplates } from '../utils/reply-templates';
+import { REPLY_TONES } from '../types';
+import type { SelectionReplyPayload } from '../types';
+
+const ROOT_ID = 'boltreply-selection';
+const OPEN_ID = `${ROOT_ID}:open`;
+const GENERATE_ID = `${ROOT_ID}:generate`;
+const TONE_MENU_ID = `${ROOT_ID}:tones`;
+const TONE_PREFIX = `${ROOT_ID}:tone:`;
+const TEMPLATE_MENU_ID = `${ROOT_ID}:templates`;
+const TEMPLATE_PREFIX = `${ROOT_ID}:template:`;
+
+// The universal content script, which owns the panel, only runs on web pages
+const DOCUMENT_URL_PATTERNS = ['http://*/*', 'https://*/*'];
+
+// Match patterns can't exclude hosts, so the menu is hidden on these while their tab is active.
+// Keep in step with the universal content script's exclude_matches in manifest.json.
+const EXCLUDED_HOSTNAMES = ['www.google.com', 'business.google.com'];
+
+// removeAll and create are not atomic, so overlapping rebuilds would collide on item ids
+let pendingRebuild: Promise<void> = Promise.resolve();
+let isMenuVisible = true;
+
+function createMenuItem(properties: chrome.contextMenus.CreateProperties): void {
+  chrome.contextMenus.create({ contexts: ['selection'], documentUrlPatterns: DOCUMENT_URL_PATTERNS, ...properties }, () => {
+    if (chrome.runtime.lastError) {
+      console.error('BoltReply: Failed to create context menu item:', chrome.runtime.lastError.message);
+    }
+  });
+}
+
+function removeAllMenuItems(): Promise<void> {
+  return new Promise(resolve => chrome.contextMenus.removeAll(() => resolve()));
+}
+
+async function buildContextMenus(): Promise<void> {
+  await removeAllMenuItems();
+  const templates = await getReplyTemplates().catch(() => []);
+
+  createMenuItem({ id: ROOT_ID, title: 'Reply with Bolt Reply', visible: isMenuVisible });
+  createMenuItem({ id: OPEN_ID, parentId: ROOT_ID, title: 'Open in the Bolt Reply panel' });
+  createMenuItem({ id: GENERATE_ID, parentId: ROOT_ID, title: 'Generate a reply' });
+
+  createMenuItem({ id: TONE_MENU_ID, parentId: ROOT_ID, title: 'Generate with tone' });
+  for (const tone of REPLY_TONES) {
+    createMenuItem({ id: `${TONE_PREFIX}${tone}`, parentId: TONE_MENU_ID, title: tone.charAt(0).toUpperCase() + tone.slice(1) });
+  }
+
+  if (templates.length > 0) {
+    createMenuItem({ id: TEMPLATE_MENU_ID, parentId: ROOT_ID, title: 'Generate with template' });
+    for (const template of templates) {
+      createMenuItem({ id: `${TEMPLATE_PREFIX}${template.id}`, parentId: TEMPLATE_MENU_ID, title: template.name });
+    }
+  }
+}
+
+/**
+ * Register the menu from scratch. Chrome keeps the items across service worker restarts,
+ * so this only runs on install and when the templates change.
+ */
+export function rebuildContextMenus(): Promise<void> {
+  pendingRebuild = pendingRebuild
+    .then(buildContextMenus)
+    .catch((error: unknown) => console.error('BoltReply: Failed to build context menus:', error));
+  return pendingRebuild;
+}
+
+/**
+ * Show the menu only where the universal content script runs to answer it
+ */
+export function updateContextMenuVisibility(url: string | undefined): void {
+  let visible = true;
+  try {
+    visible = !url || !EXCLUDED_HOSTNAMES.includes(new URL(url).hostname);
+  } catch {
+    // Not a URL we can read; leave the menu to documentUrlPatterns
+  }
+  // Always pushed: a restarted worker can't know what the menu currently shows
+  isMenuVisible = visible;
+  chrome.contextMenus.update(ROOT_ID, { visible }, () => {
+    // The menu may not be built yet; the next build picks up isMenuVisible
+    void chrome.runtime.lastError;
+  });
+}
+
+/**
+ * What a clicked menu item asks for, without the selected text; null for items that aren't ours
+ */
+export function getSelectionReplyRequest(menuItemId: string | number): Omit<SelectionReplyPayload, 'text'> | null {
+  const id = String(menuItemId);
+  if (id === OPEN_ID) {
+    return { generate: false };
+  }
+  if (id === GENERATE_ID) {
+    return { generate: true };
+  }
+  if (id.startsWith(TONE_PREFIX)) {
+    const tone = REPLY_TONES.find(candidate => candidate === id.slice(TONE_PREFIX.length));
+    return tone ? { generate: true, tone } : null;
+  }
+  if (id.startsWith(TEMPLATE_PREFIX)) {
+    return { generate: true, templateId: id.slice(TEMPLATE_PREFIX.length) };
+  }
+  return null;
+}
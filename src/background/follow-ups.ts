@@ -0,0 +1,87 @@
+// Follow-ups - reviews that went through the escalation flow, tracked until someone resolves them
+// Stored in chrome.storage.local under STORAGE_KEYS.FOLLOW_UPS, newest first.
+
+import { normalizeReviewData } from '../utils/review-data';
+import { STORAGE_KEYS } from '../types';
+import type { FollowUpEntry, FollowUpStatus, ReviewData } from '../types';
+
+const MAX_FOLLOW_UPS = 200;
+
+// Serialize read-modify-write cycles so batch runs don't drop entries
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+// Entries saved by older versions may carry the review under its legacy field names
+async function readFollowUps(): Promise<FollowUpEntry[]> {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.FOLLOW_UPS]);
+  const entries: unknown = result[STORAGE_KEYS.FOLLOW_UPS];
+  return Array.isArray(entries)
+    ? (entries as FollowUpEntry[]).map(entry => ({ ...entry, reviewData: normalizeReviewData(entry.reviewData) ?? { review_text: '' } }))
+    : [];
+}
+
+function updateFollowUps(mutate: (entries: FollowUpEntry[]) => FollowUpEntry[]): Promise<void> {
+  const next = pendingWrite.then(async () => {
+    const entries = mutate(await readFollowUps());
+    await chrome.storage.local.set({ [STORAGE_KEYS.FOLLOW_UPS]: entries.slice(0, MAX_FOLLOW_UPS) });
+  });
+  pendingWrite = next.catch(() => undefined);
+  return next;
+}
+
+function platformFromUrl(url: string | undefined): string {
+  if (!url) {
+    return 'Unknown';
+  }
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return 'Unknown';
+  }
+}
+
+/**
+ * Identify a review by reviewer and text so regenerating doesn't log it twice
+ */
+function isSameReview(entry: FollowUpEntry, reviewData: ReviewData): boolean {
+  return entry.reviewData.review_text === reviewData.review_text &&
+    (entry.reviewData.reviewer_name ?? '') === (reviewData.reviewer_name ?? '');
+}
+
+/**
+ * Log a review as needing follow-up. A review already on the list keeps its status.
+ */
+export function logFollowUp(reviewData: ReviewData, reasons: string[], sourceUrl?: string): Promise<void> {
+  return updateFollowUps(entries => {
+    if (entries.some(entry => isSameReview(entry, reviewData))) {
+      return entries;
+    }
+
+    const now = new Date().toISOString();
+    const url = reviewData.website_url ?? sourceUrl;
+    const entry: FollowUpEntry = {
+      id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: now,
+      updatedAt: now,
+      reviewData,
+      reasons,
+      status: 'open',
+      platform: reviewData.source_platform || platformFromUrl(url),
+      url
+    };
+    return [entry, ...entries];
+  });
+}
+
+export function getFollowUps(): Promise<FollowUpEntry[]> {
+  return readFollowUps();
+}
+
+export function updateFollowUpStatus(id: string, status: FollowUpStatus): Promise<void> {
+  return updateFollowUps(entries => entries.map(entry => (
+    entry.id === id ? { ...entry, status, updatedAt: new Date().toISOString() } : entry
+  )));
+}
+
+export function deleteFollowUp(id: string): Promise<void> {
+  return updateFollowUps(entries => entries.filter(entry => entry.id !== id));
+}
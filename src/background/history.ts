@@ -0,0 +1,110 @@
+// Reply history - a local record of every reply generated through the extension
+// Stored in chrome.storage.local under STORAGE_KEYS.REVIEW_CACHE, newest first.
+
+import { normalizeReviewData } from '../utils/review-data';
+import { STORAGE_KEYS } from '../types';
+import type {
+  AIResponseSuccessPayload,
+  ReplyHistoryEntry,
+  ReplyHistoryQuery,
+  ReplyHistoryResponse,
+  ReviewData
+} from '../types';
+
+const MAX_HISTORY_ENTRIES = 500;
+
+// Serialize read-modify-write cycles so back-to-back generations (batch mode) don't drop entries
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+// Entries saved by older versions may carry the review under its legacy field names
+async function readHistory(): Promise<ReplyHistoryEntry[]> {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.REVIEW_CACHE]);
+  const entries: unknown = result[STORAGE_KEYS.REVIEW_CACHE];
+  return Array.isArray(entries)
+    ? (entries as ReplyHistoryEntry[]).map(entry => ({ ...entry, reviewData: normalizeReviewData(entry.reviewData) ?? { review_text: '' } }))
+    : [];
+}
+
+function updateHistory(mutate: (entries: ReplyHistoryEntry[]) => ReplyHistoryEntry[]): Promise<void> {
+  const next = pendingWrite.then(async () => {
+    const entries = mutate(await readHistory());
+    await chrome.storage.local.set({ [STORAGE_KEYS.REVIEW_CACHE]: entries.slice(0, MAX_HISTORY_ENTRIES) });
+  });
+  pendingWrite = next.catch(() => undefined);
+  return next;
+}
+
+function platformFromUrl(url: string | undefined): string {
+  if (!url) {
+    return 'Unknown';
+  }
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return 'Unknown';
+  }
+}
+
+function getSearchableText(entry: ReplyHistoryEntry): string {
+  const { reviewData } = entry;
+  return [
+    reviewData.reviewer_name,
+    reviewData.review_text,
+    entry.reply,
+    entry.platform,
+    entry.url
+  ].filter(Boolean).join('\n').toLowerCase();
+}
+
+/**
+ * Save a generated reply together with the review it answers
+ */
+export async function recordReply(
+  reviewData: ReviewData,
+  payload: AIResponseSuccessPayload,
+  sourceUrl?: string
+): Promise<ReplyHistoryEntry> {
+  const url = reviewData.website_url ?? sourceUrl;
+  const entry: ReplyHistoryEntry = {
+    id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    reviewData,
+    reply: payload.aiResponse,
+    requestId: payload.requestId,
+    platform: reviewData.source_platform || platformFromUrl(url),
+    url,
+    creditsUsed: payload.creditsUsed,
+    modelUsed: payload.modelUsed
+  };
+
+  await updateHistory(entries => [entry, ...entries]);
+  return entry;
+}
+
+/**
+ * List saved replies, newest first. Every search term must appear somewhere in the entry.
+ */
+export async function getReplyHistory(query: ReplyHistoryQuery = {}): Promise<ReplyHistoryResponse> {
+  const entries = await readHistory();
+  const terms = (query.search ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matches = terms.length === 0
+    ? entries
+    : entries.filter(entry => {
+      const haystack = getSearchableText(entry);
+      return terms.every(term => haystack.includes(term));
+    });
+
+  return {
+    entries: typeof query.limit === 'number' ? matches.slice(0, query.limit) : matches,
+    totalCount: entries.length
+  };
+}
+
+export function deleteReplyHistoryEntry(id: string): Promise<void> {
+  return updateHistory(entries => entries.filter(entry => entry.id !== id));
+}
+
+export function clearReplyHistory(): Promise<void> {
+  return updateHistory(() => []);
+}
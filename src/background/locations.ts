@@ -0,0 +1,144 @@
+// Business locations - maps the page a reply is written on to the business profile it answers as
+// The location list is cached in chrome.storage.local under STORAGE_KEYS.BUSINESS_LOCATIONS;
+// manual choices are kept per page (Google location or site) under STORAGE_KEYS.LOCATION_OVERRIDES.
+
+import { getBusinessLocations } from '../utils/api';
+import { getGoogleLocationId } from '../utils/review-data';
+import { STORAGE_KEYS } from '../types';
+import type { APIConfig, BusinessLocation, PageLocationState } from '../types';
+
+const LOCATIONS_MAX_AGE_MS = 60 * 60 * 1000;
+
+interface CachedLocations {
+  fetchedAt: number;
+  locations: BusinessLocation[];
+}
+
+function parseUrl(url: string | undefined): URL | null {
+  if (!url) {
+    return null;
+  }
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+function stripWww(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * The key manual overrides are stored under: the Google location, or the site
+ */
+export function getPageLocationKey(url: string | undefined): string | null {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    return null;
+  }
+  const googleLocationId = getGoogleLocationId(url);
+  return googleLocationId ? `google:${googleLocationId}` : `site:${stripWww(parsed.hostname)}`;
+}
+
+function matchesDomain(parsed: URL, domain: string): boolean {
+  const rule = stripWww(domain.replace(/^https?:\/\//, ''));
+  const host = stripWww(parsed.hostname);
+  if (rule.includes('/')) {
+    return `${host}${parsed.pathname}`.startsWith(rule);
+  }
+  return host === rule || host.endsWith(`.${rule}`);
+}
+
+/**
+ * The location a page belongs to by Google location ID or domain. Path rules beat bare hostnames,
+ * so "yelp.com/biz/acme-downtown" wins over "yelp.com".
+ */
+export function matchBusinessLocation(locations: BusinessLocation[], url: string | undefined): BusinessLocation | null {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    return null;
+  }
+
+  const googleLocationId = getGoogleLocationId(url);
+  if (googleLocationId) {
+    const match = locations.find(location => location.google_location_id === googleLocationId);
+    if (match) {
+      return match;
+    }
+  }
+
+  let best: { location: BusinessLocation; specificity: number } | null = null;
+  for (const location of locations) {
+    for (const domain of location.domains ?? []) {
+      if (matchesDomain(parsed, domain) && (!best || domain.length > best.specificity)) {
+        best = { location, specificity: domain.length };
+      }
+    }
+  }
+  return best?.location ?? null;
+}
+
+async function readOverrides(): Promise<Record<string, string>> {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.LOCATION_OVERRIDES]);
+  const overrides: unknown = result[STORAGE_KEYS.LOCATION_OVERRIDES];
+  return typeof overrides === 'object' && overrides !== null ? (overrides as Record<string, string>) : {};
+}
+
+/**
+ * The account's locations, from cache unless it is stale or refresh is forced.
+ * Accounts on API versions without the endpoint get an empty list (single profile).
+ */
+export async function loadBusinessLocations(config: APIConfig, refresh = false): Promise<BusinessLocation[]> {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.BUSINESS_LOCATIONS]);
+  const cached = result[STORAGE_KEYS.BUSINESS_LOCATIONS] as CachedLocations | undefined;
+  if (!refresh && cached && Date.now() - cached.fetchedAt < LOCATIONS_MAX_AGE_MS) {
+    return cached.locations;
+  }
+
+  try {
+    const response = await getBusinessLocations(config);
+    const locations = Array.isArray(response.locations) ? response.locations : [];
+    const entry: CachedLocations = { fetchedAt: Date.now(), locations };
+    await chrome.storage.local.set({ [STORAGE_KEYS.BUSINESS_LOCATIONS]: entry });
+    return locations;
+  } catch (error) {
+    console.warn('⚠️ Could not load business locations:', error instanceof Error ? error.message : error);
+    return cached?.locations ?? [];
+  }
+}
+
+/**
+ * The locations on offer for a page and which one replies use: a manual choice for the page,
+ * else a match on location ID or domain, else the only location there is
+ */
+export async function resolvePageLocation(config: APIConfig, url: string | undefined): Promise<PageLocationState> {
+  const locations = await loadBusinessLocations(config);
+  const key = getPageLocationKey(url);
+  const overrideId = key ? (await readOverrides())[key] : undefined;
+
+  if (overrideId && locations.some(location => location.id === overrideId)) {
+    return { locations, activeId: overrideId, isOverride: true };
+  }
+
+  const match = matchBusinessLocation(locations, url) ?? (locations.length === 1 ? locations[0] : null);
+  return { locations, activeId: match?.id ?? null, isOverride: false };
+}
+
+/**
+ * Pin a location for every page sharing this page's key; null goes back to automatic matching
+ */
+export async function setLocationOverride(url: string, locationId: string | null): Promise<void> {
+  const key = getPageLocationKey(url);
+  if (!key) {
+    throw new Error('Cannot pin a location for this page');
+  }
+
+  const overrides = await readOverrides();
+  if (locationId) {
+    overrides[key] = locationId;
+  } else {
+    delete overrides[key];
+  }
+  await chrome.storage.local.set({ [STORAGE_KEYS.LOCATION_OVERRIDES]: overrides });
+}
@@ -0,0 +1,160 @@
+// Offline generation queue - generation requests that failed because the API was unreachable
+// Stored in chrome.storage.local under STORAGE_KEYS.GENERATION_QUEUE, oldest first, and retried
+// with backoff from a chrome.alarms alarm (the service worker may be asleep in between) and
+// immediately when the browser reports it is back online.
+
+import { handleAPIErrorGuide } from '../utils/api';
+import { normalizeReviewData } from '../utils/review-data';
+import { STORAGE_KEYS } from '../types';
+import type { AIResponseRequestPayload, QueuedGeneration } from '../types';
+
+export const GENERATION_QUEUE_ALARM = 'retry-generation-queue';
+
+const MAX_QUEUED_GENERATIONS = 50;
+const MAX_ATTEMPTS = 8;
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+export interface GenerationQueueHandlers {
+  // Resolve once the request is finished with (delivered or failed for good); throw to retry later
+  run: (item: QueuedGeneration) => Promise<void>;
+  // Called when an item runs out of attempts or gets too old to be useful
+  onGiveUp: (item: QueuedGeneration) => Promise<void>;
+}
+
+// Serialize read-modify-write cycles so an enqueue during a retry pass isn't lost
+let pendingWrite: Promise<unknown> = Promise.resolve();
+let activeRun: Promise<void> | null = null;
+
+// Requests queued by older versions may carry the review under its legacy field names;
+// one with no review text left can never be sent and is dropped
+async function readQueue(): Promise<QueuedGeneration[]> {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.GENERATION_QUEUE]);
+  const items: unknown = result[STORAGE_KEYS.GENERATION_QUEUE];
+  if (!Array.isArray(items)) {
+    return [];
+  }
+  return (items as QueuedGeneration[]).flatMap((item) => {
+    const reviewData = normalizeReviewData(item.request?.reviewData);
+    return reviewData ? [{ ...item, request: { ...item.request, reviewData } }] : [];
+  });
+}
+
+function updateQueue(mutate: (items: QueuedGeneration[]) => QueuedGeneration[]): Promise<QueuedGeneration[]> {
+  const next = pendingWrite.then(async () => {
+    const items = mutate(await readQueue()).slice(-MAX_QUEUED_GENERATIONS);
+    await chrome.storage.local.set({ [STORAGE_KEYS.GENERATION_QUEUE]: items });
+    return items;
+  });
+  pendingWrite = next.catch(() => undefined);
+  return next;
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+}
+
+async function scheduleRetryAlarm(items: QueuedGeneration[]): Promise<void> {
+  if (items.length === 0) {
+    await chrome.alarms.clear(GENERATION_QUEUE_ALARM);
+    return;
+  }
+
+  const nextAttemptAt = Math.min(...items.map(item => item.nextAttemptAt));
+  await chrome.alarms.create(GENERATION_QUEUE_ALARM, { when: Math.max(nextAttemptAt, Date.now() + 1000) });
+}
+
+/**
+ * Whether a generation failed because the API couldn't be reached, as opposed to the API
+ * answering with an error. Only the former is worth queueing.
+ */
+export function isOfflineError(error: unknown): boolean {
+  if (!navigator.onLine) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return handleAPIErrorGuide(error).code === 'NETWORK_ERROR' || message.includes('Request timeout');
+}
+
+/**
+ * Keep a generation request for later and schedule the first retry
+ */
+export async function enqueueGeneration(
+  request: AIResponseRequestPayload,
+  sender: chrome.runtime.MessageSender | undefined,
+  lastError?: string
+): Promise<QueuedGeneration> {
+  const item: QueuedGeneration = {
+    id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    request,
+    tabId: sender?.tab?.id,
+    sourceUrl: sender?.tab?.url ?? sender?.url,
+    attempts: 0,
+    nextAttemptAt: Date.now() + BASE_RETRY_DELAY_MS,
+    lastError
+  };
+
+  await scheduleRetryAlarm(await updateQueue(items => [...items, item]));
+  return item;
+}
+
+export function getQueuedGenerations(): Promise<QueuedGeneration[]> {
+  return readQueue();
+}
+
+/**
+ * Retry queued requests that are due (or all of them when force is set, e.g. on reconnect).
+ * Only one pass runs at a time; overlapping calls share it.
+ */
+export function processGenerationQueue(handlers: GenerationQueueHandlers, force = false): Promise<void> {
+  if (!activeRun) {
+    activeRun = runQueue(handlers, force).finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+}
+
+async function runQueue(handlers: GenerationQueueHandlers, force: boolean): Promise<void> {
+  const now = Date.now();
+
+  // Still offline - push everything back without spending an attempt
+  if (!navigator.onLine) {
+    await scheduleRetryAlarm(await updateQueue(items =>
+      items.map(item => ({ ...item, nextAttemptAt: Math.max(item.nextAttemptAt, now + BASE_RETRY_DELAY_MS) }))
+    ));
+    return;
+  }
+
+  const due = (await readQueue()).filter(item => force || item.nextAttemptAt <= now);
+
+  for (const item of due) {
+    if (now - Date.parse(item.createdAt) > MAX_AGE_MS) {
+      await updateQueue(items => items.filter(queued => queued.id !== item.id));
+      await handlers.onGiveUp(item);
+      continue;
+    }
+
+    try {
+      await handlers.run(item);
+      await updateQueue(items => items.filter(queued => queued.id !== item.id));
+    } catch (error) {
+      const attempts = item.attempts + 1;
+      if (attempts >= MAX_ATTEMPTS) {
+        await updateQueue(items => items.filter(queued => queued.id !== item.id));
+        await handlers.onGiveUp({ ...item, attempts });
+        continue;
+      }
+
+      const lastError = error instanceof Error ? error.message : String(error);
+      await updateQueue(items => items.map(queued => queued.id === item.id
+        ? { ...queued, attempts, lastError, nextAttemptAt: Date.now() + getRetryDelay(attempts) }
+        : queued
+      ));
+    }
+  }
+
+  await scheduleRetryAlarm(await readQueue());
+}
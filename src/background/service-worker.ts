@@ -22,10 +22,29 @@ const API_CONFIG = {
 // Import the new API functions
 import {
   generateAIResponse,
+  streamAIResponse,
   handleAPIErrorGuide,
   getBusinessProfileGuide,
-  getUserPrompts
+  updateBusinessProfile,
+  getUserPrompts,
+  getAnsweringMode,
+  updateAnsweringMode,
+  fetchSelectorManifest,
+  submitExtractionReport,
+  translateText,
+  refineAIResponse,
+  buildGeneratePayload
 } from '../utils/api';
+import { loadSelectorManifest, validateSelectorManifest } from '../utils/selectors';
+import { getSettings, updateSettings } from '../utils/settings';
+import { sanitizeGenerationPreferences } from '../utils/generation-preferences';
+import { MIN_LANGUAGE_CONFIDENCE, detectLanguage } from '../utils/language-detection';
+import { assessEscalation } from '../utils/escalation';
+import { createRedactor, redactReviewData } from '../utils/redaction';
+import { MAX_TEMPLATE_BODY_LENGTH, onReplyTemplatesChange } from '../utils/reply-templates';
+import type { Redactor } from '../utils/redaction';
+import { parseBackgroundMessage, parseStreamClientMessage, sendTabMessage } from '../utils/messaging';
+import type { ContentMessageType, ContentRequest, ContentResponse, PayloadArgs, StreamServerMessage } from '../utils/messaging';
 
 // Import Google OAuth functions
 import {
@@ -36,27 +55,54 @@ import {
   getUserProfile
 } from '../auth/google-auth';
 
+import {
+  recordReply,
+  getReplyHistory,
+  deleteReplyHistoryEntry,
+  clearReplyHistory
+} from './history';
+
+import { loadBusinessLocations, resolvePageLocation, setLocationOverride } from './locations';
+
+import { deleteFollowUp, getFollowUps, logFollowUp, updateFollowUpStatus } from './follow-ups';
+
+import { getSelectionReplyRequest, rebuildContextMenus, updateContextMenuVisibility } from './context-menus';
+
+import {
+  GENERATION_QUEUE_ALARM,
+  enqueueGeneration,
+  isOfflineError,
+  processGenerationQueue
+} from './offline-queue';
+
+import {
+  AI_STREAM_PORT_NAME,
+  DEFAULT_VARIANT_PRESETS,
+  MAX_REPLY_VARIANTS,
+  REPLY_LANGUAGES,
+  SHORTCUT_COMMANDS,
+  STORAGE_KEYS
+} from '../types';
 import type {
   AIResponseErrorPayload,
   AIResponsePayload,
-  AIResponseRequestMessage,
-  AIResponseResultMessage,
+  AIResponseRequestPayload,
   AIResponseSuccessPayload,
+  AnsweringMode,
   AuthStatusResponse,
   DirectAIGenerateResponse,
-  ChromeMessage
+  GenerateAIOptions,
+  GenerationPreferences,
+  QueuedGeneration,
+  RefineReplyRequestPayload,
+  ReplyVariant,
+  ReplyVariantPreset,
+  RedactionPreviewResponse,
+  ReviewData,
+  ShortcutCommand
 } from '../types';
 
-type BackgroundMessage = AIResponseRequestMessage | ChromeMessage;
-
-function isAIResponseRequestMessage(message: BackgroundMessage): message is AIResponseRequestMessage {
-  if (message.type !== 'GENERATE_AI_RESPONSE') {
-    return false;
-  }
-
-  const candidate = message as AIResponseRequestMessage;
-  return typeof candidate.data === 'object' && candidate.data !== null && 'reviewData' in candidate.data;
-}
+type GenerationRequestOptions = Pick<GenerateAIOptions, 'promptId' | 'businessProfileId' | 'preferences' | 'customPrompt'>;
 
 function extractErrorMessage(error: unknown): string | undefined {
   if (error instanceof Error) {
@@ -76,21 +122,123 @@ function asRecord(value: unknown): Record<string, unknown> | null {
 setupExternalAuthListener();
 console.log('BoltReply: Extension service worker loaded');
 
+// Selector manifest refresh - Google changes its markup without notice
+const SELECTOR_REFRESH_ALARM = 'refresh-selector-manifest';
+const SELECTOR_REFRESH_PERIOD_MINUTES = 360;
+
 // Handle extension installation
 chrome.runtime.onInstalled.addListener(() => {
   console.log('BoltReply: Extension installed/updated');
+  chrome.alarms.create(SELECTOR_REFRESH_ALARM, { periodInMinutes: SELECTOR_REFRESH_PERIOD_MINUTES });
+  refreshSelectorManifest();
+  rebuildContextMenus();
+});
+
+chrome.runtime.onStartup.addListener(() => {
+  refreshSelectorManifest();
+  retryQueuedGenerations();
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  switch (alarm.name) {
+    case SELECTOR_REFRESH_ALARM:
+      refreshSelectorManifest();
+      break;
+    case GENERATION_QUEUE_ALARM:
+      retryQueuedGenerations();
+      break;
+  }
+});
+
+// Retry queued generations as soon as the connection comes back
+self.addEventListener('online', () => {
+  retryQueuedGenerations(true);
+});
+
+// Keyboard shortcuts act on the page, so each one goes to the content scripts of the tab it was pressed in
+chrome.commands.onCommand.addListener((command, tab) => {
+  const shortcut = SHORTCUT_COMMANDS.find(candidate => candidate === command);
+  if (shortcut) {
+    routeShortcut(shortcut, tab?.id);
+  }
+});
+
+async function routeShortcut(command: ShortcutCommand, tabId?: number): Promise<void> {
+  await sendToActiveTab(tabId, 'RUN_SHORTCUT', { command });
+}
+
+async function getActiveTabId(): Promise<number | undefined> {
+  return (await chrome.tabs.query({ active: true, lastFocusedWindow: true }))[0]?.id;
+}
+
+/**
+ * Send a message to the content scripts of a tab, the active one when tabId is undefined.
+ * Resolves undefined when no frame answers, e.g. on chrome:// pages and the Web Store.
+ */
+async function sendToActiveTab<K extends ContentMessageType>(
+  tabId: number | undefined,
+  type: K,
+  ...payload: PayloadArgs<ContentRequest<K>>
+): Promise<ContentResponse<K> | undefined> {
+  const targetTabId = tabId ?? (await getActiveTabId());
+  if (targetTabId === undefined) {
+    return undefined;
+  }
+  return sendTabMessage({ tabId: targetTabId }, type, ...payload);
+}
+
+// The context menu's template submenu follows the synced templates
+onReplyTemplatesChange(() => {
+  rebuildContextMenus();
+});
+
+// The menu follows the active tab, since Google's own pages have no panel to open
+chrome.tabs.onActivated.addListener(({ tabId }) => {
+  chrome.tabs.get(tabId)
+    .then(tab => updateContextMenuVisibility(tab.url))
+    .catch(() => undefined);
+});
+
+chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+  if (changeInfo.url && tab.active) {
+    updateContextMenuVisibility(changeInfo.url);
+  }
+});
+
+chrome.windows.onFocusChanged.addListener((windowId) => {
+  if (windowId === chrome.windows.WINDOW_ID_NONE) {
+    return;
+  }
+  chrome.tabs.query({ active: true, windowId })
+    .then(([tab]) => updateContextMenuVisibility(tab?.url))
+    .catch(() => undefined);
+});
+
+// "Reply with Bolt Reply" on selected text opens the panel in the page's top frame, where it lives
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  const request = getSelectionReplyRequest(info.menuItemId);
+  const text = info.selectionText?.trim();
+  if (!request || !text || tab?.id === undefined) {
+    return;
+  }
+
+  // Pages loaded before the extension have no content script yet, so nothing answers
+  sendTabMessage({ tabId: tab.id, frameId: 0 }, 'REPLY_TO_SELECTION', { ...request, text });
 });
 
 // Handle messages from content scripts and popup
-chrome.runtime.onMessage.addListener((message: BackgroundMessage, sender, sendResponse) => {
+// Unknown and malformed messages are answered with the parser's MessageFailure
+chrome.runtime.onMessage.addListener((rawMessage: unknown, sender, sendResponse) => {
+  const parsed = parseBackgroundMessage(rawMessage);
+  if (!parsed.ok) {
+    sendResponse(parsed.error);
+    return false;
+  }
+
+  const message = parsed.message;
   switch (message.type) {
     case 'GENERATE_AI_RESPONSE': {
-      if (!isAIResponseRequestMessage(message)) {
-        sendResponse({ success: false, error: 'Invalid AI response request' });
-        return false;
-      }
-
-      handleAIGenerationRequest(message, sender)
+      handleAIGenerationRequest(message.payload, sender)
         .then(result => sendResponse(result))
         .catch((error: unknown) => {
           sendResponse({
@@ -101,9 +249,16 @@ chrome.runtime.onMessage.addListener((message: BackgroundMessage, sender, sendRe
       return true;
     }
 
+    case 'REFINE_AI_RESPONSE': {
+      handleRefineRequest(message.payload, sender)
+        .then(result => sendResponse(result))
+        .catch((error: unknown) => sendResponse(buildErrorPayload(error)));
+      return true;
+    }
+
     case 'AUTH_STATUS':
       checkAuthStatus()
-        .then(result => sendResponse(result))
+        .then(result => sendResponse({ success: true, ...result }))
         .catch((error: unknown) => {
           sendResponse({
             success: false,
@@ -117,13 +272,14 @@ chrome.runtime.onMessage.addListener((message: BackgroundMessage, sender, sendRe
       isGoogleAuthenticated().then(async (authenticated) => {
         const user = authenticated ? await getUserProfile() : null;
         sendResponse({ 
+          success: true,
           isAuthenticated: authenticated,
           user: user || undefined
         });
       }).catch((error: unknown) => {
         sendResponse({ 
-          isAuthenticated: false, 
-          error: extractErrorMessage(error) 
+          success: false, 
+          error: extractErrorMessage(error) ?? 'Failed to check authentication status'
         });
       });
       return true;
@@ -131,15 +287,291 @@ chrome.runtime.onMessage.addListener((message: BackgroundMessage, sender, sendRe
     // Google OAuth: Get valid access token
     case 'GET_ACCESS_TOKEN':
       getValidAccessToken().then((token) => {
-        sendResponse({ token });
+        sendResponse({ success: true, token });
       }).catch((error: unknown) => {
         sendResponse({ 
-          token: null, 
-          error: extractErrorMessage(error) 
+          success: false, 
+          error: extractErrorMessage(error) ?? 'Failed to get access token'
         });
       });
       return true;
 
+    // Reply history: list, search, delete, clear
+    case 'GET_REPLY_HISTORY': {
+      getReplyHistory(message.payload)
+        .then(result => sendResponse({ success: true, ...result }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to load reply history'
+          });
+        });
+      return true;
+    }
+
+    // Follow-up list of escalated reviews in the popup
+    case 'GET_FOLLOW_UPS':
+      getFollowUps()
+        .then(entries => sendResponse({ success: true, entries }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to load follow-ups'
+          });
+        });
+      return true;
+
+    case 'UPDATE_FOLLOW_UP_STATUS': {
+      updateFollowUpStatus(message.payload.id, message.payload.status)
+        .then(() => sendResponse({ success: true }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to update follow-up'
+          });
+        });
+      return true;
+    }
+
+    // A reply written without generating (the de-escalation template) still lands on the list
+    case 'TRACK_ESCALATION':
+      trackEscalation(message.payload.reviewData, sender);
+      sendResponse({ success: true });
+      return false;
+
+    case 'DELETE_FOLLOW_UP': {
+      deleteFollowUp(message.payload.id)
+        .then(() => sendResponse({ success: true }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to delete follow-up'
+          });
+        });
+      return true;
+    }
+
+    case 'DELETE_REPLY_HISTORY_ENTRY': {
+      deleteReplyHistoryEntry(message.payload.id)
+        .then(() => sendResponse({ success: true }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to delete history entry'
+          });
+        });
+      return true;
+    }
+
+    case 'CLEAR_REPLY_HISTORY':
+      clearReplyHistory()
+        .then(() => sendResponse({ success: true }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to clear reply history'
+          });
+        });
+      return true;
+
+    // Diagnostics: anonymized report from the "could not extract" toast
+    case 'REPORT_BROKEN_PAGE': {
+      submitExtractionReport(message.payload, API_CONFIG)
+        .then(() => sendResponse({ success: true }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to send report'
+          });
+        });
+      return true;
+    }
+
+    // Answering mode and Pro prompts, read and changed from the popup
+    case 'GET_ANSWERING_MODE':
+      getAnsweringMode(API_CONFIG)
+        .then(async (result) => {
+          await storeAnsweringMode(result.answering_mode);
+          sendResponse({ success: true, answeringMode: result.answering_mode });
+        })
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to load answering mode'
+          });
+        });
+      return true;
+
+    case 'SET_ANSWERING_MODE': {
+      const { mode } = message.payload;
+      updateAnsweringMode(mode, API_CONFIG)
+        .then(async (result) => {
+          const answeringMode = result.answering_mode ?? mode;
+          await storeAnsweringMode(answeringMode);
+          sendResponse({ success: true, answeringMode });
+        })
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to update answering mode'
+          });
+        });
+      return true;
+    }
+
+    case 'GET_PRO_PROMPTS':
+      getUserPrompts(API_CONFIG)
+        .then(result => sendResponse({ success: true, prompts: result.prompts ?? [] }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to load prompts'
+          });
+        });
+      return true;
+
+    // Business locations: which profile the page answers as, with a per-page manual override
+    case 'GET_BUSINESS_LOCATIONS': {
+      const url = message.payload.url ?? sender.url ?? sender.tab?.url;
+      loadBusinessLocations(API_CONFIG, message.payload.refresh === true)
+        .then(() => resolvePageLocation(API_CONFIG, url))
+        .then(state => sendResponse({ success: true, ...state }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to load business locations'
+          });
+        });
+      return true;
+    }
+
+    case 'SET_LOCATION_OVERRIDE': {
+      const url = message.payload.url ?? sender.url ?? sender.tab?.url;
+      const { locationId } = message.payload;
+      if (!url) {
+        sendResponse({ success: false, error: 'Missing page URL' });
+        return false;
+      }
+      setLocationOverride(url, locationId)
+        .then(() => resolvePageLocation(API_CONFIG, url))
+        .then(state => sendResponse({ success: true, ...state }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to change location'
+          });
+        });
+      return true;
+    }
+
+    // Gloss of a review in the reader's language
+    case 'TRANSLATE_REVIEW': {
+      const text = message.payload.text.trim();
+      const targetLanguage = message.payload.targetLanguage ?? 'en';
+      if (!text) {
+        sendResponse({ success: false, error: 'Nothing to translate' });
+        return false;
+      }
+      translateReview(text, targetLanguage)
+        .then(translation => sendResponse({ success: true, translation }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to translate the review'
+          });
+        });
+      return true;
+    }
+
+    // The request exactly as generating with these options would send it
+    case 'PREVIEW_REDACTION': {
+      const request = message.payload;
+      resolveGenerationOptions(request, sender)
+        .then(options => prepareOutgoingRequest(request.reviewData, options))
+        .then(({ reviewData: sent, options, redactor }) => {
+          const preview: RedactionPreviewResponse = {
+            enabled: redactor !== null,
+            reviewData: sent,
+            redactions: redactor?.getRedactions() ?? [],
+            requestBody: buildGeneratePayload(sent, { variantPresets: resolveVariantPresets(request), ...options })
+          };
+          sendResponse({ success: true, ...preview });
+        })
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to preview the redaction'
+          });
+        });
+      return true;
+    }
+
+    // Side panel: the review on the active tab, from whichever frame has one
+    case 'GET_PAGE_REVIEW':
+      getActiveTabId()
+        .then(async (tabId) => {
+          const response = tabId === undefined ? undefined : await sendToActiveTab(tabId, 'EXTRACT_REVIEW');
+          const reviewData = response && 'handled' in response ? response.reviewData : null;
+          sendResponse({ success: true, reviewData, tabId: tabId ?? null });
+        })
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to read the review from the page'
+          });
+        });
+      return true;
+
+    // Side panel: stage a reply on the page, where the draft preview checks it before it goes in.
+    // Only the tab the review came from gets it, and only while the user is looking at it
+    case 'INSERT_INTO_PAGE': {
+      const { text, tabId } = message.payload;
+      if (!text.trim()) {
+        sendResponse({ success: false, error: 'There is no reply to insert' });
+        return false;
+      }
+      getActiveTabId()
+        .then(async (activeTabId) => {
+          if (activeTabId !== tabId) {
+            sendResponse({ success: false, error: 'Switch back to the tab this review was read from, then try again.' });
+            return;
+          }
+          const response = await sendToActiveTab(tabId, 'INSERT_RESPONSE', { text });
+          sendResponse({ success: true, inserted: response !== undefined && 'handled' in response && response.handled });
+        })
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to send the reply to the page'
+          });
+        });
+      return true;
+    }
+
+    // Business profile editor in the popup
+    case 'GET_BUSINESS_PROFILE':
+      getBusinessProfileGuide(API_CONFIG)
+        .then(result => sendResponse({ success: true, profile: result.business_profile }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to load business profile'
+          });
+        });
+      return true;
+
+    case 'UPDATE_BUSINESS_PROFILE': {
+      updateBusinessProfile(message.payload.changes, API_CONFIG)
+        .then(result => sendResponse({ success: true, profile: result.business_profile }))
+        .catch((error: unknown) => {
+          sendResponse({
+            success: false,
+            error: extractErrorMessage(error) ?? 'Failed to save business profile'
+          });
+        });
+      return true;
+    }
+
     // Google OAuth: Open login popup
     case 'OPEN_GOOGLE_LOGIN':
       try {
@@ -153,102 +585,612 @@ chrome.runtime.onMessage.addListener((message: BackgroundMessage, sender, sendRe
       }
       return false;
 
-    default:
-      sendResponse({ success: false, error: 'Unknown message type' });
-      return false;
   }
 });
 
+// Handle streaming generation over long-lived ports
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== AI_STREAM_PORT_NAME) {
+    return;
+  }
+
+  // Closing the port (tab closed, panel reset) cancels the stream just like an explicit cancel
+  const controller = new AbortController();
+  port.onDisconnect.addListener(() => controller.abort());
+
+  port.onMessage.addListener((rawMessage: unknown) => {
+    const parsed = parseStreamClientMessage(rawMessage);
+    if (!parsed.ok) {
+      const result: StreamServerMessage = { type: 'AI_RESPONSE_RESULT', payload: parsed.error };
+      port.postMessage(result);
+      return;
+    }
+
+    const message = parsed.message;
+    switch (message.type) {
+      case 'GENERATE_AI_RESPONSE':
+        handleStreamingGeneration(message.payload, port, controller.signal);
+        break;
+
+      case 'CANCEL_GENERATION':
+        controller.abort();
+        break;
+    }
+  });
+});
+
 /**
  * Handle AI generation request from content script
  */
 async function handleAIGenerationRequest(
-  message: AIResponseRequestMessage,
+  request: AIResponseRequestPayload,
   sender: chrome.runtime.MessageSender
 ): Promise<AIResponsePayload> {
+  let requestOptions: GenerationRequestOptions = {};
+
   try {
     // Validate message data
-    const { reviewData } = message.data;
+    const { reviewData } = request;
+    trackEscalation(reviewData, sender);
+    const variantPresets = resolveVariantPresets(request);
+    requestOptions = await resolveGenerationOptions(request, sender);
+    const outgoing = await prepareOutgoingRequest(reviewData, requestOptions);
 
     // Step 1: Generate AI response directly using new API
-    const result = await generateAIResponse(reviewData, API_CONFIG) as DirectAIGenerateResponse;
-
-    if (!result.success) {
-      throw new Error(result.error || 'AI generation failed');
-    }
+    const result = await generateAIResponse(outgoing.reviewData, { variantPresets, ...outgoing.options }, API_CONFIG);
+    const successPayload = await buildSuccessPayload(restoreGeneratedText(result, outgoing.redactor), variantPresets);
+    await saveToHistory(reviewData, successPayload, sender);
+    await releasePromptOverride(requestOptions.promptId);
 
     // Step 2: Send final result back to content script
-    const successPayload: AIResponseSuccessPayload = {
-      success: true,
-      aiResponse: result.generated_response || '',
-      requestId: result.request_id ?? `direct_${Date.now()}`,
-      confidence: result.confidence_score,
-      processingTime: result.processing_time_ms,
-      tokensUsed: result.tokens_used,
-      modelUsed: result.model_used,
-      creditsUsed: result.credits_used,
-      creditsRemaining: result.credits_remaining
-    };
-
-    await sendResponseToContentScript(sender, successPayload);
+    await sendResponseToContentScript(sender, successPayload, request.clientRequestId);
 
     return successPayload;
 
   } catch (error: unknown) {
+    if (isOfflineError(error)) {
+      const queuedPayload = await queueGeneration({ ...request, ...requestOptions }, sender, error);
+      await sendResponseToContentScript(sender, queuedPayload, request.clientRequestId);
+      return queuedPayload;
+    }
+
     console.error('❌ Error in AI generation request:', error);
 
-    // Handle error using the guide's error handler
-    const apiError = handleAPIErrorGuide(error);
+    // Send error back to content script
+    await sendResponseToContentScript(sender, buildErrorPayload(error), request.clientRequestId);
 
-    const errorPayload: AIResponseErrorPayload = {
-      success: false,
-      error: apiError.message,
-      errorCode: apiError.code
-    };
+    throw error;
+  }
+}
 
-    const errorMessage = extractErrorMessage(error) ?? '';
-    const errorRecord = asRecord(error);
-
-    // Handle specific error types from the new API
-    if (errorMessage.includes('402') || apiError.code === 'INSUFFICIENT_CREDITS') {
-      // Insufficient credits error
-      const creditsAvailable = typeof errorRecord?.['credits_available'] === 'number'
-        ? errorRecord['credits_available'] as number
-        : undefined;
-      const creditsRequired = typeof errorRecord?.['credits_required'] === 'number'
-        ? errorRecord['credits_required'] as number
-        : undefined;
-
-      Object.assign(errorPayload, {
-        errorType: 'INSUFFICIENT_CREDITS' as const,
-        creditsAvailable,
-        creditsRequired,
-        suggestion: 'Please upgrade your plan or purchase more credits.'
-      });
-    } else if (errorMessage.includes('400') || apiError.code === 'VALIDATION_ERROR') {
-      // Validation error
-      Object.assign(errorPayload, {
-        errorType: 'VALIDATION_ERROR' as const,
-        suggestion: 'Please check your input and try again.'
-      });
-    } else if (errorMessage.includes('401') || apiError.code === 'AUTH_FAILED') {
-      // Authentication error
-      Object.assign(errorPayload, {
-        errorType: 'AUTH_FAILED' as const,
-        suggestion: 'Please log in again.'
-      });
-    } else if (errorMessage.includes('500') || apiError.code === 'SERVER_ERROR') {
-      // Server error
-      Object.assign(errorPayload, {
-        errorType: 'SERVER_ERROR' as const,
-        suggestion: 'Please try again later.'
+/**
+ * Rewrite a reply the user already has; the caller replaces its draft and keeps the old one for undo
+ */
+async function handleRefineRequest(
+  request: RefineReplyRequestPayload,
+  sender: chrome.runtime.MessageSender
+): Promise<AIResponsePayload> {
+  const { reviewData, draft, instruction, detail } = request;
+  const requestOptions = await resolveGenerationOptions(request, sender);
+  const { reviewData: outgoingReview, options: outgoingOptions, redactor } = await prepareOutgoingRequest(reviewData, requestOptions);
+  // The draft and the detail carry the same personal data as the review, so they are masked the same way
+  const redact = (text: string): string => redactor?.redact(text) ?? text;
+  const trimmedDetail = detail?.trim();
+  const result = await refineAIResponse(
+    outgoingReview,
+    redact(draft),
+    instruction,
+    trimmedDetail ? redact(trimmedDetail) : undefined,
+    outgoingOptions,
+    API_CONFIG
+  );
+  const successPayload = await buildSuccessPayload(restoreGeneratedText(result, redactor), undefined);
+  await saveToHistory(reviewData, successPayload, sender);
+  return successPayload;
+}
+
+/**
+ * Handle a streaming generation request posted on an AI_STREAM port.
+ * Text deltas are relayed as PROGRESS_UPDATE messages, the final result as AI_RESPONSE_RESULT.
+ */
+async function handleStreamingGeneration(
+  request: AIResponseRequestPayload,
+  port: chrome.runtime.Port,
+  signal: AbortSignal
+): Promise<void> {
+  const postToPort = (streamMessage: StreamServerMessage) => {
+    try {
+      port.postMessage(streamMessage);
+    } catch {
+      // Port already closed by the content script
+    }
+  };
+
+  let streamedText = '';
+  let requestOptions: GenerationRequestOptions = {};
+
+  try {
+    const { reviewData } = request;
+    trackEscalation(reviewData, port.sender);
+    requestOptions = await resolveGenerationOptions(request, port.sender);
+    const { reviewData: outgoingReview, options: outgoingOptions, redactor } = await prepareOutgoingRequest(reviewData, requestOptions);
+    const restore = (text: string): string => redactor?.restore(text) ?? text;
+    let result: DirectAIGenerateResponse;
+
+    try {
+      result = await streamAIResponse(outgoingReview, outgoingOptions, (delta, text) => {
+        streamedText = text;
+        // A token split across deltas comes through masked in the delta; the full text is always restored
+        postToPort({ type: 'PROGRESS_UPDATE', payload: { status: 'processing', delta: restore(delta), text: restore(text) } });
+      }, signal, API_CONFIG);
+    } catch (error: unknown) {
+      // API deployments without the streaming endpoint answer 404; fall back to one round trip
+      const isMissingEndpoint = (extractErrorMessage(error) ?? '').includes('404');
+      if (!isMissingEndpoint || streamedText || signal.aborted) {
+        throw error;
+      }
+      result = await generateAIResponse(outgoingReview, outgoingOptions, API_CONFIG);
+    }
+
+    const successPayload = await buildSuccessPayload(restoreGeneratedText(result, redactor), undefined);
+    await saveToHistory(reviewData, successPayload, port.sender);
+    await releasePromptOverride(requestOptions.promptId);
+    postToPort({ type: 'AI_RESPONSE_RESULT', payload: successPayload });
+
+  } catch (error: unknown) {
+    if (signal.aborted) {
+      postToPort({
+        type: 'AI_RESPONSE_RESULT',
+        payload: { success: false, error: 'Generation cancelled', errorType: 'CANCELLED' }
       });
+      return;
     }
 
-    // Send error back to content script
-    await sendResponseToContentScript(sender, errorPayload);
+    // Nothing was written yet, so the whole request can be retried later
+    if (!streamedText && isOfflineError(error)) {
+      const queuedPayload = await queueGeneration({ ...request, ...requestOptions }, port.sender, error);
+      postToPort({ type: 'AI_RESPONSE_RESULT', payload: queuedPayload });
+      return;
+    }
 
-    throw error;
+    console.error('❌ Error in streaming AI generation:', error);
+    postToPort({ type: 'AI_RESPONSE_RESULT', payload: buildErrorPayload(error) });
+  }
+}
+
+/**
+ * Park a request the API couldn't be reached for and tell the caller it will be retried
+ */
+async function queueGeneration(
+  request: AIResponseRequestPayload,
+  sender: chrome.runtime.MessageSender | undefined,
+  error: unknown
+): Promise<AIResponseErrorPayload> {
+  try {
+    await enqueueGeneration(request, sender, extractErrorMessage(error));
+  } catch (queueError) {
+    console.error('❌ Error queueing generation:', queueError);
+    return buildErrorPayload(error);
+  }
+
+  return {
+    success: false,
+    error: "You're offline. The reply is queued and will be generated when the connection returns.",
+    errorType: 'QUEUED',
+    suggestion: 'You will be notified when the draft is ready.'
+  };
+}
+
+/**
+ * Retry queued generations; force runs every item, not just the ones that are due
+ */
+function retryQueuedGenerations(force = false): void {
+  processGenerationQueue({ run: runQueuedGeneration, onGiveUp: notifyQueuedGenerationFailed }, force)
+    .catch((error: unknown) => console.error('❌ Error processing generation queue:', error));
+}
+
+/**
+ * Generate a queued reply and deliver it. Throws only when the API is still unreachable.
+ */
+async function runQueuedGeneration(item: QueuedGeneration): Promise<void> {
+  const { reviewData } = item.request;
+  const variantPresets = resolveVariantPresets(item.request);
+  let successPayload: AIResponseSuccessPayload;
+
+  try {
+    // The location was resolved when the request was queued; the tab may have moved on since
+    const requestOptions = await resolveGenerationOptions(item.request, undefined);
+    const outgoing = await prepareOutgoingRequest(reviewData, requestOptions);
+    const result = await generateAIResponse(outgoing.reviewData, { variantPresets, ...outgoing.options }, API_CONFIG);
+    successPayload = await buildSuccessPayload(restoreGeneratedText(result, outgoing.redactor), variantPresets);
+  } catch (error: unknown) {
+    if (isOfflineError(error)) {
+      throw error;
+    }
+    console.error('❌ Queued generation failed:', error);
+    await notifyQueuedGenerationFailed(item, buildErrorPayload(error).error);
+    return;
+  }
+
+  await recordReply(reviewData, successPayload, item.sourceUrl)
+    .catch((error: unknown) => console.error('❌ Error saving reply history:', error));
+
+  // The originating tab answers only if it could stage the draft; otherwise fall back to a notification
+  if (await deliverQueuedReply(item, successPayload)) {
+    return;
+  }
+
+  const reviewer = reviewData.reviewer_name;
+  chrome.notifications.create(`queued-reply-${item.id}`, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+    title: 'Your reply is ready',
+    message: reviewer
+      ? `The queued reply to ${reviewer} was generated. Find it in Bolt Reply's History tab.`
+      : "A queued reply was generated. Find it in Bolt Reply's History tab."
+  });
+}
+
+async function deliverQueuedReply(item: QueuedGeneration, result: AIResponseSuccessPayload): Promise<boolean> {
+  if (item.tabId === undefined) {
+    return false;
+  }
+
+  // Unanswered when the tab was closed or navigated away
+  const response = await sendTabMessage({ tabId: item.tabId }, 'QUEUED_REPLY_READY', { reviewData: item.request.reviewData, result });
+  return response !== undefined && 'handled' in response && response.handled;
+}
+
+async function notifyQueuedGenerationFailed(item: QueuedGeneration, reason?: string): Promise<void> {
+  chrome.notifications.create(`queued-reply-failed-${item.id}`, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+    title: 'Queued reply could not be generated',
+    message: reason ?? 'The server could not be reached after several tries. Please generate the reply again.'
+  });
+}
+
+/**
+ * Turn a completed API response into the payload content scripts receive
+ */
+async function buildSuccessPayload(
+  result: DirectAIGenerateResponse,
+  variantPresets: ReplyVariantPreset[] | undefined
+): Promise<AIResponseSuccessPayload> {
+  if (!result.success) {
+    throw new Error(result.error || 'AI generation failed');
+  }
+
+  const variants = mapReplyVariants(result, variantPresets);
+  const successPayload: AIResponseSuccessPayload = {
+    success: true,
+    aiResponse: variants?.[0]?.text ?? result.generated_response ?? '',
+    variants,
+    requestId: result.request_id ?? `direct_${Date.now()}`,
+    confidence: result.confidence_score,
+    processingTime: result.processing_time_ms,
+    tokensUsed: result.tokens_used,
+    modelUsed: result.model_used,
+    creditsUsed: result.credits_used,
+    creditsRemaining: result.credits_remaining
+  };
+
+  // Keep the shared credit balance current so content scripts can budget batch runs
+  if (typeof result.credits_remaining === 'number') {
+    await chrome.storage.local.set({ credits_remaining: result.credits_remaining });
+  }
+
+  return successPayload;
+}
+
+/**
+ * Record a generated reply in the local history; a storage failure never fails the generation
+ */
+async function saveToHistory(
+  reviewData: ReviewData,
+  payload: AIResponseSuccessPayload,
+  sender: chrome.runtime.MessageSender | undefined
+): Promise<void> {
+  try {
+    await recordReply(reviewData, payload, sender?.tab?.url ?? sender?.url);
+  } catch (error) {
+    console.error('❌ Error saving reply history:', error);
+  }
+}
+
+/**
+ * The review and options as they go to the API: masked when personal data redaction is on.
+ * The redactor, when there is one, puts safe tokens back into what the API returns.
+ */
+async function prepareOutgoingRequest(
+  reviewData: ReviewData,
+  options: GenerationRequestOptions
+): Promise<{ reviewData: ReviewData; options: GenerationRequestOptions; redactor: Redactor | null }> {
+  if (!(await getSettings()).redactPersonalData) {
+    return { reviewData, options, redactor: null };
+  }
+  const redactor = createRedactor(reviewData.reviewer_name);
+  const outgoingReview = redactReviewData(reviewData, redactor);
+  // A filled template can carry the reviewer's name too
+  const customPrompt = options.customPrompt ? redactor.redact(options.customPrompt) : undefined;
+  return { reviewData: outgoingReview, options: { ...options, customPrompt }, redactor };
+}
+
+function restoreGeneratedText(result: DirectAIGenerateResponse, redactor: Redactor | null): DirectAIGenerateResponse {
+  if (!redactor || !result.success) {
+    return result;
+  }
+  return {
+    ...result,
+    generated_response: redactor.restore(result.generated_response ?? ''),
+    variants: result.variants?.map(variant => ({ ...variant, generated_response: redactor.restore(variant.generated_response) }))
+  };
+}
+
+/**
+ * Translate review text for the reader. The translation is only shown locally, so every token is unmasked.
+ */
+async function translateReview(text: string, targetLanguage: string): Promise<string> {
+  if (!(await getSettings()).redactPersonalData) {
+    return (await translateText(text, targetLanguage, API_CONFIG)).translation;
+  }
+  const redactor = createRedactor();
+  const response = await translateText(redactor.redact(text), targetLanguage, API_CONFIG);
+  return redactor.unmask(response.translation);
+}
+
+/**
+ * Put low-rated and complaining reviews on the follow-up list; never blocks generation
+ */
+function trackEscalation(reviewData: ReviewData, sender: chrome.runtime.MessageSender | undefined): void {
+  const { needsEscalation, reasons } = assessEscalation(reviewData);
+  if (!needsEscalation) {
+    return;
+  }
+  logFollowUp(reviewData, reasons, getRequestPageUrl(reviewData, sender))
+    .catch((error: unknown) => console.error('❌ Error logging follow-up:', error));
+}
+
+/**
+ * Map a generation failure to the error payload content scripts receive
+ */
+function buildErrorPayload(error: unknown): AIResponseErrorPayload {
+  // Handle error using the guide's error handler
+  const apiError = handleAPIErrorGuide(error);
+
+  const errorPayload: AIResponseErrorPayload = {
+    success: false,
+    error: apiError.message,
+    errorCode: apiError.code
+  };
+
+  const errorMessage = extractErrorMessage(error) ?? '';
+  const errorRecord = asRecord(error);
+
+  // Handle specific error types from the new API
+  if (errorMessage.includes('402') || apiError.code === 'INSUFFICIENT_CREDITS') {
+    // Insufficient credits error
+    const creditsAvailable = typeof errorRecord?.['credits_available'] === 'number'
+      ? errorRecord['credits_available'] as number
+      : undefined;
+    const creditsRequired = typeof errorRecord?.['credits_required'] === 'number'
+      ? errorRecord['credits_required'] as number
+      : undefined;
+
+    Object.assign(errorPayload, {
+      errorType: 'INSUFFICIENT_CREDITS' as const,
+      creditsAvailable,
+      creditsRequired,
+      suggestion: 'Please upgrade your plan or purchase more credits.'
+    });
+  } else if (errorMessage.includes('400') || apiError.code === 'VALIDATION_ERROR') {
+    // Validation error
+    Object.assign(errorPayload, {
+      errorType: 'VALIDATION_ERROR' as const,
+      suggestion: 'Please check your input and try again.'
+    });
+  } else if (errorMessage.includes('401') || apiError.code === 'AUTH_FAILED') {
+    // Authentication error
+    Object.assign(errorPayload, {
+      errorType: 'AUTH_FAILED' as const,
+      suggestion: 'Please log in again.'
+    });
+  } else if (errorMessage.includes('500') || apiError.code === 'SERVER_ERROR') {
+    // Server error
+    Object.assign(errorPayload, {
+      errorType: 'SERVER_ERROR' as const,
+      suggestion: 'Please try again later.'
+    });
+  }
+
+  return errorPayload;
+}
+
+/**
+ * Work out which tone/length presets to request; a plain count uses the defaults
+ */
+function resolveVariantPresets(data: AIResponseRequestPayload): ReplyVariantPreset[] | undefined {
+  if (data.variantPresets && data.variantPresets.length > 1) {
+    return data.variantPresets.slice(0, MAX_REPLY_VARIANTS);
+  }
+
+  if (typeof data.variants === 'number' && data.variants > 1) {
+    return DEFAULT_VARIANT_PRESETS.slice(0, Math.min(data.variants, MAX_REPLY_VARIANTS));
+  }
+
+  return undefined;
+}
+
+/**
+ * The Pro prompt the request asked for. Simple mode answers from the business profile,
+ * so a prompt ID is dropped unless the account is in Pro mode.
+ */
+async function resolvePromptId(data: AIResponseRequestPayload): Promise<string | undefined> {
+  if (!data.promptId) {
+    return undefined;
+  }
+
+  try {
+    return (await readAnsweringMode()) === 'pro' ? data.promptId : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The popup's Pro prompt answers one generation; once a reply used it, the next one matches the rating again
+ */
+async function releasePromptOverride(promptId: string | undefined): Promise<void> {
+  if (promptId && (await getSettings()).promptOverrideId === promptId) {
+    await updateSettings({ promptOverrideId: null });
+  }
+}
+
+/**
+ * The page a request is about: the sending frame, or the review's own page when an extension
+ * page such as the side panel sent it
+ */
+function getRequestPageUrl(reviewData: ReviewData, sender: chrome.runtime.MessageSender | undefined): string | undefined {
+  const senderUrl = sender?.url ?? sender?.tab?.url;
+  return senderUrl?.startsWith(chrome.runtime.getURL('')) ? reviewData.website_url : senderUrl;
+}
+
+/**
+ * The business profile to answer as: the request's own choice, else the location the
+ * sending page (the frame, for Google's review iframe) maps to
+ */
+async function resolveBusinessProfileId(
+  data: AIResponseRequestPayload,
+  sender: chrome.runtime.MessageSender | undefined
+): Promise<string | undefined> {
+  if (data.businessProfileId || !sender) {
+    return data.businessProfileId;
+  }
+
+  try {
+    const { activeId } = await resolvePageLocation(API_CONFIG, getRequestPageUrl(data.reviewData, sender));
+    return activeId ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The request's tone, length and language. Without a language of its own the reply follows the
+ * reply-language setting: the review's language when it was detected confidently, else the API's guess.
+ */
+async function resolvePreferences(data: AIResponseRequestPayload): Promise<GenerationPreferences> {
+  const preferences = sanitizeGenerationPreferences(data.preferences);
+  if (preferences.language) {
+    return preferences;
+  }
+
+  try {
+    if ((await getSettings()).replyLanguageMode !== 'reviewer') {
+      return preferences;
+    }
+  } catch {
+    return preferences;
+  }
+
+  const { reviewData } = data;
+  const detection = reviewData.detected_language
+    ? { language: reviewData.detected_language, confidence: reviewData.detected_language_confidence ?? 0 }
+    : detectLanguage(reviewData.review_text);
+  const detected = REPLY_LANGUAGES.find(language => language === detection.language);
+  const language = detected && detection.confidence >= MIN_LANGUAGE_CONFIDENCE ? detected : 'auto';
+  return { ...preferences, language };
+}
+
+/**
+ * A filled reply template sent as an extra instruction; capped like templates themselves
+ */
+function resolveCustomPrompt(data: AIResponseRequestPayload): string | undefined {
+  const customPrompt = typeof data.customPrompt === 'string' ? data.customPrompt.trim() : '';
+  return customPrompt ? customPrompt.slice(0, MAX_TEMPLATE_BODY_LENGTH) : undefined;
+}
+
+async function resolveGenerationOptions(
+  data: AIResponseRequestPayload,
+  sender: chrome.runtime.MessageSender | undefined
+): Promise<GenerationRequestOptions> {
+  const [promptId, businessProfileId, preferences] = await Promise.all([
+    resolvePromptId(data),
+    resolveBusinessProfileId(data, sender),
+    resolvePreferences(data)
+  ]);
+  return { promptId, businessProfileId, preferences, customPrompt: resolveCustomPrompt(data) };
+}
+
+/**
+ * Pair the variants returned by the API with the presets they were requested for
+ */
+function mapReplyVariants(
+  result: DirectAIGenerateResponse,
+  presets: ReplyVariantPreset[] | undefined
+): ReplyVariant[] | undefined {
+  if (!presets || !result.variants || result.variants.length === 0) {
+    return undefined;
+  }
+
+  // Pair each variant with its preset by position before dropping empty ones, so labels stay true
+  return result.variants
+    .map((variant, index) => {
+      const preset = presets[index];
+      return {
+        label: preset?.label ?? `Option ${index + 1}`,
+        tone: preset?.tone ?? 'professional',
+        length: preset?.length ?? 'medium',
+        text: variant.generated_response
+      };
+    })
+    .filter(variant => variant.text);
+}
+
+/**
+ * Fetch the selector manifest and cache it when it is valid and newer than what we have
+ */
+async function refreshSelectorManifest(): Promise<void> {
+  try {
+    const manifest = validateSelectorManifest(await fetchSelectorManifest(API_CONFIG));
+    if (!manifest) {
+      console.warn('⚠️ Ignoring selector manifest that failed validation');
+      return;
+    }
+
+    const current = await loadSelectorManifest();
+    if (manifest.version > current.version) {
+      await chrome.storage.local.set({ [STORAGE_KEYS.SELECTOR_MANIFEST]: manifest });
+    }
+  } catch (error) {
+    // Signed out or offline - keep using the cached or bundled selectors
+    console.warn('⚠️ Could not refresh selector manifest:', extractErrorMessage(error));
+  }
+}
+
+/**
+ * The answering mode cached with the user profile, asking the server when it isn't there
+ */
+async function readAnsweringMode(): Promise<AnsweringMode> {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.USER_DATA]);
+  const cached = asRecord(result[STORAGE_KEYS.USER_DATA])?.answering_mode;
+  if (cached === 'simple' || cached === 'pro') {
+    return cached;
+  }
+
+  const { answering_mode } = await getAnsweringMode(API_CONFIG);
+  await storeAnsweringMode(answering_mode);
+  return answering_mode;
+}
+
+/**
+ * Keep the cached user profile's answering mode in step with the server
+ */
+async function storeAnsweringMode(mode: AnsweringMode): Promise<void> {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.USER_DATA]);
+  const userData = asRecord(result[STORAGE_KEYS.USER_DATA]);
+  if (userData) {
+    await chrome.storage.local.set({ [STORAGE_KEYS.USER_DATA]: { ...userData, answering_mode: mode } });
   }
 }
 
@@ -270,21 +1212,12 @@ async function getStoredAuthToken(): Promise<string | null> {
  */
 async function sendResponseToContentScript(
   sender: chrome.runtime.MessageSender,
-  responseData: AIResponsePayload
+  responseData: AIResponsePayload,
+  clientRequestId: string | undefined
 ): Promise<void> {
-  try {
-    // Try to send message back through the same tab
-    if (sender.tab?.id) {
-      const message: AIResponseResultMessage = {
-        type: 'AI_RESPONSE_RESULT',
-        data: responseData,
-        timestamp: Date.now()
-      };
-
-      await chrome.tabs.sendMessage(sender.tab.id, message);
-    }
-  } catch (error) {
-    console.error('❌ Error sending response to content script:', error);
+  // Try to send message back through the same tab; every frame gets it, so tag it for the sender
+  if (sender.tab?.id) {
+    await sendTabMessage({ tabId: sender.tab.id }, 'AI_RESPONSE_RESULT', { ...responseData, clientRequestId });
   }
 }
 
@@ -301,9 +1234,10 @@ async function checkAuthStatus(): Promise<AuthStatusResponse> {
 
     // Try to fetch business profile and prompts using new API functions
     try {
-      const [businessProfileResponse, promptsResponse] = await Promise.all([
+      const [businessProfileResponse, promptsResponse, businessLocations] = await Promise.all([
         getBusinessProfileGuide(API_CONFIG),
-        getUserPrompts(API_CONFIG)
+        getUserPrompts(API_CONFIG),
+        loadBusinessLocations(API_CONFIG, true)
       ]);
 
       // Format data to match extension's expected structure
@@ -325,6 +1259,7 @@ async function checkAuthStatus(): Promise<AuthStatusResponse> {
           greetings: businessProfile.greetings,
           signatures: businessProfile.signatures
         },
+        businessLocations,
         prompts: promptsResponse.prompts || []
       };
 
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { getSettings, onSettingsChange, updateSettings } from '../utils/settings';
+import { sendMessage } from '../utils/messaging';
+import type { AnsweringMode, PromptsResponse } from '../types';
+
+type ProPrompt = PromptsResponse['prompts'][number];
+
+interface AnsweringModePickerProps {
+  mode: AnsweringMode;
+  onModeChange: (mode: AnsweringMode) => void;
+}
+
+const ANSWERING_MODES: ReadonlyArray<{ id: AnsweringMode; label: string; description: string }> = [
+  { id: 'simple', label: 'Simple', description: 'Replies follow your business profile.' },
+  { id: 'pro', label: 'Pro', description: 'Replies follow the prompt you wrote for each star rating.' }
+];
+
+const PROMPT_PREVIEW_LENGTH = 60;
+
+function previewPrompt(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > PROMPT_PREVIEW_LENGTH ? `${text.slice(0, PROMPT_PREVIEW_LENGTH)}…` : text;
+}
+
+// Prompts grouped by the star rating they answer, highest first
+function groupByRating(prompts: ProPrompt[]): Array<[number, ProPrompt[]]> {
+  const groups = new Map<number, ProPrompt[]>();
+  prompts.forEach(prompt => groups.set(prompt.rating, [...(groups.get(prompt.rating) ?? []), prompt]));
+  return Array.from(groups.entries()).sort(([a], [b]) => b - a);
+}
+
+// Switch answering mode in place and, in Pro mode, pick the prompt for the next generation
+export function AnsweringModePicker({ mode, onModeChange }: AnsweringModePickerProps): JSX.Element {
+  const [prompts, setPrompts] = useState<ProPrompt[]>([]);
+  const [promptOverrideId, setPromptOverrideId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // The mode cached at sign-in can be stale; ask the server
+  useEffect(() => {
+    sendMessage('GET_ANSWERING_MODE').then((response) => {
+      if (response.success) {
+        onModeChange(response.answeringMode);
+      }
+    });
+    getSettings()
+      .then(settings => setPromptOverrideId(settings.promptOverrideId))
+      .catch((loadError: unknown) => console.error('Settings load error:', loadError));
+    // The service worker clears the pick once a reply used it
+    return onSettingsChange(settings => setPromptOverrideId(settings.promptOverrideId));
+  }, []);
+
+  useEffect(() => {
+    if (mode !== 'pro') {
+      return;
+    }
+    sendMessage('GET_PRO_PROMPTS').then((response) => {
+      if (!response.success) {
+        setError(response.error || 'Failed to load your prompts.');
+        return;
+      }
+      setPrompts(response.prompts);
+    });
+  }, [mode]);
+
+  const handlePromptChange = async (id: string | null) => {
+    try {
+      setPromptOverrideId((await updateSettings({ promptOverrideId: id })).promptOverrideId);
+      setError('');
+    } catch (saveError) {
+      console.error('Settings save error:', saveError);
+      setError('Failed to save the prompt choice.');
+    }
+  };
+
+  const handleModeChange = (nextMode: AnsweringMode) => {
+    if (nextMode === mode || isSaving) {
+      return;
+    }
+    setIsSaving(true);
+    sendMessage('SET_ANSWERING_MODE', { mode: nextMode }).then((response) => {
+      setIsSaving(false);
+      if (!response.success) {
+        setError(response.error || 'Failed to change answering mode.');
+        return;
+      }
+      setError('');
+      onModeChange(response.answeringMode);
+      // A pinned Pro prompt means nothing in Simple mode
+      if (nextMode === 'simple' && promptOverrideId) {
+        handlePromptChange(null);
+      }
+    });
+  };
+
+  const activeMode = ANSWERING_MODES.find(option => option.id === mode) ?? ANSWERING_MODES[0];
+
+  return (
+    <div className="flex flex-col gap-3 p-3 bg-background/30 backdrop-blur-[12px] border border-border rounded-lg">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-primary">Answering Mode</span>
+        <div className="flex gap-1 p-1 bg-secondary/50 rounded-md">
+          {ANSWERING_MODES.map(option => (
+            <button
+              key={option.id}
+              className={`h-7 px-3 rounded text-xs font-medium transition-colors disabled:opacity-50 ${mode === option.id ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+              onClick={() => handleModeChange(option.id)}
+              disabled={isSaving}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <span className="text-xs text-muted-foreground italic">{activeMode.description}</span>
+
+      {mode === 'pro' && (
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium text-foreground">Prompt for the next reply</span>
+          <select
+            className="h-8 px-2 bg-background border border-input rounded-md text-xs"
+            value={promptOverrideId ?? ''}
+            onChange={(e) => handlePromptChange(e.target.value || null)}
+          >
+            <option value="">Automatic - match the review's rating</option>
+            {groupByRating(prompts).map(([rating, group]) => (
+              <optgroup key={rating} label={`${rating}-star prompts`}>
+                {group.map(prompt => (
+                  <option key={prompt.id} value={prompt.id}>{previewPrompt(prompt.content)}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <span className="text-xs text-muted-foreground">Used for one reply, then replies match the rating again.</span>
+        </label>
+      )}
+
+      {error && <p className="text-xs text-destructive m-0">{error}</p>}
+    </div>
+  );
+}
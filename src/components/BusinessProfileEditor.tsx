@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import {
+  EMPTY_BUSINESS_PROFILE,
+  buildSignaturePreview,
+  getChangedFields,
+  getMaxLength,
+  normalizeBusinessProfile,
+  validateBusinessProfile
+} from '../utils/business-profile';
+import { sendMessage } from '../utils/messaging';
+import { REPLY_LENGTHS, REPLY_TONES } from '../types';
+import type { BusinessProfileDetails, BusinessProfileErrors } from '../types';
+
+type ProfileField = keyof BusinessProfileDetails;
+
+interface BusinessProfileEditorProps {
+  onDirtyChange?: (isDirty: boolean) => void;
+}
+
+const LANGUAGES: ReadonlyArray<{ code: string; label: string }> = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'auto', label: "Match the reviewer's language" }
+];
+
+const INPUT_CLASS = 'w-full px-2 py-1.5 bg-background border rounded-md text-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:opacity-50 transition-colors';
+
+interface FieldProps {
+  field: ProfileField;
+  label: string;
+  value: string;
+  error?: string;
+  multiline?: boolean;
+  placeholder?: string;
+  disabled: boolean;
+  onChange: (field: ProfileField, value: string) => void;
+}
+
+function ProfileInput({ field, label, value, error, multiline, placeholder, disabled, onChange }: FieldProps): JSX.Element {
+  const maxLength = getMaxLength(field);
+  const className = `${INPUT_CLASS} ${error ? 'border-destructive' : 'border-input'}`;
+
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="flex justify-between text-xs font-medium text-foreground">
+        {label}
+        {multiline && <span className="font-normal text-muted-foreground">{value.length}/{maxLength}</span>}
+      </span>
+      {multiline ? (
+        <textarea
+          className={`${className} min-h-[56px] resize-y`}
+          value={value}
+          placeholder={placeholder}
+          disabled={disabled}
+          onChange={(e) => onChange(field, e.target.value)}
+        />
+      ) : (
+        <input
+          className={`${className} h-8`}
+          value={value}
+          placeholder={placeholder}
+          disabled={disabled}
+          onChange={(e) => onChange(field, e.target.value)}
+        />
+      )}
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </label>
+  );
+}
+
+// Edit the business profile replies are written from, without leaving the extension
+export function BusinessProfileEditor({ onDirtyChange }: BusinessProfileEditorProps): JSX.Element {
+  const [saved, setSaved] = useState<BusinessProfileDetails>(EMPTY_BUSINESS_PROFILE);
+  const [draft, setDraft] = useState<BusinessProfileDetails>(EMPTY_BUSINESS_PROFILE);
+  const [errors, setErrors] = useState<BusinessProfileErrors>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [generalError, setGeneralError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const changes = getChangedFields(saved, draft);
+  const isDirty = Object.keys(changes).length > 0;
+
+  useEffect(() => {
+    sendMessage('GET_BUSINESS_PROFILE').then((response) => {
+      setIsLoading(false);
+      if (!response.success) {
+        setGeneralError(response.error || 'Failed to load your business profile.');
+        return;
+      }
+      const profile = normalizeBusinessProfile(response.profile);
+      setSaved(profile);
+      setDraft(profile);
+    });
+  }, []);
+
+  useEffect(() => {
+    onDirtyChange?.(isDirty);
+  }, [isDirty, onDirtyChange]);
+
+  const handleChange = (field: ProfileField, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+    setNotice('');
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateBusinessProfile(draft);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0 || !isDirty) {
+      return;
+    }
+
+    // Optimistic: treat the draft as saved right away and roll back if the server refuses it
+    const previous = saved;
+    setSaved(draft);
+    setIsSaving(true);
+    setGeneralError('');
+    setNotice('Saved.');
+
+    sendMessage('UPDATE_BUSINESS_PROFILE', { changes }).then((response) => {
+      setIsSaving(false);
+      if (!response.success) {
+        setSaved(previous);
+        setNotice('');
+        setGeneralError(response.error || 'Failed to save your business profile. Your changes are still here.');
+      }
+    });
+  };
+
+  const handleDiscard = () => {
+    setDraft(saved);
+    setErrors({});
+    setNotice('');
+  };
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground m-0">Loading business profile...</p>;
+  }
+
+  const fieldProps = (field: ProfileField) => ({
+    field,
+    value: draft[field] ?? '',
+    error: errors[field],
+    disabled: isSaving,
+    onChange: handleChange
+  });
+
+  return (
+    <form className="flex flex-col gap-5" onSubmit={handleSave}>
+      <section className="flex flex-col gap-2">
+        <h4 className="text-sm font-semibold text-foreground m-0">Business</h4>
+        <ProfileInput {...fieldProps('business_name')} label="Business name" />
+        <ProfileInput {...fieldProps('business_main_category')} label="Main category" placeholder="e.g. Italian restaurant" />
+        <ProfileInput {...fieldProps('business_secondary_category')} label="Secondary category" />
+        <ProfileInput {...fieldProps('main_products_services')} label="Main products and services" multiline />
+        <ProfileInput {...fieldProps('brief_description')} label="Short description" multiline />
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <ProfileInput {...fieldProps('country')} label="Country" />
+          </div>
+          <div className="flex-1">
+            <ProfileInput {...fieldProps('state_province')} label="State / province" />
+          </div>
+        </div>
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h4 className="text-sm font-semibold text-foreground m-0">Voice</h4>
+        <div className="flex gap-2">
+          <label className="flex flex-1 flex-col gap-1">
+            <span className="text-xs font-medium text-foreground">Language</span>
+            <select
+              className={`${INPUT_CLASS} h-8 ${errors.language ? 'border-destructive' : 'border-input'}`}
+              value={draft.language}
+              disabled={isSaving}
+              onChange={(e) => handleChange('language', e.target.value)}
+            >
+              {!LANGUAGES.some(language => language.code === draft.language) && (
+                <option value={draft.language}>{draft.language || 'Choose...'}</option>
+              )}
+              {LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>{language.label}</option>
+              ))}
+            </select>
+            {errors.language && <span className="text-xs text-destructive">{errors.language}</span>}
+          </label>
+          <label className="flex flex-1 flex-col gap-1">
+            <span className="text-xs font-medium text-foreground">Tone</span>
+            <select
+              className={`${INPUT_CLASS} h-8 border-input capitalize`}
+              value={draft.response_tone}
+              disabled={isSaving}
+              onChange={(e) => handleChange('response_tone', e.target.value)}
+            >
+              {REPLY_TONES.map(tone => <option key={tone} value={tone}>{tone}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-1 flex-col gap-1">
+            <span className="text-xs font-medium text-foreground">Length</span>
+            <select
+              className={`${INPUT_CLASS} h-8 border-input capitalize`}
+              value={draft.response_length}
+              disabled={isSaving}
+              onChange={(e) => handleChange('response_length', e.target.value)}
+            >
+              {REPLY_LENGTHS.map(length => <option key={length} value={length}>{length}</option>)}
+            </select>
+          </label>
+        </div>
+        <ProfileInput {...fieldProps('brand_voice_notes')} label="Brand voice notes" multiline />
+        <ProfileInput {...fieldProps('other_considerations')} label="Other considerations" multiline />
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h4 className="text-sm font-semibold text-foreground m-0">Greeting and signature</h4>
+        <ProfileInput {...fieldProps('greetings')} label="Greeting" placeholder="e.g. Hi there," multiline />
+        <ProfileInput {...fieldProps('signatures')} label="Signature" placeholder="e.g. Maria, Owner" multiline />
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-medium text-foreground">Preview</span>
+          <p className="glass-inner bg-background/50 text-xs text-muted-foreground whitespace-pre-wrap m-0">
+            {buildSignaturePreview(draft)}
+          </p>
+        </div>
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h4 className="text-sm font-semibold text-foreground m-0">Review handling</h4>
+        <ProfileInput {...fieldProps('positive_review_cta')} label="Call to action for positive reviews" multiline />
+        <ProfileInput {...fieldProps('negative_review_escalation')} label="Escalation for negative reviews" multiline />
+      </section>
+
+      {generalError && <p className="text-xs text-destructive m-0">{generalError}</p>}
+
+      <div className="sticky bottom-0 flex items-center gap-2 pt-2 bg-background/80">
+        <span className="flex-1 text-xs text-muted-foreground">
+          {isDirty ? 'Unsaved changes' : notice}
+        </span>
+        <button
+          type="button"
+          className="h-8 px-3 bg-secondary/50 hover:bg-secondary border border-input rounded-md text-xs font-medium transition-colors disabled:opacity-50"
+          onClick={handleDiscard}
+          disabled={!isDirty || isSaving}
+        >
+          Discard
+        </button>
+        <button
+          type="submit"
+          className="h-8 px-3 bg-primary text-primary-foreground hover:bg-primary/90 rounded-md text-xs font-medium transition-colors disabled:opacity-50"
+          disabled={!isDirty || isSaving}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
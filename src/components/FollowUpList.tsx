@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { sendMessage } from '../utils/messaging';
+import { FOLLOW_UP_STATUSES } from '../types';
+import type { FollowUpEntry, FollowUpStatus } from '../types';
+
+const STATUS_LABELS: Record<FollowUpStatus, string> = {
+  open: 'Open',
+  contacted: 'Contacted',
+  resolved: 'Resolved'
+};
+
+const STATUS_CLASSES: Record<FollowUpStatus, string> = {
+  open: 'bg-destructive/10 text-destructive',
+  contacted: 'bg-primary/10 text-primary',
+  resolved: 'bg-secondary text-muted-foreground'
+};
+
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+// Low-rated and complaining reviews logged by the service worker, tracked until resolved
+export function FollowUpList(): JSX.Element {
+  const [entries, setEntries] = useState<FollowUpEntry[]>([]);
+  const [filter, setFilter] = useState<FollowUpStatus | 'all'>('open');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadFollowUps = useCallback(() => {
+    sendMessage('GET_FOLLOW_UPS').then((response) => {
+      setIsLoading(false);
+      if (!response.success) {
+        setError(response.error || 'Failed to load follow-ups.');
+        return;
+      }
+      setError('');
+      setEntries(response.entries);
+    });
+  }, []);
+
+  useEffect(() => {
+    loadFollowUps();
+  }, [loadFollowUps]);
+
+  const handleStatusChange = (entry: FollowUpEntry, status: FollowUpStatus) => {
+    setEntries(prev => prev.map(item => (item.id === entry.id ? { ...item, status } : item)));
+    sendMessage('UPDATE_FOLLOW_UP_STATUS', { id: entry.id, status }).then((response) => {
+      if (!response.success) {
+        setError(response.error || 'Failed to update the follow-up.');
+        loadFollowUps();
+      }
+    });
+  };
+
+  const handleDelete = (entry: FollowUpEntry) => {
+    sendMessage('DELETE_FOLLOW_UP', { id: entry.id }).then(loadFollowUps);
+  };
+
+  const visible = filter === 'all' ? entries : entries.filter(entry => entry.status === filter);
+  const openCount = entries.filter(entry => entry.status === 'open').length;
+  const buttonClass = 'h-8 px-2.5 bg-secondary/50 text-secondary-foreground hover:bg-secondary border border-input rounded-md font-medium text-xs transition-colors disabled:opacity-50';
+
+  return (
+    <div className="flex flex-col gap-3 h-full">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {openCount === 1 ? '1 review needs follow-up' : `${openCount} reviews need follow-up`}
+        </span>
+        <select
+          className="h-8 px-2 bg-background border border-input rounded-md text-xs"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as FollowUpStatus | 'all')}
+        >
+          {FOLLOW_UP_STATUSES.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+          <option value="all">All</option>
+        </select>
+      </div>
+
+      {error && <p className="text-xs text-destructive m-0">{error}</p>}
+
+      <div className="flex-1 overflow-y-auto flex flex-col gap-2">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading follow-ups...</p>
+        )}
+        {!isLoading && visible.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {entries.length === 0 ? 'Low-rated and complaining reviews you answer will appear here.' : 'Nothing here.'}
+          </p>
+        )}
+        {visible.map(entry => {
+          const reviewerName = entry.reviewData.reviewer_name ?? 'Anonymous';
+          const rating = entry.reviewData.review_rating;
+
+          return (
+            <div key={entry.id} className="bg-background/50 border border-border rounded-lg p-3 flex flex-col gap-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-foreground truncate">
+                  {reviewerName}{rating ? ` · ${rating}★` : ''}
+                </span>
+                <span className={`text-xs font-medium px-2 py-0.5 rounded-full shrink-0 ml-2 ${STATUS_CLASSES[entry.status]}`}>
+                  {STATUS_LABELS[entry.status]}
+                </span>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {entry.platform} · {formatDate(entry.createdAt)}
+              </span>
+              <span className="text-xs text-destructive">{entry.reasons.join(' · ')}</span>
+              <p className="text-xs text-foreground m-0 whitespace-pre-wrap line-clamp-3">{entry.reviewData.review_text}</p>
+              <div className="flex gap-2">
+                {entry.status !== 'contacted' && (
+                  <button className={buttonClass} onClick={() => handleStatusChange(entry, 'contacted')}>Mark contacted</button>
+                )}
+                {entry.status !== 'resolved' && (
+                  <button className={buttonClass} onClick={() => handleStatusChange(entry, 'resolved')}>Resolve</button>
+                )}
+                {entry.status === 'resolved' && (
+                  <button className={buttonClass} onClick={() => handleStatusChange(entry, 'open')}>Reopen</button>
+                )}
+                {entry.url && (
+                  <button className={buttonClass} onClick={() => chrome.tabs.create({ url: entry.url })}>Open page</button>
+                )}
+                <button className={buttonClass} onClick={() => handleDelete(entry)}>Delete</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { SHORTCUT_COMMANDS, SHORTCUT_COMMAND_LABELS } from '../types';
+import type { ShortcutCommand } from '../types';
+
+interface ShortcutBinding {
+  command: ShortcutCommand;
+  shortcut: string;
+}
+
+// Chrome owns the key bindings; extensions can read them but only its shortcuts page can change them
+const SHORTCUTS_PAGE_URL = 'chrome://extensions/shortcuts';
+
+// The current key for each shortcut, with a link to where they are changed
+export function KeyboardShortcuts(): JSX.Element {
+  const [bindings, setBindings] = useState<ShortcutBinding[]>([]);
+
+  useEffect(() => {
+    chrome.commands.getAll((commands) => {
+      setBindings(SHORTCUT_COMMANDS.map(command => ({
+        command,
+        shortcut: commands.find(candidate => candidate.name === command)?.shortcut ?? ''
+      })));
+    });
+  }, []);
+
+  return (
+    <div className="flex flex-col gap-2">
+      {bindings.map(({ command, shortcut }) => (
+        <div key={command} className="flex items-center justify-between gap-4">
+          <span className="text-sm text-foreground">{SHORTCUT_COMMAND_LABELS[command]}</span>
+          {shortcut
+            ? <kbd className="px-2 py-0.5 bg-background border border-input rounded-md text-xs font-mono">{shortcut}</kbd>
+            : <span className="text-xs text-muted-foreground">Not set</span>}
+        </div>
+      ))}
+      <button
+        className="h-8 px-2.5 self-start bg-secondary/50 text-secondary-foreground hover:bg-secondary border border-input rounded-md font-medium text-xs transition-colors"
+        onClick={() => chrome.tabs.create({ url: SHORTCUTS_PAGE_URL })}
+      >
+        Change shortcuts
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { signIn, getRemainingLockoutTime } from '../utils/auth';
+import { sendMessage } from '../utils/messaging';
 import { LoginFormData, FormErrors, AuthSuccessPayload } from '../types';
 
 interface LoginFormProps {
@@ -150,17 +151,16 @@ export function LoginForm({ onLoginSuccess }: LoginFormProps): JSX.Element {
     
     try {
       // Send message to background script to open Google login popup
-      chrome.runtime.sendMessage({ type: 'OPEN_GOOGLE_LOGIN' }, (response) => {
-        if (chrome.runtime.lastError) {
-          setGeneralError('Failed to open login window. Please try again.');
-          console.error('Google login error:', chrome.runtime.lastError);
-        } else if (!response?.success) {
-          setGeneralError(response?.error || 'Failed to open login window.');
-        }
-        // Note: isGoogleLoading will be reset when auth state changes
-        // or if there's an error
-        setIsGoogleLoading(false);
-      });
+      const response = await sendMessage('OPEN_GOOGLE_LOGIN');
+      if (!response.success) {
+        setGeneralError(response.errorCode === 'NO_RESPONSE'
+          ? 'Failed to open login window. Please try again.'
+          : response.error || 'Failed to open login window.');
+        console.error('Google login error:', response.error);
+      }
+      // Note: isGoogleLoading will be reset when auth state changes
+      // or if there's an error
+      setIsGoogleLoading(false);
     } catch (error) {
       setGeneralError('An unexpected error occurred. Please try again.');
       console.error('Google login error:', error);
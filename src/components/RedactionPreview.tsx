@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { sendMessage } from '../utils/messaging';
+import type { RedactionKind, RedactionPreviewResponse } from '../types';
+
+const KIND_LABELS: Record<RedactionKind, string> = {
+  email: 'Email',
+  phone: 'Phone',
+  address: 'Address',
+  'order-number': 'Order number',
+  'first-name': 'First name',
+  surname: 'Surname'
+};
+
+const INPUT_CLASS = 'w-full px-2 py-1.5 bg-background border border-input rounded-md text-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring transition-colors';
+
+// Paste a review to see exactly what the service worker would send for it
+export function RedactionPreview(): JSX.Element {
+  const [reviewerName, setReviewerName] = useState('');
+  const [reviewText, setReviewText] = useState('');
+  const [preview, setPreview] = useState<RedactionPreviewResponse | null>(null);
+  const [error, setError] = useState('');
+
+  const handlePreview = () => {
+    const reviewData = { reviewer_name: reviewerName.trim() || undefined, review_text: reviewText };
+    sendMessage('PREVIEW_REDACTION', { reviewData }).then((response) => {
+      if (!response.success) {
+        setPreview(null);
+        setError(response.error || 'Failed to preview the redaction.');
+        return;
+      }
+      setError('');
+      setPreview({ enabled: response.enabled, reviewData: response.reviewData, redactions: response.redactions, requestBody: response.requestBody });
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <input
+        className={`${INPUT_CLASS} h-8`}
+        value={reviewerName}
+        placeholder="Reviewer name"
+        onChange={(e) => setReviewerName(e.target.value)}
+      />
+      <textarea
+        className={`${INPUT_CLASS} min-h-[56px] resize-y`}
+        value={reviewText}
+        placeholder="Paste a review to see what would be sent"
+        onChange={(e) => setReviewText(e.target.value)}
+      />
+      <button
+        className="h-8 px-2.5 self-start bg-secondary/50 text-secondary-foreground hover:bg-secondary border border-input rounded-md font-medium text-xs transition-colors disabled:opacity-50"
+        disabled={!reviewText.trim()}
+        onClick={handlePreview}
+      >
+        Preview what is sent
+      </button>
+
+      {error && <p className="text-xs text-destructive m-0">{error}</p>}
+
+      {preview && (
+        <div className="bg-background/50 border border-border rounded-lg p-3 flex flex-col gap-2">
+          {!preview.enabled && (
+            <span className="text-xs text-destructive">Redaction is off, so the review is sent as written.</span>
+          )}
+          <span className="text-xs text-muted-foreground">Reviewer: {preview.reviewData.reviewer_name ?? '(none)'}</span>
+          <p className="text-xs text-foreground m-0 whitespace-pre-wrap">{preview.reviewData.review_text}</p>
+          {preview.redactions.length > 0 && (
+            <ul className="text-xs text-muted-foreground m-0 pl-4">
+              {preview.redactions.map(redaction => (
+                <li key={redaction.token}>
+                  {redaction.token}: {KIND_LABELS[redaction.kind]} "{redaction.original}"
+                  {redaction.restoreAs !== undefined && ' (put back in the reply)'}
+                </li>
+              ))}
+            </ul>
+          )}
+          <details className="text-xs text-muted-foreground">
+            <summary className="cursor-pointer">Full request</summary>
+            <pre className="m-0 mt-1 whitespace-pre-wrap break-all">{JSON.stringify(preview.requestBody, null, 2)}</pre>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
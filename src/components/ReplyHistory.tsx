@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { exportReplyHistory, getHistoryExportFileName } from '../utils/history-export';
+import { sendMessage, sendTabMessage } from '../utils/messaging';
+import type { ReplyHistoryEntry, ReplyHistoryExportFormat } from '../types';
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+// Browse, search, re-use and export replies recorded by the service worker
+export function ReplyHistory(): JSX.Element {
+  const [entries, setEntries] = useState<ReplyHistoryEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadHistory = useCallback((query: string) => {
+    setIsLoading(true);
+    sendMessage('GET_REPLY_HISTORY', { search: query }).then((response) => {
+      setIsLoading(false);
+      if (!response.success) {
+        setError(response.error || 'Failed to load reply history.');
+        return;
+      }
+      setError('');
+      setEntries(response.entries);
+      setTotalCount(response.totalCount);
+    });
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => loadHistory(search), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [search, loadHistory]);
+
+  const showNotice = (message: string) => {
+    setNotice(message);
+    window.setTimeout(() => setNotice(''), 2500);
+  };
+
+  const handleCopy = async (entry: ReplyHistoryEntry) => {
+    try {
+      await navigator.clipboard.writeText(entry.reply);
+      showNotice('Reply copied to clipboard.');
+    } catch (copyError) {
+      console.error('Copy error:', copyError);
+      setError('Could not copy the reply.');
+    }
+  };
+
+  const handleReinsert = async (entry: ReplyHistoryEntry) => {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) {
+      setError('No active tab to insert into.');
+      return;
+    }
+
+    // Only the frame that owns a reply box answers; no answer means there is nowhere to insert
+    const response = await sendTabMessage({ tabId: tab.id }, 'INSERT_RESPONSE', { text: entry.reply });
+    if (!response || !('handled' in response) || !response.handled) {
+      setError('Open a review reply box on the page, then try again.');
+      return;
+    }
+    setError('');
+    showNotice('Reply sent to the page for review.');
+  };
+
+  const handleDelete = (entry: ReplyHistoryEntry) => {
+    sendMessage('DELETE_REPLY_HISTORY_ENTRY', { id: entry.id }).then(() => loadHistory(search));
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete all saved replies? This cannot be undone.')) {
+      return;
+    }
+    sendMessage('CLEAR_REPLY_HISTORY').then(() => loadHistory(search));
+  };
+
+  const handleExport = (format: ReplyHistoryExportFormat) => {
+    const content = exportReplyHistory(entries, format);
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getHistoryExportFileName(format);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const buttonClass = 'h-8 px-2.5 bg-secondary/50 text-secondary-foreground hover:bg-secondary border border-input rounded-md font-medium text-xs transition-colors disabled:opacity-50';
+
+  return (
+    <div className="flex flex-col gap-3 h-full">
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        className="w-full h-9 px-3 py-2 bg-background border border-input rounded-md text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        placeholder="Search reviews, replies, platforms..."
+      />
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {search ? `${entries.length} of ${totalCount} replies` : `${totalCount} saved replies`}
+        </span>
+        <div className="flex gap-2">
+          <button className={buttonClass} onClick={() => handleExport('csv')} disabled={entries.length === 0}>Export CSV</button>
+          <button className={buttonClass} onClick={() => handleExport('json')} disabled={entries.length === 0}>Export JSON</button>
+          <button className={buttonClass} onClick={handleClear} disabled={totalCount === 0}>Clear</button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-destructive m-0">{error}</p>}
+      {notice && <p className="text-xs text-primary m-0">{notice}</p>}
+
+      <div className="flex-1 overflow-y-auto flex flex-col gap-2">
+        {isLoading && entries.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading history...</p>
+        )}
+        {!isLoading && entries.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {search ? 'No replies match your search.' : 'Replies you generate will appear here.'}
+          </p>
+        )}
+        {entries.map(entry => {
+          const reviewerName = entry.reviewData.reviewer_name ?? 'Anonymous';
+          const rating = entry.reviewData.review_rating;
+          const isExpanded = expandedId === entry.id;
+
+          return (
+            <div key={entry.id} className="bg-background/50 border border-border rounded-lg p-3 flex flex-col gap-2">
+              <button
+                className="flex items-center justify-between text-left"
+                onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+              >
+                <span className="text-sm font-semibold text-foreground truncate">
+                  {reviewerName}{rating ? ` · ${rating}★` : ''}
+                </span>
+                <span className="text-xs text-muted-foreground shrink-0 ml-2">{entry.platform}</span>
+              </button>
+              <span className="text-xs text-muted-foreground">{formatDate(entry.createdAt)}</span>
+              {isExpanded && entry.reviewData.review_text && (
+                <p className="text-xs text-muted-foreground italic m-0 whitespace-pre-wrap">{entry.reviewData.review_text}</p>
+              )}
+              <p className={`text-xs text-foreground m-0 whitespace-pre-wrap ${isExpanded ? '' : 'line-clamp-3'}`}>{entry.reply}</p>
+              <div className="flex gap-2">
+                <button className={buttonClass} onClick={() => handleCopy(entry)}>Copy</button>
+                <button className={buttonClass} onClick={() => handleReinsert(entry)}>Re-insert</button>
+                <button className={buttonClass} onClick={() => handleDelete(entry)}>Delete</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  MAX_TEMPLATE_BODY_LENGTH,
+  deleteReplyTemplate,
+  fillTemplate,
+  getReplyTemplates,
+  getTemplateValues,
+  onReplyTemplatesChange,
+  requestTemplateProfile,
+  saveReplyTemplate,
+  validateReplyTemplate
+} from '../utils/reply-templates';
+import type { TemplateProfile } from '../utils/reply-templates';
+import { TEMPLATE_VARIABLES } from '../types';
+import type { ReplyTemplate, TemplateVariable } from '../types';
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  body: string;
+}
+
+// Stand-in review for the preview; the business name and signature come from the real profile
+const SAMPLE_REVIEW = { reviewer_name: 'Alex Morgan', review_rating: 5 };
+
+const INPUT_CLASS = 'w-full px-2 py-1.5 bg-background border border-input rounded-md text-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring transition-colors';
+const BUTTON_CLASS = 'h-8 px-2.5 bg-secondary/50 text-secondary-foreground hover:bg-secondary border border-input rounded-md font-medium text-xs transition-colors disabled:opacity-50';
+
+// Boilerplate replies synced across the user's browsers, inserted from the reply options for free
+export function ReplyTemplates(): JSX.Element {
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([]);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [profile, setProfile] = useState<TemplateProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    getReplyTemplates()
+      .then(setTemplates)
+      .catch((loadError: unknown) => {
+        console.error('Templates load error:', loadError);
+        setError('Failed to load templates.');
+      })
+      .finally(() => setIsLoading(false));
+    requestTemplateProfile().then(setProfile);
+    return onReplyTemplatesChange(setTemplates);
+  }, []);
+
+  const insertVariable = (variable: TemplateVariable) => {
+    if (!draft) {
+      return;
+    }
+    const placeholder = `{${variable}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+    setDraft({ ...draft, body: `${draft.body.slice(0, start)}${placeholder}${draft.body.slice(end)}` });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    const validationError = validateReplyTemplate(draft.name, draft.body);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    try {
+      await saveReplyTemplate(draft);
+      setTemplates(await getReplyTemplates());
+      setDraft(null);
+      setError('');
+    } catch (saveError) {
+      console.error('Template save error:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save the template.');
+    }
+  };
+
+  const handleDelete = async (template: ReplyTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) {
+      return;
+    }
+    try {
+      await deleteReplyTemplate(template.id);
+      setTemplates(prev => prev.filter(item => item.id !== template.id));
+    } catch (deleteError) {
+      console.error('Template delete error:', deleteError);
+      setError('Failed to delete the template.');
+    }
+  };
+
+  if (draft) {
+    const preview = fillTemplate(draft.body, getTemplateValues(SAMPLE_REVIEW, profile));
+
+    return (
+      <div className="flex flex-col gap-3 h-full overflow-y-auto">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium text-foreground">Name</span>
+          <input
+            className={`${INPUT_CLASS} h-8`}
+            value={draft.name}
+            placeholder="e.g. Return policy"
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="flex justify-between text-xs font-medium text-foreground">
+            Template
+            <span className="font-normal text-muted-foreground">{draft.body.length}/{MAX_TEMPLATE_BODY_LENGTH}</span>
+          </span>
+          <textarea
+            ref={bodyRef}
+            className={`${INPUT_CLASS} min-h-[96px] resize-y`}
+            value={draft.body}
+            placeholder="Hi {reviewer_first_name}, thank you for the {rating}-star review..."
+            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+          />
+        </label>
+        <div className="flex flex-wrap gap-1">
+          {TEMPLATE_VARIABLES.map(variable => (
+            <button key={variable} className="h-6 px-2 bg-primary/10 text-primary rounded-full text-xs font-medium" onClick={() => insertVariable(variable)}>
+              {`{${variable}}`}
+            </button>
+          ))}
+        </div>
+        {preview && (
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-foreground">Preview</span>
+            <p className="text-xs text-muted-foreground m-0 whitespace-pre-wrap bg-background/50 border border-border rounded-md p-2">{preview}</p>
+          </div>
+        )}
+        {error && <p className="text-xs text-destructive m-0">{error}</p>}
+        <div className="flex gap-2">
+          <button className="h-8 px-3 bg-primary text-primary-foreground rounded-md font-medium text-xs" onClick={handleSave}>Save template</button>
+          <button className={BUTTON_CLASS} onClick={() => { setDraft(null); setError(''); }}>Cancel</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 h-full">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">Insert from Bolt Reply's reply options, or send one to the AI as instructions.</span>
+        <button className={`${BUTTON_CLASS} shrink-0 ml-2`} onClick={() => setDraft({ name: '', body: '' })}>New template</button>
+      </div>
+
+      {error && <p className="text-xs text-destructive m-0">{error}</p>}
+
+      <div className="flex-1 overflow-y-auto flex flex-col gap-2">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading templates...</p>
+        )}
+        {!isLoading && templates.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">Save your return policy, contact line or seasonal offer as a template.</p>
+        )}
+        {templates.map(template => (
+          <div key={template.id} className="bg-background/50 border border-border rounded-lg p-3 flex flex-col gap-2">
+            <span className="text-sm font-semibold text-foreground truncate">{template.name}</span>
+            <p className="text-xs text-foreground m-0 whitespace-pre-wrap line-clamp-3">{template.body}</p>
+            <div className="flex gap-2">
+              <button className={BUTTON_CLASS} onClick={() => setDraft({ id: template.id, name: template.name, body: template.body })}>Edit</button>
+              <button className={BUTTON_CLASS} onClick={() => handleDelete(template)}>Delete</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { streamGeneration } from '../content/stream-client';
+import type { StreamHandle } from '../content/stream-client';
+import { getReplyTemplates, onReplyTemplatesChange, renderTemplateForReview } from '../utils/reply-templates';
+import { hasBlockingFindings, lintReply } from '../utils/reply-linter';
+import { getSettings, onSettingsChange } from '../utils/settings';
+import { sendMessage } from '../utils/messaging';
+import { EMPTY_SIDE_PANEL_WORKSPACE, getSidePanelWorkspace, saveSidePanelWorkspace } from '../utils/side-panel-workspace';
+import { REPLY_LANGUAGES, REPLY_LANGUAGE_LABELS, REPLY_LENGTHS, REPLY_TONES } from '../types';
+import type {
+  ExtensionSettings,
+  GenerationPreferences,
+  ReplyTemplate,
+  SidePanelWorkspace
+} from '../types';
+
+type PreferenceField = keyof GenerationPreferences;
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+const PREFERENCE_FIELDS: ReadonlyArray<{ field: PreferenceField; label: string; options: ReadonlyArray<{ value: string; label: string }> }> = [
+  { field: 'tone', label: 'Tone', options: REPLY_TONES.map(tone => ({ value: tone, label: capitalize(tone) })) },
+  { field: 'length', label: 'Length', options: REPLY_LENGTHS.map(length => ({ value: length, label: capitalize(length) })) },
+  { field: 'language', label: 'Language', options: REPLY_LANGUAGES.map(language => ({ value: language, label: REPLY_LANGUAGE_LABELS[language] })) }
+];
+
+const INPUT_CLASS = 'w-full px-2 py-1.5 bg-background border border-input rounded-md text-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring transition-colors';
+const SELECT_CLASS = 'h-8 px-2 bg-background border border-input rounded-md text-xs';
+const BUTTON_CLASS = 'h-8 px-2.5 bg-secondary/50 text-secondary-foreground hover:bg-secondary border border-input rounded-md font-medium text-xs transition-colors disabled:opacity-50';
+
+// The side panel's reply workspace: the review read from the current tab, the reply options and the
+// draft. Everything goes through the service worker, and the workspace outlives page navigations.
+export function ReviewWorkspace(): JSX.Element {
+  const [workspace, setWorkspace] = useState<SidePanelWorkspace>(EMPTY_SIDE_PANEL_WORKSPACE);
+  const [isRestored, setIsRestored] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([]);
+  const [lintLevels, setLintLevels] = useState<ExtensionSettings['lintLevels']>({});
+  const [promptOverrideId, setPromptOverrideId] = useState<string | undefined>(undefined);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const streamRef = useRef<StreamHandle | null>(null);
+
+  const { reviewData, draft, preferences, templateId, sourceTabId } = workspace;
+  const update = (changes: Partial<SidePanelWorkspace>) => setWorkspace(prev => ({ ...prev, ...changes }));
+
+  const showNotice = (message: string) => {
+    setNotice(message);
+    window.setTimeout(() => setNotice(''), 2500);
+  };
+
+  const readFromPage = () => {
+    setIsReading(true);
+    sendMessage('GET_PAGE_REVIEW').then((response) => {
+      setIsReading(false);
+      if (!response.success) {
+        setError(response.error || 'Failed to read the review from the page.');
+        return;
+      }
+      if (!response.reviewData) {
+        setError('No review found. Open a review reply box, focus a review or select its text, then try again.');
+        return;
+      }
+      setError('');
+      update({ reviewData: response.reviewData, draft: '', sourceTabId: response.tabId });
+    });
+  };
+
+  useEffect(() => {
+    getSidePanelWorkspace()
+      .then((restored) => {
+        setWorkspace(restored);
+        if (!restored.reviewData) {
+          readFromPage();
+        }
+      })
+      .catch((loadError: unknown) => console.error('Workspace load error:', loadError))
+      .finally(() => setIsRestored(true));
+    getReplyTemplates().then(setTemplates).catch(() => undefined);
+    const applySettings = (settings: ExtensionSettings) => {
+      setLintLevels(settings.lintLevels);
+      setPromptOverrideId(settings.promptOverrideId ?? undefined);
+    };
+    getSettings().then(applySettings);
+    const stopTemplates = onReplyTemplatesChange(setTemplates);
+    const stopSettings = onSettingsChange(applySettings);
+    return () => {
+      stopTemplates();
+      stopSettings();
+      streamRef.current?.cancel();
+    };
+  }, []);
+
+  // Saved as it changes, so closing the panel or navigating the page loses nothing
+  useEffect(() => {
+    if (isRestored) {
+      saveSidePanelWorkspace(workspace).catch((saveError: unknown) => console.error('Workspace save error:', saveError));
+    }
+  }, [workspace, isRestored]);
+
+  const selectedTemplate = templates.find(template => template.id === templateId);
+
+  const handleGenerate = async () => {
+    if (isGenerating) {
+      streamRef.current?.cancel();
+      return;
+    }
+    if (!reviewData?.review_text.trim()) {
+      setError('Read a review from the page first.');
+      return;
+    }
+
+    setError('');
+    setIsGenerating(true);
+    let customPrompt: string | undefined;
+    try {
+      customPrompt = selectedTemplate ? await renderTemplateForReview(selectedTemplate, reviewData) : undefined;
+    } catch (templateError) {
+      console.error('Template error:', templateError);
+      setIsGenerating(false);
+      setError('Could not load the reply template.');
+      return;
+    }
+    streamRef.current = streamGeneration({ reviewData, preferences, promptId: promptOverrideId, customPrompt }, {
+      onProgress: (text) => update({ draft: text }),
+      onResult: (payload) => {
+        streamRef.current = null;
+        setIsGenerating(false);
+        if (payload.success) {
+          update({ draft: payload.aiResponse });
+        } else if (payload.errorType === 'CANCELLED') {
+          showNotice('Generation stopped. The partial reply is kept.');
+        } else {
+          setError(payload.error || 'Failed to generate a reply.');
+        }
+      }
+    });
+  };
+
+  const handleInsertTemplate = () => {
+    if (selectedTemplate) {
+      renderTemplateForReview(selectedTemplate, reviewData)
+        .then(text => update({ draft: text }))
+        .catch((templateError: unknown) => {
+          console.error('Template error:', templateError);
+          setError('Could not load the reply template.');
+        });
+    }
+  };
+
+  const handleSendToPage = () => {
+    if (sourceTabId === null) {
+      setError('Read the review from its page again, then send the reply.');
+      return;
+    }
+    sendMessage('INSERT_INTO_PAGE', { text: draft, tabId: sourceTabId }).then((response) => {
+      if (!response.success) {
+        setError(response.error || 'Failed to send the reply to the page.');
+        return;
+      }
+      if (!response.inserted) {
+        setError('Open the review reply box on the page, then try again.');
+        return;
+      }
+      setError('');
+      showNotice('Reply sent to the page. Accept it there to insert it.');
+    });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(draft);
+      showNotice('Reply copied to clipboard.');
+    } catch (copyError) {
+      console.error('Copy error:', copyError);
+      setError('Could not copy the reply.');
+    }
+  };
+
+  const findings = draft && !isGenerating ? lintReply(draft, { reviewerName: reviewData?.reviewer_name, levels: lintLevels }) : [];
+
+  return (
+    <div className="flex flex-col gap-3 h-full overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-foreground">Review</span>
+        <button className={BUTTON_CLASS} disabled={isReading || isGenerating} onClick={readFromPage}>
+          {isReading ? 'Reading...' : 'Read from page'}
+        </button>
+      </div>
+
+      {reviewData ? (
+        <div className="bg-background/50 border border-border rounded-lg p-3 flex flex-col gap-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-medium text-foreground truncate">{reviewData.reviewer_name || 'Unknown reviewer'}</span>
+            <select
+              className={SELECT_CLASS}
+              value={reviewData.review_rating ?? ''}
+              onChange={(e) => update({ reviewData: { ...reviewData, review_rating: e.target.value ? Number(e.target.value) : undefined } })}
+            >
+              <option value="">Rating unknown</option>
+              {[5, 4, 3, 2, 1].map(value => <option key={value} value={value}>{value} star{value === 1 ? '' : 's'}</option>)}
+            </select>
+          </div>
+          <textarea
+            className={`${INPUT_CLASS} min-h-[72px] resize-y`}
+            value={reviewData.review_text}
+            onChange={(e) => update({ reviewData: { ...reviewData, review_text: e.target.value } })}
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground m-0">
+          Open a review reply box, focus a review or select a review's text on the page, then read it here.
+        </p>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        {PREFERENCE_FIELDS.map(({ field, label, options }) => (
+          <label key={field} className="flex flex-col gap-1">
+            <span className="text-xs text-muted-foreground">{label}</span>
+            <select
+              className={SELECT_CLASS}
+              value={preferences[field] ?? ''}
+              onChange={(e) => update({ preferences: { ...preferences, [field]: e.target.value || undefined } })}
+            >
+              <option value="">Profile default</option>
+              {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {templates.length > 0 && (
+        <div className="flex items-end gap-2">
+          <label className="flex-1 flex flex-col gap-1">
+            <span className="text-xs text-muted-foreground">Template as instructions</span>
+            <select className={SELECT_CLASS} value={selectedTemplate ? templateId : ''} onChange={(e) => update({ templateId: e.target.value })}>
+              <option value="">None</option>
+              {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+            </select>
+          </label>
+          <button className={BUTTON_CLASS} disabled={!selectedTemplate || isGenerating} onClick={handleInsertTemplate}>
+            Insert (no credit)
+          </button>
+        </div>
+      )}
+
+      <button
+        className="h-9 px-3 bg-primary text-primary-foreground hover:bg-primary/90 rounded-md font-medium text-sm transition-colors disabled:opacity-50"
+        disabled={!reviewData}
+        onClick={handleGenerate}
+      >
+        {isGenerating ? 'Stop' : draft ? 'Regenerate' : 'Generate reply'}
+      </button>
+
+      {(draft || isGenerating) && (
+        <div className="flex flex-col gap-2">
+          <textarea
+            className={`${INPUT_CLASS} min-h-[120px] resize-y`}
+            value={draft}
+            readOnly={isGenerating}
+            placeholder="Writing..."
+            onChange={(e) => update({ draft: e.target.value })}
+          />
+          {findings.map(finding => (
+            <p key={`${finding.rule}:${finding.excerpt ?? finding.message}`} className={`text-xs m-0 ${finding.level === 'block' ? 'text-destructive' : 'text-muted-foreground'}`}>
+              <strong>{finding.level === 'block' ? 'Fix before inserting' : 'Check'}:</strong> {finding.message}
+              {finding.excerpt && ` "${finding.excerpt}"`}
+            </p>
+          ))}
+          <div className="flex gap-2">
+            <button className={BUTTON_CLASS} disabled={isGenerating || !draft.trim() || hasBlockingFindings(findings)} onClick={handleSendToPage}>
+              Send to page
+            </button>
+            <button className={BUTTON_CLASS} disabled={isGenerating || !draft.trim()} onClick={handleCopy}>Copy</button>
+          </div>
+        </div>
+      )}
+
+      {notice && <p className="text-xs text-primary m-0">{notice}</p>}
+      {error && <p className="text-xs text-destructive m-0">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { getSettings, updateSettings } from '../utils/settings';
+import { KeyboardShortcuts } from './KeyboardShortcuts';
+import { RedactionPreview } from './RedactionPreview';
+import { DEFAULT_LINT_LEVELS, DEFAULT_SETTINGS, LINT_LEVELS, LINT_RULES, LINT_RULE_LABELS } from '../types';
+import type { ExtensionSettings, LintLevel, LintRuleId } from '../types';
+
+interface SettingToggleProps {
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+function SettingToggle({ label, description, checked, onChange }: SettingToggleProps): JSX.Element {
+  return (
+    <label className="flex items-start justify-between gap-4 cursor-pointer">
+      <span className="flex flex-col">
+        <span className="text-sm font-medium text-foreground">{label}</span>
+        <span className="text-xs text-muted-foreground">{description}</span>
+      </span>
+      <input
+        type="checkbox"
+        className="mt-1 h-4 w-4 accent-primary shrink-0"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+      />
+    </label>
+  );
+}
+
+const LINT_LEVEL_LABELS: Record<LintLevel, string> = {
+  block: 'Block insert',
+  warn: 'Warn',
+  off: 'Off'
+};
+
+interface LintLevelSelectProps {
+  rule: LintRuleId;
+  level: LintLevel;
+  onChange: (level: LintLevel) => void;
+}
+
+function LintLevelSelect({ rule, level, onChange }: LintLevelSelectProps): JSX.Element {
+  return (
+    <label className="flex items-center justify-between gap-4">
+      <span className="text-sm text-foreground">{LINT_RULE_LABELS[rule]}</span>
+      <select
+        className="h-8 px-2 bg-background border border-input rounded-md text-xs"
+        value={level}
+        onChange={(e) => onChange(LINT_LEVELS.find(value => value === e.target.value) ?? DEFAULT_LINT_LEVELS[rule])}
+      >
+        {LINT_LEVELS.map(value => <option key={value} value={value}>{LINT_LEVEL_LABELS[value]}</option>)}
+      </select>
+    </label>
+  );
+}
+
+// Local extension preferences; account settings stay in the web dashboard
+export function SettingsPanel(): JSX.Element {
+  const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getSettings()
+      .then(setSettings)
+      .catch((loadError: unknown) => {
+        console.error('Settings load error:', loadError);
+        setError('Failed to load settings.');
+      });
+  }, []);
+
+  const handleChange = async (changes: Partial<ExtensionSettings>) => {
+    try {
+      setSettings(await updateSettings(changes));
+      setError('');
+    } catch (saveError) {
+      console.error('Settings save error:', saveError);
+      setError('Failed to save settings.');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-5">
+      <section className="flex flex-col gap-3">
+        <h4 className="text-sm font-semibold text-foreground m-0">Replies</h4>
+        <SettingToggle
+          label="Reply in the reviewer's language"
+          description="Detect each review's language and answer in it. When off, replies use your business profile's language."
+          checked={settings.replyLanguageMode === 'reviewer'}
+          onChange={(checked) => handleChange({ replyLanguageMode: checked ? 'reviewer' : 'profile' })}
+        />
+        <SettingToggle
+          label="Confirm replies to negative reviews"
+          description="Ask for a second click before inserting a reply to a 1-2 star review or a complaint."
+          checked={settings.confirmEscalatedInsert}
+          onChange={(confirmEscalatedInsert) => handleChange({ confirmEscalatedInsert })}
+        />
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <h4 className="text-sm font-semibold text-foreground m-0">Reply checks</h4>
+        <p className="text-xs text-muted-foreground m-0">
+          Drafts are checked before they go into the reply box. Blocking issues must be fixed first; warnings are shown in the preview.
+        </p>
+        {LINT_RULES.map(rule => (
+          <LintLevelSelect
+            key={rule}
+            rule={rule}
+            level={settings.lintLevels[rule] ?? DEFAULT_LINT_LEVELS[rule]}
+            onChange={(level) => handleChange({ lintLevels: { ...settings.lintLevels, [rule]: level } })}
+          />
+        ))}
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <h4 className="text-sm font-semibold text-foreground m-0">Privacy</h4>
+        <SettingToggle
+          label="Redact personal data"
+          description="Mask emails, phone numbers, addresses, order numbers and surnames before a review is sent. The reviewer's first name is put back into the reply."
+          checked={settings.redactPersonalData}
+          onChange={(redactPersonalData) => handleChange({ redactPersonalData })}
+        />
+        {settings.redactPersonalData && <RedactionPreview />}
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <h4 className="text-sm font-semibold text-foreground m-0">Keyboard shortcuts</h4>
+        <p className="text-xs text-muted-foreground m-0">
+          Generate on the review in focus or the selected text, then accept or regenerate the draft without leaving the keyboard.
+        </p>
+        <KeyboardShortcuts />
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <h4 className="text-sm font-semibold text-foreground m-0">Diagnostics</h4>
+        <SettingToggle
+          label="Debug overlay"
+          description="Outline the reviewer, rating, review text and reply box Bolt Reply detects on Google review pages."
+          checked={settings.debugOverlay}
+          onChange={(debugOverlay) => handleChange({ debugOverlay })}
+        />
+      </section>
+
+      {error && <p className="text-xs text-destructive m-0">{error}</p>}
+    </div>
+  );
+}
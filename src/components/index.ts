@@ -2,3 +2,12 @@
 export { LoginForm } from './LoginForm';
 export { AuthContainer } from './AuthContainer';
 export { AuthProvider, useAuth } from './AuthContext';
+export { ReplyHistory } from './ReplyHistory';
+export { SettingsPanel } from './SettingsPanel';
+export { AnsweringModePicker } from './AnsweringModePicker';
+export { BusinessProfileEditor } from './BusinessProfileEditor';
+export { FollowUpList } from './FollowUpList';
+export { RedactionPreview } from './RedactionPreview';
+export { ReplyTemplates } from './ReplyTemplates';
+export { KeyboardShortcuts } from './KeyboardShortcuts';
+export { ReviewWorkspace } from './ReviewWorkspace';
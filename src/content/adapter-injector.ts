@@ -0,0 +1,285 @@
+// AI Review Responder - Site Adapter Injection
+// Puts a Bolt Reply button on every review card a site adapter detects. When the card has an
+// owner-reply box the reply streams into a draft preview anchored on it; otherwise the review
+// opens in the universal panel, pre-filled, so the reply can be copied.
+
+import { openDraftPreview } from './draft-preview';
+import type { DraftPreviewHandle } from './draft-preview';
+import { promptForRating } from './rating-prompt';
+import { streamGeneration } from './stream-client';
+import type { StreamHandle } from './stream-client';
+import { getGenerationPreferences } from '../utils/generation-preferences';
+import { tagReviewLanguage } from '../utils/language-detection';
+import { assessEscalation, requestDeEscalationTemplate } from '../utils/escalation';
+import { lintReply } from '../utils/reply-linter';
+import { getSettings, onSettingsChange } from '../utils/settings';
+import { sendMessage } from '../utils/messaging';
+import type { ExtensionSettings, GenerationPreferences, RefineInstruction, ReviewData, SiteAdapter } from '../types';
+
+export interface AdapterInjectorDeps {
+  openPanelWithReview: (reviewData: ReviewData) => void;
+}
+
+export interface AdapterInjector {
+  start: () => void;
+  stop: () => void;
+  generateForFocusedReview: () => boolean; // False when focus isn't inside a review card
+  getFocusedReview: () => ReviewData | null;
+}
+
+const BUTTON_CLASS = 'boltreply-adapter-button';
+const SCAN_DEBOUNCE_MS = 500;
+
+const LIGHTNING_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="white" style="flex-shrink: 0;"><path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z"/></svg>`;
+
+function readFieldValue(field: HTMLElement): string {
+  return field instanceof HTMLTextAreaElement || field instanceof HTMLInputElement
+    ? field.value
+    : field.textContent || '';
+}
+
+function fillReplyBox(field: HTMLElement, text: string): void {
+  if (field instanceof HTMLTextAreaElement || field instanceof HTMLInputElement) {
+    field.value = text;
+  } else {
+    field.textContent = text;
+  }
+  // Sites built on React/Vue only pick up the change from an input event
+  field.dispatchEvent(new Event('input', { bubbles: true }));
+  field.focus();
+}
+
+export function createAdapterInjector(adapter: SiteAdapter, deps: AdapterInjectorDeps): AdapterInjector {
+  let observer: MutationObserver | null = null;
+  let scanTimer: number | null = null;
+  let activeStream: StreamHandle | null = null;
+  // Bumped to drop a generation that is still waiting for its preferences
+  let generationToken = 0;
+  let confirmEscalatedInsert = true;
+  let lintLevels: ExtensionSettings['lintLevels'] = {};
+  let promptOverrideId: string | undefined;
+  const applySettings = (settings: ExtensionSettings): void => {
+    confirmEscalatedInsert = settings.confirmEscalatedInsert;
+    lintLevels = settings.lintLevels;
+    promptOverrideId = settings.promptOverrideId ?? undefined;
+  };
+  getSettings().then(applySettings);
+  onSettingsChange(applySettings);
+
+  function createButton(card: HTMLElement): HTMLElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = BUTTON_CLASS;
+    button.innerHTML = `${LIGHTNING_SVG}<span>Bolt Reply</span>`;
+    button.style.cssText = `
+      display: inline-flex;
+      align-items: center;
+      gap: 6px;
+      margin: 8px 0;
+      padding: 6px 12px;
+      background: hsl(217, 91%, 60%);
+      color: white;
+      border: none;
+      border-radius: 4px;
+      font: 500 13px 'Inter', sans-serif;
+      cursor: pointer;
+      transition: background-color 0.2s;
+    `;
+
+    button.onmouseover = () => button.style.backgroundColor = 'hsl(217, 91%, 50%)';
+    button.onmouseout = () => button.style.backgroundColor = 'hsl(217, 91%, 60%)';
+
+    button.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      handleCardClick(card);
+    });
+
+    return button;
+  }
+
+  function readCard(card: HTMLElement): ReviewData | null {
+    const extracted = adapter.extractReview(card);
+    return extracted ? tagReviewLanguage({
+      ...extracted,
+      website_url: window.location.href,
+      source_platform: adapter.platform
+    }) : null;
+  }
+
+  // The card holding focus, e.g. because its reply box is being typed in
+  function findFocusedCard(): HTMLElement | undefined {
+    const focused = document.activeElement;
+    return focused ? adapter.findReviewCards(document).find(card => card.contains(focused)) : undefined;
+  }
+
+  function handleCardClick(card: HTMLElement): void {
+    const reviewData = readCard(card);
+    if (!reviewData) {
+      return;
+    }
+
+    const replyBox = adapter.findReplyBox(card);
+    if (!replyBox) {
+      deps.openPanelWithReview(reviewData);
+      return;
+    }
+
+    if (reviewData.review_rating !== undefined) {
+      openPreview(replyBox, reviewData);
+      return;
+    }
+
+    // The card's rating couldn't be read - ask rather than let the reply guess
+    promptForRating(replyBox).then((rating) => {
+      if (rating) {
+        openPreview(replyBox, {
+          ...reviewData,
+          review_rating: rating.status === 'known' ? rating.value : undefined
+        });
+      }
+    });
+  }
+
+  function openPreview(replyBox: HTMLElement, reviewData: ReviewData): void {
+    const escalation = assessEscalation(reviewData);
+    const preview: DraftPreviewHandle = openDraftPreview({
+      anchor: replyBox,
+      existingText: readFieldValue(replyBox),
+      escalation: escalation.needsEscalation ? {
+        reasons: escalation.reasons,
+        confirmInsert: confirmEscalatedInsert,
+        onUseTemplate: () => {
+          requestDeEscalationTemplate(reviewData.reviewer_name).then(template => preview.setRefinedDraft(template));
+        }
+      } : undefined,
+      lint: (draft) => lintReply(draft, { reviewerName: reviewData.reviewer_name, levels: lintLevels }),
+      onAccept: (text) => fillReplyBox(replyBox, text),
+      onRegenerate: () => generate(preview, reviewData),
+      onRefine: (draft, instruction, detail) => refine(preview, reviewData, draft, instruction, detail),
+      onCancel: () => cancelGeneration(preview),
+      onDiscard: () => cancelGeneration()
+    });
+    generate(preview, reviewData);
+  }
+
+  function cancelGeneration(preview?: DraftPreviewHandle): void {
+    generationToken++;
+    if (activeStream) {
+      activeStream.cancel();
+      return;
+    }
+    preview?.setError('Generation stopped.');
+  }
+
+  async function generate(preview: DraftPreviewHandle, reviewData: ReviewData): Promise<void> {
+    activeStream?.cancel();
+    activeStream = null;
+    const token = ++generationToken;
+    preview.setLoading(true);
+
+    // Use the tone, length and language last picked in the panel on this site
+    let preferences: GenerationPreferences;
+    try {
+      preferences = await getGenerationPreferences(window.location.hostname);
+    } catch (error) {
+      console.error('Generation preferences load error:', error);
+      preferences = {};
+    }
+    if (token !== generationToken) {
+      // Cancelled, or replaced by a newer generation, before the port opened
+      return;
+    }
+
+    activeStream = streamGeneration({ reviewData, preferences, promptId: promptOverrideId }, {
+      onProgress: (text) => preview.setStreamingDraft(text),
+      onResult: (payload) => {
+        activeStream = null;
+        if (payload.success) {
+          if (payload.aiResponse) {
+            preview.setDraft(payload.aiResponse);
+          } else {
+            preview.setError('The AI returned an empty reply. Try regenerating.');
+          }
+        } else if (payload.errorType === 'CANCELLED') {
+          preview.setError('Generation stopped. The partial reply is kept above.');
+        } else {
+          preview.setError(payload.error || 'Failed to generate AI response');
+        }
+      }
+    });
+  }
+
+  function refine(
+    preview: DraftPreviewHandle,
+    reviewData: ReviewData,
+    draft: string,
+    instruction: RefineInstruction,
+    detail?: string
+  ): void {
+    preview.setLoading(true);
+    getGenerationPreferences(window.location.hostname).then((preferences) => {
+      sendMessage('REFINE_AI_RESPONSE', { reviewData, draft, instruction, detail, preferences }).then((response) => {
+        if (response.success && response.aiResponse) {
+          preview.setRefinedDraft(response.aiResponse);
+        } else {
+          preview.setError((!response.success && response.error) || 'Failed to refine the reply.');
+        }
+      });
+    });
+  }
+
+  function scan(): void {
+    for (const card of adapter.findReviewCards(document)) {
+      if (card.querySelector(`.${BUTTON_CLASS}`)) {
+        continue;
+      }
+
+      const anchor = adapter.findButtonAnchor(card);
+      const button = createButton(card);
+      if (anchor?.parentElement) {
+        anchor.insertAdjacentElement('afterend', button);
+      } else {
+        card.appendChild(button);
+      }
+    }
+  }
+
+  function scheduleScan(): void {
+    if (scanTimer !== null) {
+      window.clearTimeout(scanTimer);
+    }
+    scanTimer = window.setTimeout(() => {
+      scanTimer = null;
+      scan();
+    }, SCAN_DEBOUNCE_MS);
+  }
+
+  return {
+    start: () => {
+      if (observer) return;
+      scan();
+      // Review lists load lazily and paginate without a page load
+      observer = new MutationObserver(scheduleScan);
+      observer.observe(document.body, { childList: true, subtree: true });
+    },
+    stop: () => {
+      observer?.disconnect();
+      observer = null;
+      cancelGeneration();
+      document.querySelectorAll(`.${BUTTON_CLASS}`).forEach(button => button.remove());
+    },
+    generateForFocusedReview: () => {
+      const card = findFocusedCard();
+      if (!card) {
+        return false;
+      }
+      handleCardClick(card);
+      return true;
+    },
+    getFocusedReview: () => {
+      const card = findFocusedCard();
+      return card ? readCard(card) : null;
+    }
+  };
+}
@@ -0,0 +1,78 @@
+// Booking.com adapter - public property pages and the extranet guest review inbox
+
+import { findEditableReplyBox, queryAll, queryFirst, readRatingLabel, readText } from './shared';
+import type { ReviewData, SiteAdapter } from '../../types';
+
+const BOOKING_SCORE_SCALE = 10;
+
+const CARD_SELECTORS = [
+  '[data-testid="review-card"]',
+  '.review_list_new_item_block',
+  '.c-review-block'
+];
+
+const REVIEWER_SELECTORS = [
+  '[data-testid="review-avatar"] div:first-child',
+  '.bui-avatar-block__title'
+];
+
+const SCORE_SELECTORS = [
+  '[data-testid="review-score"]',
+  '.bui-review-score__badge'
+];
+
+const TITLE_SELECTORS = [
+  '[data-testid="review-title"]',
+  '.c-review-block__title'
+];
+
+const POSITIVE_SELECTORS = [
+  '[data-testid="review-positive-text"]',
+  '.review_pos'
+];
+
+const NEGATIVE_SELECTORS = [
+  '[data-testid="review-negative-text"]',
+  '.review_neg'
+];
+
+const DATE_SELECTORS = [
+  '[data-testid="review-date"]',
+  '.c-review-block__date'
+];
+
+export const bookingAdapter: SiteAdapter = {
+  id: 'booking',
+  platform: 'Booking.com',
+  hostnames: ['booking.com'],
+
+  findReviewCards: (root) => queryAll(root, CARD_SELECTORS),
+
+  extractReview: (card): ReviewData | null => {
+    // Booking splits each review into a headline plus what the guest liked and disliked
+    const title = readText(card, TITLE_SELECTORS);
+    const liked = readText(card, POSITIVE_SELECTORS);
+    const disliked = readText(card, NEGATIVE_SELECTORS);
+    const reviewText = [
+      title,
+      liked ? `Liked: ${liked}` : '',
+      disliked ? `Disliked: ${disliked}` : ''
+    ].filter(Boolean).join('\n\n');
+    const rating = readRatingLabel(readText(card, SCORE_SELECTORS), BOOKING_SCORE_SCALE);
+    if (!reviewText && !rating) {
+      return null;
+    }
+
+    return {
+      reviewer_name: readText(card, REVIEWER_SELECTORS) || undefined,
+      review_rating: rating,
+      review_text: reviewText,
+      review_date: readText(card, DATE_SELECTORS) || undefined,
+      review_id: card.getAttribute('data-review-url') || undefined
+    };
+  },
+
+  findReplyBox: findEditableReplyBox,
+
+  findButtonAnchor: (card) => queryFirst(card, [...POSITIVE_SELECTORS, ...NEGATIVE_SELECTORS, ...TITLE_SELECTORS])
+};
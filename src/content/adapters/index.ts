@@ -0,0 +1,24 @@
+// Site adapter registry - add a module here to support another review site
+
+import { yelpAdapter } from './yelp';
+import { tripadvisorAdapter } from './tripadvisor';
+import { trustpilotAdapter } from './trustpilot';
+import { bookingAdapter } from './booking';
+import type { SiteAdapter } from '../../types';
+
+export const SITE_ADAPTERS: readonly SiteAdapter[] = [
+  yelpAdapter,
+  tripadvisorAdapter,
+  trustpilotAdapter,
+  bookingAdapter
+];
+
+/**
+ * The adapter for a hostname, matching the registered domain or any of its subdomains
+ */
+export function findSiteAdapter(hostname: string): SiteAdapter | null {
+  const host = hostname.toLowerCase();
+  return SITE_ADAPTERS.find(adapter =>
+    adapter.hostnames.some(domain => host === domain || host.endsWith(`.${domain}`))
+  ) ?? null;
+}
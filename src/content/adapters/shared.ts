@@ -0,0 +1,66 @@
+// Shared DOM helpers for site adapters
+// Review sites reshuffle their markup often, so every lookup takes a list of selectors
+// ordered from most to least specific and uses the first one that matches.
+
+import { parseRatingLabel } from '../../utils/rating';
+
+/**
+ * All elements matched by the first selector that matches anything
+ */
+export function queryAll(root: ParentNode, selectors: string[]): HTMLElement[] {
+  for (const selector of selectors) {
+    const matches = Array.from(root.querySelectorAll<HTMLElement>(selector));
+    if (matches.length > 0) {
+      return matches;
+    }
+  }
+  return [];
+}
+
+export function queryFirst(root: ParentNode, selectors: string[]): HTMLElement | null {
+  for (const selector of selectors) {
+    const match = root.querySelector<HTMLElement>(selector);
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
+
+export function readText(root: ParentNode, selectors: string[]): string {
+  const element = queryFirst(root, selectors);
+  return (element?.innerText || element?.textContent || '').replace(/\s+\n/g, '\n').trim();
+}
+
+/**
+ * Read a 1-5 rating from a label or score badge. Scores on other scales (Booking.com uses 10)
+ * are converted. Badges often wrap the bare score in other text ("Scored 8.5").
+ */
+export function readRatingLabel(label: string | null | undefined, scale = 5): number | undefined {
+  const result = parseRatingLabel(label, scale);
+  if (result.status === 'known') {
+    return result.value;
+  }
+
+  const score = parseRatingLabel(label?.match(/\d+(?:[.,]\d+)?/)?.[0], scale);
+  return score.status === 'known' ? score.value : undefined;
+}
+
+/**
+ * The reply box inside a review card, for owner dashboards that render it inline
+ */
+export function findEditableReplyBox(card: HTMLElement): HTMLElement | null {
+  return queryFirst(card, [
+    'textarea',
+    '[contenteditable="true"]',
+    '[role="textbox"]'
+  ]);
+}
+
+/**
+ * Absolute URL of the first matching link, e.g. the reviewer's profile
+ */
+export function readLink(root: ParentNode, selectors: string[]): string | undefined {
+  const element = queryFirst(root, selectors);
+  return element instanceof HTMLAnchorElement && element.href ? element.href : undefined;
+}
@@ -0,0 +1,83 @@
+// Tripadvisor adapter - public listing pages and the Management Center review inbox
+
+import { findEditableReplyBox, queryAll, queryFirst, readLink, readRatingLabel, readText } from './shared';
+import type { ReviewData, SiteAdapter } from '../../types';
+
+const CARD_SELECTORS = [
+  '[data-automation="reviewCard"]',
+  'div[data-reviewid]',
+  '.review-container'
+];
+
+const REVIEWER_SELECTORS = [
+  'a[href*="/Profile/"]',
+  '.memberOverlayLink',
+  '.info_text div'
+];
+
+const TEXT_SELECTORS = [
+  '[data-automation^="reviewText"]',
+  '.partial_entry',
+  'q'
+];
+
+const PROFILE_SELECTORS = [
+  'a[href*="/Profile/"]'
+];
+
+const DATE_SELECTORS = [
+  '[data-automation="reviewDate"]',
+  '.ratingDate'
+];
+
+/**
+ * Tripadvisor shows ratings as bubbles: an SVG titled "4.0 of 5 bubbles" or a "bubble_40" class
+ */
+function readBubbleRating(card: HTMLElement): number | undefined {
+  const title = queryFirst(card, ['svg[aria-label*="bubbles"]', 'svg title']);
+  const label = title?.getAttribute('aria-label') || title?.textContent;
+  if (label) {
+    return readRatingLabel(label);
+  }
+
+  const bubbleClass = card.querySelector('[class*="bubble_"]')?.className.match(/bubble_(\d)(\d)/);
+  return bubbleClass ? readRatingLabel(`${bubbleClass[1]}.${bubbleClass[2]}`) : undefined;
+}
+
+export const tripadvisorAdapter: SiteAdapter = {
+  id: 'tripadvisor',
+  platform: 'Tripadvisor',
+  hostnames: [
+    'tripadvisor.com',
+    'tripadvisor.co.uk',
+    'tripadvisor.ca',
+    'tripadvisor.com.au',
+    'tripadvisor.es',
+    'tripadvisor.fr',
+    'tripadvisor.de',
+    'tripadvisor.it'
+  ],
+
+  findReviewCards: (root) => queryAll(root, CARD_SELECTORS),
+
+  extractReview: (card): ReviewData | null => {
+    const reviewText = readText(card, TEXT_SELECTORS);
+    const rating = readBubbleRating(card);
+    if (!reviewText && !rating) {
+      return null;
+    }
+
+    return {
+      reviewer_name: readText(card, REVIEWER_SELECTORS) || undefined,
+      review_rating: rating,
+      review_text: reviewText,
+      review_date: readText(card, DATE_SELECTORS) || undefined,
+      review_id: card.getAttribute('data-reviewid') || undefined,
+      reviewer_profile_url: readLink(card, PROFILE_SELECTORS)
+    };
+  },
+
+  findReplyBox: findEditableReplyBox,
+
+  findButtonAnchor: (card) => queryFirst(card, TEXT_SELECTORS)
+};
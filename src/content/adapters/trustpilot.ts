@@ -0,0 +1,69 @@
+// Trustpilot adapter - public company pages and the Trustpilot Business review inbox
+
+import { findEditableReplyBox, queryAll, queryFirst, readLink, readRatingLabel, readText } from './shared';
+import type { ReviewData, SiteAdapter } from '../../types';
+
+const CARD_SELECTORS = [
+  'article[data-service-review-card-paper]',
+  'article[class*="reviewCard"]',
+  '[data-review-id]'
+];
+
+const REVIEWER_SELECTORS = [
+  '[data-consumer-name-typography]',
+  'span[class*="consumer"]'
+];
+
+const PROFILE_SELECTORS = [
+  'a[href*="/users/"]'
+];
+
+const TEXT_SELECTORS = [
+  '[data-service-review-text-typography]',
+  'p[class*="reviewContent"]',
+  'p[class*="review-content"]'
+];
+
+const TITLE_SELECTORS = [
+  '[data-service-review-title-typography]',
+  'h2[class*="title"]'
+];
+
+function readRating(card: HTMLElement): number | undefined {
+  const label = card.querySelector('[data-service-review-rating]')?.getAttribute('data-service-review-rating')
+    ?? card.querySelector('img[alt*="Rated"]')?.getAttribute('alt')
+    ?? card.querySelector('[aria-label*="Rated"]')?.getAttribute('aria-label');
+  return readRatingLabel(label);
+}
+
+export const trustpilotAdapter: SiteAdapter = {
+  id: 'trustpilot',
+  platform: 'Trustpilot',
+  hostnames: ['trustpilot.com'],
+
+  findReviewCards: (root) => queryAll(root, CARD_SELECTORS),
+
+  extractReview: (card): ReviewData | null => {
+    // The headline often carries half the complaint, so keep it with the body
+    const title = readText(card, TITLE_SELECTORS);
+    const body = readText(card, TEXT_SELECTORS);
+    const reviewText = [title, body].filter(Boolean).join('\n\n');
+    const rating = readRating(card);
+    if (!reviewText && !rating) {
+      return null;
+    }
+
+    return {
+      reviewer_name: readText(card, REVIEWER_SELECTORS) || undefined,
+      review_rating: rating,
+      review_text: reviewText,
+      review_date: card.querySelector('time')?.getAttribute('datetime') || undefined,
+      review_id: card.getAttribute('data-review-id') || undefined,
+      reviewer_profile_url: readLink(card, PROFILE_SELECTORS)
+    };
+  },
+
+  findReplyBox: findEditableReplyBox,
+
+  findButtonAnchor: (card) => queryFirst(card, [...TEXT_SELECTORS, ...TITLE_SELECTORS])
+};
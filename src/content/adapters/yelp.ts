@@ -0,0 +1,72 @@
+// Yelp adapter - public business pages and the Yelp for Business review inbox
+
+import { findEditableReplyBox, queryAll, queryFirst, readLink, readRatingLabel, readText } from './shared';
+import type { ReviewData, SiteAdapter } from '../../types';
+
+const CARD_SELECTORS = [
+  '[data-testid="review"]',
+  '#reviews ul > li',
+  'ul[class*="reviewList"] > li',
+  'div[class*="review__"]'
+];
+
+const REVIEWER_SELECTORS = [
+  'a[href*="/user_details"]',
+  '[data-testid="user-passport-info"] a',
+  '.user-passport-info a'
+];
+
+const RATING_SELECTORS = [
+  '[role="img"][aria-label*="star rating"]',
+  '[aria-label*="star rating"]'
+];
+
+const TEXT_SELECTORS = [
+  'p[class*="comment"] span[lang]',
+  'span[lang]',
+  'p[class*="comment"]'
+];
+
+const PROFILE_SELECTORS = [
+  'a[href*="/user_details"]'
+];
+
+const PHOTO_SELECTORS = [
+  'a[href*="/biz_photos/"]'
+];
+
+const DATE_SELECTORS = [
+  '[data-testid="review-date"]',
+  'time'
+];
+
+export const yelpAdapter: SiteAdapter = {
+  id: 'yelp',
+  platform: 'Yelp',
+  hostnames: ['yelp.com', 'yelp.ca', 'yelp.co.uk', 'yelp.com.au'],
+
+  findReviewCards: (root) => queryAll(root, CARD_SELECTORS)
+    .filter(card => queryFirst(card, TEXT_SELECTORS) !== null),
+
+  extractReview: (card): ReviewData | null => {
+    const reviewText = readText(card, TEXT_SELECTORS);
+    const rating = readRatingLabel(queryFirst(card, RATING_SELECTORS)?.getAttribute('aria-label'));
+    if (!reviewText && !rating) {
+      return null;
+    }
+
+    return {
+      reviewer_name: readText(card, REVIEWER_SELECTORS) || undefined,
+      review_rating: rating,
+      review_text: reviewText,
+      review_date: readText(card, DATE_SELECTORS) || undefined,
+      review_id: card.getAttribute('data-review-id') || undefined,
+      reviewer_profile_url: readLink(card, PROFILE_SELECTORS),
+      has_photos: queryFirst(card, PHOTO_SELECTORS) !== null
+    };
+  },
+
+  findReplyBox: findEditableReplyBox,
+
+  findButtonAnchor: (card) => queryFirst(card, TEXT_SELECTORS)
+};
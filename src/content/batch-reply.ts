@@ -0,0 +1,513 @@
+// AI Review Responder - Batch Reply Mode
+// Walks the unanswered reviews of the Google Business reply flow, generates a draft for
+// each one and stages the drafts in a queue the user approves, edits or skips.
+// Nothing is inserted into Google's reply box until the user approves a draft.
+
+import { assessEscalation } from '../utils/escalation';
+import { escapeHtml } from '../utils/html';
+import { hasBlockingFindings } from '../utils/reply-linter';
+import { sendMessage } from '../utils/messaging';
+import type { AIResponsePayload, EscalationAssessment, GenerationPreferences, LintFinding, ReviewData } from '../types';
+
+export interface BatchReplyDeps {
+  extractReviewData: () => ReviewData | null;
+  findReplyTextarea: () => HTMLElement | null;
+  findSkipButton: () => HTMLElement | null;
+  getGenerationPreferences: () => GenerationPreferences;
+  insertResponse: (replyElement: HTMLElement, response: string) => void;
+  lintDraft: (draft: string, reviewData: ReviewData) => LintFinding[];
+  shouldConfirmEscalatedInsert: () => boolean;
+}
+
+export interface BatchReplyController {
+  open: () => void;
+  isActive: () => boolean;
+}
+
+type BatchItemStatus = 'generating' | 'ready' | 'inserted' | 'skipped' | 'failed';
+
+type BatchRunState = 'idle' | 'running' | 'paused' | 'stopping' | 'done';
+
+interface BatchItem {
+  key: string;
+  reviewData: ReviewData;
+  draft: string;
+  status: BatchItemStatus;
+  escalation: EscalationAssessment;
+  isConfirmingInsert: boolean; // Escalated reviews take a second click to insert, as in the draft preview
+  error?: string;
+}
+
+const HOST_ID = 'boltreply-batch-host';
+const MAX_BATCH_SIZE = 50;
+const REVIEW_CHANGE_TIMEOUT_MS = 8000;
+const POLL_INTERVAL_MS = 250;
+const CREDITS_STORAGE_KEY = 'credits_remaining';
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  generating: 'Generating...',
+  ready: 'Draft ready',
+  inserted: 'Inserted',
+  skipped: 'Skipped',
+  failed: 'Failed'
+};
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Identify a review by reviewer and text so we can tell when the reply flow loops back
+ */
+function getReviewKey(reviewData: ReviewData): string {
+  return `${reviewData.reviewer_name ?? ''}::${reviewData.review_text}`;
+}
+
+/**
+ * Credits the batch may spend: the balance the last generation reported. AUTH_STATUS only
+ * carries a placeholder, so null until a generation has run.
+ */
+function readCreditBudget(): Promise<number | null> {
+  return new Promise(resolve => {
+    chrome.storage.local.get([CREDITS_STORAGE_KEY], (result) => {
+      if (chrome.runtime.lastError) {
+        resolve(null);
+        return;
+      }
+      const value = result[CREDITS_STORAGE_KEY];
+      resolve(typeof value === 'number' ? value : null);
+    });
+  });
+}
+
+// A batch answers reviews of every rating, so the one-off Pro prompt picked in the popup is left out
+function requestDraft(reviewData: ReviewData, preferences: GenerationPreferences): Promise<AIResponsePayload> {
+  return sendMessage('GENERATE_AI_RESPONSE', { reviewData, preferences });
+}
+
+export function createBatchReplyController(deps: BatchReplyDeps): BatchReplyController {
+  let runState: BatchRunState = 'idle';
+  let items: BatchItem[] = [];
+  let statusMessage = '';
+  let shadowRoot: ShadowRoot | null = null;
+
+  function isBusy(): boolean {
+    return runState === 'running' || runState === 'paused' || runState === 'stopping';
+  }
+
+  // Approve buttons follow the run state
+  function renderState(): void {
+    renderControls();
+    items.filter(item => item.status === 'ready').forEach(renderItem);
+  }
+
+  // ── Review walking ─────────────────────────────────────────────────────────
+
+  async function waitForReview(previousKey: string | null): Promise<ReviewData | null> {
+    const deadline = Date.now() + REVIEW_CHANGE_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      if (deps.findReplyTextarea()) {
+        const reviewData = deps.extractReviewData();
+        if (reviewData && getReviewKey(reviewData) !== previousKey) {
+          return reviewData;
+        }
+      }
+      await delay(POLL_INTERVAL_MS);
+    }
+
+    return null;
+  }
+
+  async function advancePastReview(currentKey: string): Promise<ReviewData | null> {
+    const skipButton = deps.findSkipButton();
+    if (!skipButton) {
+      return null;
+    }
+
+    skipButton.click();
+    return waitForReview(currentKey);
+  }
+
+  /**
+   * Resolve once the user resumes; reports whether a stop was requested meanwhile
+   */
+  async function waitWhilePaused(): Promise<boolean> {
+    while (runState === 'paused') {
+      await delay(POLL_INTERVAL_MS);
+    }
+    return runState === 'stopping';
+  }
+
+  async function runBatch(): Promise<void> {
+    runState = 'running';
+    statusMessage = '';
+    renderState();
+
+    // Without a known balance nothing could stop the batch before the credits run out
+    let budget = await readCreditBudget();
+    if (budget === null) {
+      statusMessage = "Your credit balance isn't known yet. Generate one reply on its own, then start the batch.";
+      runState = 'done';
+      renderState();
+      return;
+    }
+
+    const seenKeys = new Set(items.map(item => item.key));
+    let current = await waitForReview(null);
+
+    for (let step = 0; step < MAX_BATCH_SIZE; step++) {
+      const stopRequested = await waitWhilePaused();
+      if (stopRequested) {
+        statusMessage = 'Stopped.';
+        break;
+      }
+
+      if (!current) {
+        statusMessage = 'No more unanswered reviews found.';
+        break;
+      }
+
+      const key = getReviewKey(current);
+      if (seenKeys.has(key)) {
+        statusMessage = 'All unanswered reviews have a draft.';
+        break;
+      }
+      seenKeys.add(key);
+
+      if (budget <= 0) {
+        statusMessage = 'Stopped: no credits remaining.';
+        break;
+      }
+
+      const item: BatchItem = {
+        key,
+        reviewData: current,
+        draft: '',
+        status: 'generating',
+        escalation: assessEscalation(current),
+        isConfirmingInsert: false
+      };
+      items.push(item);
+      renderItem(item);
+      renderControls();
+
+      const result = await requestDraft(current, deps.getGenerationPreferences());
+      if (result.success) {
+        item.draft = result.aiResponse;
+        item.status = 'ready';
+        if (typeof result.creditsRemaining === 'number') {
+          budget = result.creditsRemaining;
+        } else {
+          budget -= result.creditsUsed ?? 1;
+        }
+      } else {
+        item.status = 'failed';
+        item.error = result.error;
+      }
+      renderItem(item);
+
+      if (!result.success && result.errorType === 'INSUFFICIENT_CREDITS') {
+        statusMessage = 'Stopped: no credits remaining.';
+        break;
+      }
+
+      if (!result.success && result.errorType === 'QUEUED') {
+        statusMessage = 'Stopped: offline. Queued replies will appear in History once generated.';
+        break;
+      }
+
+      current = await advancePastReview(key);
+    }
+
+    runState = 'done';
+    renderState();
+  }
+
+  /**
+   * Step through the reply flow until the review for this item is on screen, then insert its draft
+   */
+  async function insertItem(item: BatchItem): Promise<void> {
+    let current = deps.extractReviewData();
+
+    for (let step = 0; step <= items.length; step++) {
+      if (current && getReviewKey(current) === item.key) {
+        const textarea = deps.findReplyTextarea();
+        if (textarea) {
+          deps.insertResponse(textarea, item.draft);
+          item.status = 'inserted';
+          renderItem(item);
+          return;
+        }
+      }
+
+      current = await advancePastReview(current ? getReviewKey(current) : '');
+      if (!current) {
+        break;
+      }
+    }
+
+    item.error = 'Could not find this review in the reply flow anymore.';
+    renderItem(item);
+  }
+
+  // ── Panel (Shadow DOM) ─────────────────────────────────────────────────────
+
+  function getPanelCSS(): string {
+    return `
+      *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+      :host { all: initial; }
+      .panel {
+        position: fixed;
+        top: 16px;
+        right: 16px;
+        width: 380px;
+        max-height: calc(100vh - 32px);
+        display: flex;
+        flex-direction: column;
+        background: #ffffff;
+        border: 1px solid #e2e8f0;
+        border-radius: 10px;
+        box-shadow: 0 8px 32px rgba(0,0,0,0.18);
+        font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        font-size: 13px;
+        color: #1a202c;
+        z-index: 2147483647;
+        overflow: hidden;
+      }
+      .header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        padding: 12px 14px;
+        border-bottom: 1px solid #e2e8f0;
+        background: #f8fafc;
+        font-weight: 600;
+      }
+      .close-btn { background: none; border: none; cursor: pointer; color: #64748b; font-size: 16px; }
+      .controls { display: flex; flex-direction: column; gap: 8px; padding: 12px 14px; border-bottom: 1px solid #e2e8f0; }
+      .progress { font-size: 12px; color: #475569; }
+      .progress-bar { height: 4px; border-radius: 2px; background: #e2e8f0; overflow: hidden; }
+      .progress-bar span { display: block; height: 100%; background: hsl(217, 91%, 60%); transition: width 0.2s; }
+      .status { font-size: 12px; color: #1d4ed8; }
+      .row { display: flex; gap: 6px; }
+      .btn {
+        flex: 1;
+        padding: 7px 10px;
+        border-radius: 6px;
+        border: 1px solid #e2e8f0;
+        background: #f1f5f9;
+        color: #374151;
+        font-size: 12px;
+        font-weight: 600;
+        font-family: inherit;
+        cursor: pointer;
+      }
+      .btn:disabled { opacity: 0.5; cursor: not-allowed; }
+      .btn-primary { background: hsl(217, 91%, 60%); border-color: hsl(217, 91%, 60%); color: #fff; }
+      .btn-primary:hover:not(:disabled) { background: hsl(217, 91%, 50%); }
+      .items { overflow-y: auto; padding: 8px 14px 14px; display: flex; flex-direction: column; gap: 10px; }
+      .item { border: 1px solid #e2e8f0; border-radius: 8px; padding: 10px; display: flex; flex-direction: column; gap: 6px; }
+      .item-head { display: flex; justify-content: space-between; gap: 8px; font-weight: 600; }
+      .badge { font-size: 11px; font-weight: 500; color: #64748b; white-space: nowrap; }
+      .badge.failed { color: #b91c1c; }
+      .badge.inserted { color: hsl(142, 76%, 36%); }
+      .warning {
+        font-size: 12px;
+        color: #92400e;
+        background: #fffbeb;
+        border: 1px solid #fde68a;
+        border-radius: 6px;
+        padding: 6px 8px;
+      }
+      .review { font-size: 12px; color: #64748b; max-height: 48px; overflow: hidden; }
+      .error { font-size: 12px; color: #b91c1c; }
+      .finding { font-size: 12px; }
+      .finding.warn { color: #92400e; }
+      .finding.block { color: #b91c1c; }
+      textarea {
+        width: 100%;
+        min-height: 90px;
+        border: 1px solid #d1d5db;
+        border-radius: 6px;
+        padding: 6px 8px;
+        font-size: 12px;
+        font-family: inherit;
+        resize: vertical;
+      }
+    `;
+  }
+
+  function ensurePanel(): ShadowRoot {
+    if (shadowRoot && document.getElementById(HOST_ID)) {
+      return shadowRoot;
+    }
+
+    const host = document.createElement('div');
+    host.id = HOST_ID;
+    document.body.appendChild(host);
+    shadowRoot = host.attachShadow({ mode: 'open' });
+
+    const style = document.createElement('style');
+    style.textContent = getPanelCSS();
+    shadowRoot.appendChild(style);
+
+    const panel = document.createElement('div');
+    panel.className = 'panel';
+    panel.innerHTML = `
+      <div class="header">
+        <span>Bolt Reply — Reply to all</span>
+        <button class="close-btn" id="batch-close" title="Close">&#10005;</button>
+      </div>
+      <div class="controls" id="batch-controls"></div>
+      <div class="items" id="batch-items"></div>
+    `;
+    shadowRoot.appendChild(panel);
+
+    shadowRoot.getElementById('batch-close')?.addEventListener('click', close);
+    shadowRoot.getElementById('batch-controls')?.addEventListener('click', handleControlClick);
+
+    return shadowRoot;
+  }
+
+  function renderControls(): void {
+    const container = shadowRoot?.getElementById('batch-controls');
+    if (!container) return;
+
+    const generated = items.filter(item => item.status !== 'generating').length;
+    const total = items.length;
+    const ready = items.filter(item => item.status === 'ready').length;
+    const percent = total > 0 ? Math.round((generated / total) * 100) : 0;
+    const busy = isBusy();
+
+    container.innerHTML = `
+      <div class="progress">${generated} drafted · ${ready} awaiting approval${runState === 'paused' ? ' · Paused' : ''}</div>
+      <div class="progress-bar"><span style="width:${busy ? percent : 100}%"></span></div>
+      ${statusMessage ? `<div class="status">${escapeHtml(statusMessage)}</div>` : ''}
+      <div class="row">
+        <button class="btn btn-primary" data-action="start" ${busy ? 'disabled' : ''}>${runState === 'idle' ? 'Start' : 'Continue'}</button>
+        <button class="btn" data-action="${runState === 'paused' ? 'resume' : 'pause'}" ${busy && runState !== 'stopping' ? '' : 'disabled'}>${runState === 'paused' ? 'Resume' : 'Pause'}</button>
+        <button class="btn" data-action="stop" ${busy && runState !== 'stopping' ? '' : 'disabled'}>Stop</button>
+      </div>
+    `;
+  }
+
+  function renderItem(item: BatchItem): void {
+    const list = shadowRoot?.getElementById('batch-items');
+    if (!list) return;
+
+    const element = document.createElement('div');
+    element.className = 'item';
+    element.setAttribute('data-key', item.key);
+
+    const reviewerName = item.reviewData.reviewer_name || 'Anonymous';
+    const rating = item.reviewData.review_rating ? ` · ${item.reviewData.review_rating}★` : '';
+    const canAct = item.status === 'ready';
+    // Inserting walks the reply flow, which would leave a paused run pointing at the wrong review
+    const canInsert = !isBusy();
+
+    element.innerHTML = `
+      <div class="item-head">
+        <span>${escapeHtml(reviewerName)}${rating}</span>
+        <span class="badge ${item.status}">${STATUS_LABELS[item.status]}</span>
+      </div>
+      <div class="review">${escapeHtml(item.reviewData.review_text)}</div>
+      ${item.escalation.needsEscalation && item.status !== 'skipped' ? `
+        <div class="warning"><strong>This review needs care.</strong> ${escapeHtml(item.escalation.reasons.join(' · '))}. Replies to it are added to your follow-up list.</div>
+      ` : ''}
+      ${item.status === 'ready' || item.status === 'inserted' ? `<textarea ${canAct ? '' : 'disabled'}>${escapeHtml(item.draft)}</textarea>` : ''}
+      ${canAct ? deps.lintDraft(item.draft, item.reviewData).map(finding => `
+        <div class="finding ${finding.level}">${escapeHtml(finding.message)}${finding.excerpt ? ` "${escapeHtml(finding.excerpt)}"` : ''}</div>
+      `).join('') : ''}
+      ${item.error ? `<div class="error">${escapeHtml(item.error)}</div>` : ''}
+      ${canAct ? `
+        <div class="row">
+          <button class="btn btn-primary" data-action="approve" ${canInsert ? '' : 'disabled title="Stop the batch to insert drafts"'}>${item.isConfirmingInsert ? 'Confirm insert' : 'Approve &amp; insert'}</button>
+          <button class="btn" data-action="skip">Skip</button>
+        </div>
+      ` : ''}
+    `;
+
+    element.querySelector('textarea')?.addEventListener('input', (e) => {
+      item.draft = (e.target as HTMLTextAreaElement).value;
+    });
+    element.querySelector('[data-action="approve"]')?.addEventListener('click', () => {
+      if (isBusy()) {
+        item.error = 'Stop the batch before inserting a draft.';
+        renderItem(item);
+        return;
+      }
+      // The draft may have been edited since the last render, so lint it again
+      if (hasBlockingFindings(deps.lintDraft(item.draft, item.reviewData))) {
+        item.error = 'Fix the issues above before inserting this draft.';
+        renderItem(item);
+        return;
+      }
+      if (item.escalation.needsEscalation && deps.shouldConfirmEscalatedInsert() && !item.isConfirmingInsert) {
+        item.isConfirmingInsert = true;
+        item.error = undefined;
+        renderItem(item);
+        return;
+      }
+      item.isConfirmingInsert = false;
+      item.error = undefined;
+      insertItem(item);
+    });
+    element.querySelector('[data-action="skip"]')?.addEventListener('click', () => {
+      item.status = 'skipped';
+      renderItem(item);
+      renderControls();
+    });
+
+    const existing = Array.from(list.children).find(child => child.getAttribute('data-key') === item.key);
+    if (existing) {
+      list.replaceChild(element, existing);
+    } else {
+      list.appendChild(element);
+    }
+  }
+
+  function handleControlClick(e: Event): void {
+    const action = (e.target as HTMLElement).getAttribute('data-action');
+    switch (action) {
+      case 'start':
+        runBatch();
+        break;
+      case 'pause':
+        runState = 'paused';
+        renderState();
+        break;
+      case 'resume':
+        runState = 'running';
+        renderState();
+        break;
+      case 'stop':
+        runState = 'stopping';
+        renderState();
+        break;
+    }
+  }
+
+  function open(): void {
+    ensurePanel();
+    renderControls();
+    items.forEach(renderItem);
+  }
+
+  function close(): void {
+    if (runState === 'running' || runState === 'paused') {
+      runState = 'stopping';
+    }
+    document.getElementById(HOST_ID)?.remove();
+    shadowRoot = null;
+    items = items.filter(item => item.status === 'ready');
+    if (runState === 'done') {
+      runState = 'idle';
+    }
+  }
+
+  return {
+    open,
+    isActive: isBusy
+  };
+}
@@ -2,13 +2,21 @@
 // This script runs ONLY on the main Google page (not in iframes)
 // The iframe injection is handled automatically by manifest.json
 
+import { parseFrameMessage } from '../utils/messaging';
+
 (() => {
   // Verify we're on the main page (not in an iframe)
   if (window === window.top) {
 
-    // Listen for messages from iframe scripts
-    chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    // Listen for messages posted by iframe scripts. Google's own scripts post here too,
+    // so anything that isn't one of ours is ignored.
+    window.addEventListener('message', (event: MessageEvent) => {
+      const parsed = parseFrameMessage(event.data);
+      if (!parsed.ok) {
+        return;
+      }
 
+      const message = parsed.message;
       switch (message.type) {
         case 'IFRAME_READY':
           break;
@@ -17,8 +25,6 @@
           // Handle reply generation (update usage counters, etc.)
           break;
       }
-
-      sendResponse({ success: true });
     });
 
   } else {
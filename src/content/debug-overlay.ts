@@ -0,0 +1,126 @@
+// AI Review Responder - Extraction Debug Overlay
+// Outlines the elements extraction picked for each field so a broken selector is obvious at a glance.
+// Turned on from the popup's Settings tab.
+
+import { escapeHtml } from '../utils/html';
+import type { ExtractionField, ExtractionFieldResult } from '../types';
+
+const HOST_ID = 'boltreply-debug-overlay';
+
+const FIELD_LABELS: Record<ExtractionField, string> = {
+  reviewerName: 'Reviewer',
+  rating: 'Rating',
+  reviewText: 'Review text',
+  replyTextarea: 'Reply box'
+};
+
+const FIELD_COLORS: Record<ExtractionField, string> = {
+  reviewerName: 'hsl(217, 91%, 60%)',
+  rating: 'hsl(38, 92%, 50%)',
+  reviewText: 'hsl(142, 71%, 45%)',
+  replyTextarea: 'hsl(280, 67%, 55%)'
+};
+
+export interface DebugOverlayTarget {
+  result: ExtractionFieldResult;
+  element?: Element;
+}
+
+let currentTargets: DebugOverlayTarget[] = [];
+let listenersAttached = false;
+
+function getOverlayCSS(): string {
+  return `
+    :host { all: initial; }
+    .box {
+      position: fixed;
+      pointer-events: none;
+      border: 2px dashed;
+      border-radius: 4px;
+      z-index: 2147483646;
+    }
+    .tag {
+      position: absolute;
+      top: -20px;
+      left: -2px;
+      padding: 1px 6px;
+      border-radius: 3px;
+      color: white;
+      font: 600 11px/16px 'Inter', sans-serif;
+      white-space: nowrap;
+    }
+    .legend {
+      position: fixed;
+      bottom: 12px;
+      left: 12px;
+      z-index: 2147483647;
+      padding: 8px 10px;
+      background: rgba(17, 24, 39, 0.9);
+      color: white;
+      border-radius: 6px;
+      font: 12px/18px 'Inter', sans-serif;
+      pointer-events: none;
+    }
+    .legend .missing { color: hsl(0, 84%, 70%); }
+  `;
+}
+
+function getOrCreateShadowRoot(): ShadowRoot {
+  const existing = document.getElementById(HOST_ID);
+  if (existing?.shadowRoot) {
+    return existing.shadowRoot;
+  }
+
+  const host = document.createElement('div');
+  host.id = HOST_ID;
+  document.body.appendChild(host);
+  return host.attachShadow({ mode: 'open' });
+}
+
+function render(): void {
+  const shadowRoot = getOrCreateShadowRoot();
+
+  const boxes = currentTargets
+    .filter(target => target.element && target.element.isConnected)
+    .map(target => {
+      const rect = (target.element as Element).getBoundingClientRect();
+      const field = target.result.field;
+      const color = FIELD_COLORS[field];
+      const label = `${FIELD_LABELS[field]} · ${Math.round(target.result.confidence * 100)}%`;
+      return `
+        <div class="box" style="top:${rect.top}px;left:${rect.left}px;width:${rect.width}px;height:${rect.height}px;border-color:${color};">
+          <span class="tag" style="background:${color};">${escapeHtml(label)}</span>
+        </div>
+      `;
+    }).join('');
+
+  const legend = currentTargets.map(target => {
+    const { field, matched, strategy } = target.result;
+    return matched
+      ? `<div>${FIELD_LABELS[field]}: ${escapeHtml(strategy ?? '')}</div>`
+      : `<div class="missing">${FIELD_LABELS[field]}: not found</div>`;
+  }).join('');
+
+  shadowRoot.innerHTML = `<style>${getOverlayCSS()}</style>${boxes}<div class="legend">${legend}</div>`;
+}
+
+export function showDebugOverlay(targets: DebugOverlayTarget[]): void {
+  currentTargets = targets;
+  if (!listenersAttached) {
+    // Boxes use fixed positioning, so they have to follow the page as it scrolls
+    window.addEventListener('scroll', render, true);
+    window.addEventListener('resize', render);
+    listenersAttached = true;
+  }
+  render();
+}
+
+export function hideDebugOverlay(): void {
+  currentTargets = [];
+  if (listenersAttached) {
+    window.removeEventListener('scroll', render, true);
+    window.removeEventListener('resize', render);
+    listenersAttached = false;
+  }
+  document.getElementById(HOST_ID)?.remove();
+}
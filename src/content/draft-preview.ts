@@ -0,0 +1,589 @@
+// AI Review Responder - Draft Preview Card
+// Shadow DOM card anchored to Google's reply box. Generated replies are staged here
+// and only written into the reply box once the user accepts them.
+
+import { diffWords } from '../utils/diff';
+import { escapeHtml } from '../utils/html';
+import { hasBlockingFindings } from '../utils/reply-linter';
+import { REFINE_INSTRUCTIONS, REFINE_INSTRUCTION_LABELS } from '../types';
+import type { LintFinding, RefineInstruction, ReplyVariant } from '../types';
+
+// Shown for reviews that need escalation: a warning, the de-escalation template and a confirm step
+export interface DraftPreviewEscalation {
+  reasons: string[];
+  confirmInsert: boolean;
+  onUseTemplate: () => void;
+}
+
+export interface DraftPreviewOptions {
+  anchor: HTMLElement;
+  existingText: string;
+  initialDraft?: string; // Open on a reply the user already has instead of waiting for a generation
+  escalation?: DraftPreviewEscalation;
+  lint?: (draft: string) => LintFinding[]; // Blocking findings keep the draft out of the reply box
+  onAccept: (text: string) => void;
+  onRegenerate: () => void;
+  onRequestVariants?: () => void;
+  onRefine?: (draft: string, instruction: RefineInstruction, detail?: string) => void;
+  onCancel?: () => void;
+  onDiscard?: () => void;
+}
+
+export interface DraftPreviewHandle {
+  setDraft: (draft: string) => void;
+  setRefinedDraft: (draft: string) => void;
+  setStreamingDraft: (text: string) => void;
+  setVariants: (variants: ReplyVariant[]) => void;
+  setLoading: (loading: boolean) => void;
+  setError: (message: string) => void;
+  setLocation: (label: string) => void; // Which business location the reply is written as; empty hides it
+  accept: () => boolean; // Keyboard shortcuts; false when the button is unavailable right now
+  regenerate: () => boolean;
+  close: () => void;
+}
+
+interface PreviewState {
+  draft: string;
+  variants: ReplyVariant[];
+  isComparing: boolean;
+  existingText: string;
+  isEditing: boolean;
+  isLoading: boolean;
+  isStreaming: boolean;
+  showDiff: boolean;
+  error: string;
+  undoStack: string[]; // Drafts replaced by refinements, most recent last
+  isRefining: boolean;
+  isAskingDetail: boolean;
+  isConfirmingInsert: boolean;
+  locationLabel: string;
+}
+
+const HOST_ID = 'boltreply-draft-preview-host';
+const CARD_MIN_WIDTH = 320;
+const CARD_MAX_WIDTH = 520;
+const CARD_GAP = 8;
+
+let activeHandle: DraftPreviewHandle | null = null;
+
+function getCardCSS(): string {
+  return `
+    *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+    :host { all: initial; }
+    .card {
+      position: fixed;
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+      padding: 12px 14px;
+      background: #ffffff;
+      border: 1px solid #e2e8f0;
+      border-top: 3px solid hsl(217, 91%, 60%);
+      border-radius: 8px;
+      box-shadow: 0 8px 28px rgba(0,0,0,0.16);
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 13px;
+      color: #1a202c;
+      z-index: 2147483647;
+      max-height: 60vh;
+      overflow-y: auto;
+    }
+    .head { display: flex; align-items: center; justify-content: space-between; font-weight: 600; }
+    .head-actions { display: flex; gap: 10px; }
+    .warning {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      font-size: 12px;
+      color: #92400e;
+      background: #fffbeb;
+      border: 1px solid #fde68a;
+      border-radius: 6px;
+      padding: 8px 10px;
+    }
+    .warning .toggle { align-self: flex-start; color: #b45309; font-weight: 600; }
+    .findings { display: flex; flex-direction: column; gap: 4px; }
+    .finding { font-size: 12px; line-height: 1.45; border-radius: 6px; padding: 6px 10px; }
+    .finding.warn { color: #92400e; background: #fffbeb; border: 1px solid #fde68a; }
+    .finding.block { color: #991b1b; background: #fef2f2; border: 1px solid #fecaca; }
+    .finding strong { font-weight: 600; }
+    .hint { font-size: 11px; font-weight: 500; color: #64748b; }
+    .draft {
+      white-space: pre-wrap;
+      word-break: break-word;
+      line-height: 1.55;
+      padding: 8px 10px;
+      border: 1px solid #e2e8f0;
+      border-radius: 6px;
+      background: #f8fafc;
+    }
+    textarea {
+      width: 100%;
+      min-height: 120px;
+      border: 1px solid hsl(217, 91%, 60%);
+      border-radius: 6px;
+      padding: 8px 10px;
+      font-size: 13px;
+      font-family: inherit;
+      line-height: 1.55;
+      resize: vertical;
+      outline: none;
+    }
+    .diff ins { background: #dcfce7; color: #166534; text-decoration: none; }
+    .diff del { background: #fee2e2; color: #991b1b; }
+    .toggle { background: none; border: none; color: hsl(217, 91%, 50%); font-size: 12px; font-family: inherit; cursor: pointer; padding: 0; }
+    .error { font-size: 12px; color: #b91c1c; background: #fef2f2; border: 1px solid #fecaca; border-radius: 6px; padding: 8px 10px; }
+    .loading { font-size: 12px; color: #475569; }
+    .actions { display: flex; flex-wrap: wrap; gap: 6px; }
+    .btn {
+      flex: 1;
+      padding: 7px 10px;
+      border-radius: 6px;
+      border: 1px solid #e2e8f0;
+      background: #f1f5f9;
+      color: #374151;
+      font-size: 12px;
+      font-weight: 600;
+      font-family: inherit;
+      cursor: pointer;
+      white-space: nowrap;
+    }
+    .btn:disabled { opacity: 0.5; cursor: not-allowed; }
+    .btn-primary { background: hsl(217, 91%, 60%); border-color: hsl(217, 91%, 60%); color: #fff; }
+    .btn-primary:hover:not(:disabled) { background: hsl(217, 91%, 50%); }
+    .refine { display: flex; flex-wrap: wrap; gap: 6px; }
+    .chip {
+      padding: 4px 10px;
+      border-radius: 999px;
+      border: 1px solid hsl(217, 91%, 85%);
+      background: hsl(217, 91%, 97%);
+      color: hsl(217, 91%, 40%);
+      font-size: 11px;
+      font-weight: 600;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    .chip:disabled { opacity: 0.5; cursor: not-allowed; }
+    .detail-row { display: flex; gap: 6px; }
+    .detail-row input {
+      flex: 1;
+      border: 1px solid #d1d5db;
+      border-radius: 6px;
+      padding: 6px 8px;
+      font-size: 12px;
+      font-family: inherit;
+      outline: none;
+    }
+    .detail-row .btn { flex: 0 0 auto; }
+    .variants { display: grid; grid-template-columns: repeat(auto-fit, minmax(150px, 1fr)); gap: 8px; }
+    .variant { display: flex; flex-direction: column; gap: 6px; border: 1px solid #e2e8f0; border-radius: 6px; padding: 8px; }
+    .variant-label { font-size: 11px; font-weight: 600; color: hsl(217, 91%, 45%); text-transform: uppercase; letter-spacing: 0.04em; }
+    .variant-text { font-size: 12px; line-height: 1.5; white-space: pre-wrap; word-break: break-word; flex: 1; }
+  `;
+}
+
+function renderFindings(findings: LintFinding[]): string {
+  if (findings.length === 0) {
+    return '';
+  }
+  return `<div class="findings">${findings.map(finding => `
+    <div class="finding ${finding.level}">
+      <strong>${finding.level === 'block' ? 'Fix before inserting' : 'Check'}:</strong>
+      ${escapeHtml(finding.message)}${finding.excerpt ? ` "${escapeHtml(finding.excerpt)}"` : ''}
+    </div>
+  `).join('')}</div>`;
+}
+
+function renderDiff(before: string, after: string): string {
+  return diffWords(before, after).map(segment => {
+    const text = escapeHtml(segment.text);
+    switch (segment.type) {
+      case 'added':
+        return `<ins>${text}</ins>`;
+      case 'removed':
+        return `<del>${text}</del>`;
+      default:
+        return text;
+    }
+  }).join('');
+}
+
+/**
+ * Open the preview card next to the reply box, replacing any card that is already open
+ */
+export function openDraftPreview(options: DraftPreviewOptions): DraftPreviewHandle {
+  activeHandle?.close();
+
+  const state: PreviewState = {
+    draft: options.initialDraft ?? '',
+    variants: [],
+    isComparing: false,
+    existingText: options.initialDraft === undefined ? options.existingText : '',
+    isEditing: false,
+    isLoading: options.initialDraft === undefined,
+    isStreaming: false,
+    showDiff: false,
+    error: '',
+    undoStack: [],
+    isRefining: false,
+    isAskingDetail: false,
+    isConfirmingInsert: false,
+    locationLabel: ''
+  };
+
+  const host = document.createElement('div');
+  host.id = HOST_ID;
+  document.body.appendChild(host);
+  const shadowRoot = host.attachShadow({ mode: 'open' });
+
+  const style = document.createElement('style');
+  style.textContent = getCardCSS();
+  shadowRoot.appendChild(style);
+
+  const card = document.createElement('div');
+  card.className = 'card';
+  shadowRoot.appendChild(card);
+
+  function position(): void {
+    const rect = options.anchor.getBoundingClientRect();
+    const width = Math.max(CARD_MIN_WIDTH, Math.min(rect.width, CARD_MAX_WIDTH));
+    const left = Math.max(CARD_GAP, Math.min(rect.left, window.innerWidth - width - CARD_GAP));
+    card.style.width = `${width}px`;
+    card.style.left = `${left}px`;
+
+    // Prefer below the reply box; flip above it when there is not enough room
+    const cardHeight = card.offsetHeight;
+    if (rect.bottom + CARD_GAP + cardHeight > window.innerHeight && rect.top - CARD_GAP - cardHeight > 0) {
+      card.style.top = `${rect.top - CARD_GAP - cardHeight}px`;
+    } else {
+      card.style.top = `${Math.min(rect.bottom + CARD_GAP, window.innerHeight - cardHeight - CARD_GAP)}px`;
+    }
+  }
+
+  function render(): void {
+    const hasExisting = state.existingText.trim().length > 0;
+    const hasDraft = state.draft.length > 0;
+
+    let body: string;
+    if (state.isLoading && !hasDraft) {
+      body = `<div class="loading">Generating reply...</div>`;
+    } else if (state.isStreaming) {
+      body = `<div class="draft">${escapeHtml(state.draft)}</div>`;
+    } else if (state.isComparing) {
+      body = `<div class="variants">${state.variants.map((variant, index) => `
+        <div class="variant">
+          <span class="variant-label">${escapeHtml(variant.label)}</span>
+          <div class="variant-text">${escapeHtml(variant.text)}</div>
+          <button class="btn" data-action="pick" data-index="${index}">Use this</button>
+        </div>
+      `).join('')}</div>`;
+    } else if (state.isEditing) {
+      body = `<textarea id="draft-edit">${escapeHtml(state.draft)}</textarea>`;
+    } else if (state.showDiff && hasExisting) {
+      body = `<div class="draft diff">${renderDiff(state.existingText, state.draft)}</div>`;
+    } else {
+      body = `<div class="draft">${escapeHtml(state.draft)}</div>`;
+    }
+
+    if (state.isStreaming) {
+      card.innerHTML = `
+        <div class="head"><span>Bolt Reply draft</span><span class="hint">Writing...</span></div>
+        ${body}
+        <div class="actions">
+          <button class="btn" data-action="cancel">Stop</button>
+        </div>
+      `;
+      position();
+      return;
+    }
+
+    const busy = state.isLoading ? 'disabled' : '';
+    const noDraft = !hasDraft || state.isLoading || state.isComparing ? 'disabled' : '';
+    const canRefine = Boolean(options.onRefine) && hasDraft && !state.isComparing;
+    const findings = hasDraft && !state.isComparing && !state.isLoading ? options.lint?.(state.draft) ?? [] : [];
+    // While editing the findings are from the last render, so the check happens again on click
+    const noInsert = noDraft || (!state.isEditing && hasBlockingFindings(findings)) ? 'disabled' : '';
+
+    card.innerHTML = `
+      <div class="head">
+        <span>Bolt Reply draft</span>
+        <span class="head-actions">
+          ${state.undoStack.length > 0 && !state.isLoading ? `<button class="toggle" data-action="undo">Undo</button>` : ''}
+          ${hasExisting && hasDraft && !state.isEditing ? `<button class="toggle" data-action="diff">${state.showDiff ? 'Hide changes' : 'Compare with your text'}</button>` : ''}
+        </span>
+      </div>
+      ${state.locationLabel ? `<div class="hint">${escapeHtml(state.locationLabel)}</div>` : ''}
+      ${hasExisting ? `<div class="hint">Your reply box already has text. Accepting replaces it; "Append" keeps it.</div>` : ''}
+      ${options.escalation ? `
+        <div class="warning">
+          <span><strong>This review needs care.</strong> ${escapeHtml(options.escalation.reasons.join(' · '))}. Replies to it are added to your follow-up list.</span>
+          <button class="toggle" data-action="template" ${busy}>Use de-escalation template</button>
+        </div>
+      ` : ''}
+      ${body}
+      ${renderFindings(findings)}
+      ${state.isLoading && hasDraft ? `<div class="loading">${state.isRefining ? 'Rewriting...' : 'Regenerating...'}</div>` : ''}
+      ${state.error ? `<div class="error">${escapeHtml(state.error)}</div>` : ''}
+      ${canRefine ? `<div class="refine">${REFINE_INSTRUCTIONS.map(instruction => `
+        <button class="chip" data-action="refine" data-instruction="${instruction}" ${busy}>${REFINE_INSTRUCTION_LABELS[instruction]}</button>
+      `).join('')}</div>` : ''}
+      ${canRefine && state.isAskingDetail ? `
+        <div class="detail-row">
+          <input id="refine-detail" type="text" placeholder="What should the reply mention?" />
+          <button class="btn" data-action="refine-detail" ${busy}>Rewrite</button>
+        </div>
+      ` : ''}
+      <div class="actions">
+        <button class="btn btn-primary" data-action="accept" ${noInsert}>${state.isConfirmingInsert ? 'Confirm insert' : 'Accept'}</button>
+        ${hasExisting ? `<button class="btn" data-action="append" ${noInsert}>${state.isConfirmingInsert ? 'Confirm append' : 'Append'}</button>` : ''}
+        <button class="btn" data-action="edit" ${noDraft}>${state.isEditing ? 'Done editing' : 'Edit'}</button>
+        <button class="btn" data-action="regenerate" ${busy}>Regenerate</button>
+        ${state.variants.length > 1 && !state.isComparing ? `<button class="btn" data-action="compare" ${busy}>Compare options</button>` : ''}
+        ${state.variants.length <= 1 && options.onRequestVariants ? `<button class="btn" data-action="variants" ${busy}>More options</button>` : ''}
+        <button class="btn" data-action="discard">Discard</button>
+      </div>
+    `;
+
+    const editor = card.querySelector('#draft-edit') as HTMLTextAreaElement | null;
+    editor?.addEventListener('input', () => {
+      state.draft = editor.value;
+    });
+    const detailInput = card.querySelector('#refine-detail') as HTMLInputElement | null;
+    detailInput?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        submitDetail();
+      }
+    });
+    (editor ?? detailInput)?.focus();
+
+    position();
+  }
+
+  /**
+   * Re-lint the draft at insert time; an edit can add or clear blocking findings since the last render
+   */
+  function isBlocked(): boolean {
+    if (!hasBlockingFindings(options.lint?.(state.draft) ?? [])) {
+      return false;
+    }
+    state.isEditing = false;
+    render();
+    return true;
+  }
+
+  /**
+   * Escalated reviews take a second click to insert; returns true while waiting for it
+   */
+  function needsConfirmation(): boolean {
+    if (!options.escalation?.confirmInsert || state.isConfirmingInsert) {
+      return false;
+    }
+    state.isConfirmingInsert = true;
+    render();
+    return true;
+  }
+
+  function refine(instruction: RefineInstruction, detail?: string): void {
+    state.isEditing = false;
+    state.isAskingDetail = false;
+    state.isRefining = true;
+    state.error = '';
+    options.onRefine?.(state.draft, instruction, detail);
+  }
+
+  function submitDetail(): void {
+    const detail = (card.querySelector('#refine-detail') as HTMLInputElement | null)?.value.trim();
+    if (detail) {
+      refine('detail', detail);
+    }
+  }
+
+  function handleAction(e: Event): void {
+    const target = (e.target as HTMLElement).closest('[data-action]');
+    const action = target?.getAttribute('data-action');
+    switch (action) {
+      case 'pick': {
+        const variant = state.variants[Number(target?.getAttribute('data-index'))];
+        if (variant) {
+          state.draft = variant.text;
+          state.isComparing = false;
+          render();
+        }
+        break;
+      }
+      case 'cancel':
+        options.onCancel?.();
+        break;
+      case 'refine': {
+        const instruction = REFINE_INSTRUCTIONS.find(value => value === target?.getAttribute('data-instruction'));
+        if (instruction === 'detail') {
+          state.isAskingDetail = !state.isAskingDetail;
+          render();
+        } else if (instruction) {
+          refine(instruction);
+        }
+        break;
+      }
+      case 'refine-detail':
+        submitDetail();
+        break;
+      case 'undo': {
+        const previous = state.undoStack.pop();
+        if (previous !== undefined) {
+          state.draft = previous;
+          state.isEditing = false;
+          state.error = '';
+          render();
+        }
+        break;
+      }
+      case 'compare':
+        state.isComparing = true;
+        state.isEditing = false;
+        render();
+        break;
+      case 'variants':
+        state.isEditing = false;
+        state.isRefining = false;
+        state.error = '';
+        options.onRequestVariants?.();
+        break;
+      case 'accept':
+        if (isBlocked() || needsConfirmation()) {
+          break;
+        }
+        options.onAccept(state.draft);
+        close();
+        break;
+      case 'append':
+        if (isBlocked() || needsConfirmation()) {
+          break;
+        }
+        options.onAccept(`${state.existingText.trimEnd()}\n\n${state.draft}`);
+        close();
+        break;
+      case 'template':
+        state.isEditing = false;
+        state.error = '';
+        options.escalation?.onUseTemplate();
+        break;
+      case 'edit':
+        state.isEditing = !state.isEditing;
+        render();
+        break;
+      case 'diff':
+        state.showDiff = !state.showDiff;
+        render();
+        break;
+      case 'regenerate':
+        state.isEditing = false;
+        state.isRefining = false;
+        state.error = '';
+        options.onRegenerate();
+        break;
+      case 'discard':
+        options.onDiscard?.();
+        close();
+        break;
+    }
+  }
+
+  /**
+   * Press an action button the way a click would, so lint blocks and the confirm step still apply
+   */
+  function pressAction(action: string): boolean {
+    const button = card.querySelector<HTMLButtonElement>(`.actions [data-action="${action}"]`);
+    if (!button || button.disabled) {
+      return false;
+    }
+    button.click();
+    return true;
+  }
+
+  function close(): void {
+    window.removeEventListener('resize', position);
+    window.removeEventListener('scroll', position, true);
+    host.remove();
+    if (activeHandle === handle) {
+      activeHandle = null;
+    }
+  }
+
+  card.addEventListener('click', handleAction);
+  window.addEventListener('resize', position);
+  window.addEventListener('scroll', position, true);
+
+  const handle: DraftPreviewHandle = {
+    setDraft: (draft: string) => {
+      state.draft = draft;
+      state.variants = [];
+      state.isComparing = false;
+      state.isLoading = false;
+      state.isStreaming = false;
+      state.isRefining = false;
+      state.isConfirmingInsert = false;
+      state.undoStack = [];
+      state.error = '';
+      render();
+    },
+    setRefinedDraft: (draft: string) => {
+      // Keep the draft being replaced so the rewrite can be undone
+      state.undoStack.push(state.draft);
+      state.draft = draft;
+      state.isLoading = false;
+      state.isRefining = false;
+      state.isConfirmingInsert = false;
+      state.error = '';
+      render();
+    },
+    setStreamingDraft: (text: string) => {
+      state.draft = text;
+      state.variants = [];
+      state.isComparing = false;
+      state.isEditing = false;
+      state.isLoading = false;
+      state.isStreaming = true;
+      render();
+    },
+    setVariants: (variants: ReplyVariant[]) => {
+      // Show the candidates side by side; the first one is the draft until the user picks
+      state.variants = variants;
+      state.draft = variants[0]?.text ?? '';
+      state.isComparing = variants.length > 1;
+      state.isLoading = false;
+      state.error = '';
+      render();
+    },
+    setLoading: (loading: boolean) => {
+      state.isLoading = loading;
+      state.isStreaming = false;
+      render();
+    },
+    setError: (message: string) => {
+      state.error = message;
+      state.isLoading = false;
+      state.isStreaming = false;
+      state.isRefining = false;
+      render();
+    },
+    setLocation: (label: string) => {
+      state.locationLabel = label;
+      render();
+    },
+    accept: () => pressAction('accept'),
+    regenerate: () => pressAction('regenerate'),
+    close
+  };
+
+  activeHandle = handle;
+  render();
+  return handle;
+}
+
+/**
+ * The preview card that is currently open, if any
+ */
+export function getActiveDraftPreview(): DraftPreviewHandle | null {
+  return activeHandle;
+}
@@ -0,0 +1,230 @@
+// AI Review Responder - Generation Options
+// Tone, length and language selects for a single generation, plus the reply template to use.
+// The Google "Bolt Reply" button opens them in a small dropdown; the universal panel renders
+// the same selects inline.
+
+import { REPLY_LANGUAGES, REPLY_LANGUAGE_LABELS, REPLY_LENGTHS, REPLY_TONES } from '../types';
+import type { GenerationPreferences, ReplyTemplate } from '../types';
+import { sanitizeGenerationPreferences } from '../utils/generation-preferences';
+import { escapeHtml } from '../utils/html';
+
+export interface GenerationOptionsMenuHandlers {
+  onChange: (preferences: GenerationPreferences) => void;
+  onGenerate: (preferences: GenerationPreferences) => void;
+  onTemplateChange?: (templateId: string) => void;
+  onInsertTemplate?: (template: ReplyTemplate) => void; // Straight into the preview, no credit spent
+}
+
+// Saved templates to pick from; the selected one is sent to the AI as instructions
+export interface GenerationOptionsMenuTemplates {
+  templates: ReplyTemplate[];
+  selectedId: string;
+}
+
+type PreferenceField = keyof GenerationPreferences;
+
+const HOST_ID = 'boltreply-generation-options-host';
+const MENU_WIDTH = 240;
+const MENU_GAP = 6;
+
+const FIELD_LABELS: Record<PreferenceField, string> = {
+  tone: 'Tone',
+  length: 'Length',
+  language: 'Language'
+};
+
+const FIELD_OPTIONS: Record<PreferenceField, ReadonlyArray<{ value: string; label: string }>> = {
+  tone: REPLY_TONES.map(tone => ({ value: tone, label: tone.charAt(0).toUpperCase() + tone.slice(1) })),
+  length: REPLY_LENGTHS.map(length => ({ value: length, label: length.charAt(0).toUpperCase() + length.slice(1) })),
+  language: REPLY_LANGUAGES.map(language => ({ value: language, label: REPLY_LANGUAGE_LABELS[language] }))
+};
+
+/**
+ * Markup for the three selects; an empty value means "use the business profile"
+ */
+export function getPreferenceSelectsHTML(preferences: GenerationPreferences): string {
+  return (Object.keys(FIELD_LABELS) as PreferenceField[]).map(field => `
+    <label class="pref-field">
+      <span class="pref-label">${FIELD_LABELS[field]}</span>
+      <select data-preference="${field}">
+        <option value="">Profile default</option>
+        ${FIELD_OPTIONS[field].map(option => `
+          <option value="${option.value}"${preferences[field] === option.value ? ' selected' : ''}>${option.label}</option>
+        `).join('')}
+      </select>
+    </label>
+  `).join('');
+}
+
+/**
+ * Markup for the template select; empty when there are no templates
+ */
+export function getTemplateSelectHTML(templates: ReplyTemplate[], selectedId: string): string {
+  if (templates.length === 0) {
+    return '';
+  }
+  return `
+    <label class="pref-field">
+      <span class="pref-label">Template</span>
+      <select data-template>
+        <option value="">None</option>
+        ${templates.map(template => `
+          <option value="${escapeHtml(template.id)}"${template.id === selectedId ? ' selected' : ''}>${escapeHtml(template.name)}</option>
+        `).join('')}
+      </select>
+    </label>
+  `;
+}
+
+export function readTemplateSelect(root: ParentNode): string {
+  return root.querySelector<HTMLSelectElement>('select[data-template]')?.value ?? '';
+}
+
+export function readPreferenceSelects(root: ParentNode): GenerationPreferences {
+  const values: Record<string, string> = {};
+  root.querySelectorAll<HTMLSelectElement>('select[data-preference]').forEach(select => {
+    const field = select.getAttribute('data-preference');
+    if (field && select.value) {
+      values[field] = select.value;
+    }
+  });
+  return sanitizeGenerationPreferences(values);
+}
+
+function getMenuCSS(): string {
+  return `
+    *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+    :host { all: initial; }
+    .menu {
+      position: fixed;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      width: ${MENU_WIDTH}px;
+      padding: 10px 12px;
+      background: #ffffff;
+      border: 1px solid #e2e8f0;
+      border-radius: 8px;
+      box-shadow: 0 8px 28px rgba(0,0,0,0.16);
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 12px;
+      color: #1a202c;
+      z-index: 2147483647;
+    }
+    .pref-field { display: flex; align-items: center; justify-content: space-between; gap: 8px; }
+    .pref-label { font-weight: 600; color: #374151; }
+    select {
+      width: 140px;
+      padding: 4px 6px;
+      border: 1px solid #d1d5db;
+      border-radius: 6px;
+      font-size: 12px;
+      font-family: inherit;
+      background: #fff;
+    }
+    .btn {
+      padding: 7px 10px;
+      border-radius: 6px;
+      border: none;
+      background: hsl(217, 91%, 60%);
+      color: #fff;
+      font-size: 12px;
+      font-weight: 600;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    .btn:hover { background: hsl(217, 91%, 50%); }
+    .btn-secondary { background: #f1f5f9; color: #374151; border: 1px solid #e2e8f0; }
+    .btn-secondary:hover { background: #e2e8f0; }
+    .btn:disabled { opacity: 0.5; cursor: not-allowed; }
+  `;
+}
+
+export function closeGenerationOptionsMenu(): void {
+  document.getElementById(HOST_ID)?.remove();
+}
+
+/**
+ * Open the dropdown under anchor. Changes are reported as they happen so they can be remembered.
+ */
+export function openGenerationOptionsMenu(
+  anchor: HTMLElement,
+  preferences: GenerationPreferences,
+  handlers: GenerationOptionsMenuHandlers,
+  templates: GenerationOptionsMenuTemplates = { templates: [], selectedId: '' }
+): void {
+  closeGenerationOptionsMenu();
+
+  const host = document.createElement('div');
+  host.id = HOST_ID;
+  document.body.appendChild(host);
+  const shadowRoot = host.attachShadow({ mode: 'open' });
+
+  const style = document.createElement('style');
+  style.textContent = getMenuCSS();
+  shadowRoot.appendChild(style);
+
+  const menu = document.createElement('div');
+  menu.className = 'menu';
+  menu.setAttribute('role', 'dialog');
+  menu.setAttribute('aria-label', 'Reply options');
+  const canInsertTemplate = templates.templates.length > 0 && Boolean(handlers.onInsertTemplate);
+  menu.innerHTML = `
+    ${getPreferenceSelectsHTML(preferences)}
+    ${getTemplateSelectHTML(templates.templates, templates.selectedId)}
+    <button class="btn" data-action="generate">Generate with these options</button>
+    ${canInsertTemplate ? `<button class="btn btn-secondary" data-action="insert-template" ${templates.selectedId ? '' : 'disabled'}>Insert template (no credit)</button>` : ''}
+  `;
+  shadowRoot.appendChild(menu);
+
+  const rect = anchor.getBoundingClientRect();
+  menu.style.left = `${Math.max(MENU_GAP, Math.min(rect.left, window.innerWidth - MENU_WIDTH - MENU_GAP))}px`;
+  menu.style.top = `${Math.max(MENU_GAP, Math.min(rect.bottom + MENU_GAP, window.innerHeight - menu.offsetHeight - MENU_GAP))}px`;
+
+  function close(): void {
+    document.removeEventListener('mousedown', handleOutsideClick, true);
+    document.removeEventListener('keydown', handleKeydown, true);
+    host.remove();
+  }
+
+  function handleOutsideClick(e: MouseEvent): void {
+    if (!e.composedPath().includes(host) && !e.composedPath().includes(anchor)) {
+      close();
+    }
+  }
+
+  function handleKeydown(e: KeyboardEvent): void {
+    if (e.key === 'Escape') {
+      close();
+    }
+  }
+
+  menu.addEventListener('change', (e) => {
+    if ((e.target as HTMLElement).matches('select[data-template]')) {
+      const templateId = readTemplateSelect(menu);
+      const insertButton = menu.querySelector<HTMLButtonElement>('[data-action="insert-template"]');
+      if (insertButton) {
+        insertButton.disabled = !templateId;
+      }
+      handlers.onTemplateChange?.(templateId);
+      return;
+    }
+    handlers.onChange(readPreferenceSelects(menu));
+  });
+  menu.addEventListener('click', (e) => {
+    const action = (e.target as HTMLElement).closest('[data-action]')?.getAttribute('data-action');
+    if (action === 'generate') {
+      const selected = readPreferenceSelects(menu);
+      close();
+      handlers.onGenerate(selected);
+    } else if (action === 'insert-template') {
+      const template = templates.templates.find(candidate => candidate.id === readTemplateSelect(menu));
+      close();
+      if (template) {
+        handlers.onInsertTemplate?.(template);
+      }
+    }
+  });
+  document.addEventListener('mousedown', handleOutsideClick, true);
+  document.addEventListener('keydown', handleKeydown, true);
+}
@@ -2,6 +2,54 @@
 // This script runs ONLY in Google Business review iframes (automatically injected by manifest.json)
 // URL pattern: https://www.google.com/local/business/*/customers/reviews*
 
+import { createBatchReplyController } from './batch-reply';
+import { openDraftPreview, getActiveDraftPreview } from './draft-preview';
+import type { DraftPreviewHandle, DraftPreviewOptions } from './draft-preview';
+import { streamGeneration } from './stream-client';
+import type { StreamHandle } from './stream-client';
+import {
+  DEFAULT_SELECTOR_MANIFEST,
+  loadSelectorManifest,
+  onSelectorManifestChange,
+  queryFirstMatch,
+  matchesAnySelector
+} from '../utils/selectors';
+import {
+  buildExtractionReport,
+  createExtractionTracer,
+  downloadExtractionReport,
+  findSnippetRoot
+} from '../utils/diagnostics';
+import type { ExtractionTracer } from '../utils/diagnostics';
+import { extractRating } from '../utils/rating';
+import { tagReviewLanguage } from '../utils/language-detection';
+import { extractGoogleReviewDetails } from '../utils/review-data';
+import { assessEscalation, requestDeEscalationTemplate } from '../utils/escalation';
+import { lintReply } from '../utils/reply-linter';
+import { getReplyTemplates, onReplyTemplatesChange, renderTemplateForReview } from '../utils/reply-templates';
+import { getSettings, onSettingsChange } from '../utils/settings';
+import { hideDebugOverlay, showDebugOverlay } from './debug-overlay';
+import { promptForRating } from './rating-prompt';
+import { openGenerationOptionsMenu } from './generation-options-menu';
+import { getGenerationPreferences, saveGenerationPreferences } from '../utils/generation-preferences';
+import { parseContentMessage, sendMessage } from '../utils/messaging';
+import type { FrameMessage } from '../utils/messaging';
+import type {
+  AIResponsePayload,
+  AIResponseSuccessPayload,
+  ExtensionSettings,
+  ExtractionReport,
+  GenerationPreferences,
+  PageLocationState,
+  RatingResult,
+  RefineInstruction,
+  RatingSource,
+  ReplyTemplate,
+  ReviewData,
+  SelectorManifest,
+  ShortcutCommand
+} from '../types';
+
 (() => {
   // Global state for dynamic injection system
   let lastKnownUrl = window.location.href;
@@ -12,34 +60,185 @@
   let debounceTimer: number | null = null;
   let lastInjectionTime = 0;
   let isInjecting = false; // Prevent concurrent injections
+  let lastPresentedRequestId: string | null = null;
+  let activeStream: StreamHandle | null = null;
+  // The rating the user confirmed for the review on screen, when the page didn't show one
+  let confirmedRating: { reviewText: string; rating: RatingResult } | null = null;
+  // Google selectors; the bundled set until the cached manifest loads
+  let selectors: SelectorManifest['google'] = DEFAULT_SELECTOR_MANIFEST.google;
+  let selectorVersion = DEFAULT_SELECTOR_MANIFEST.version;
+  let debugOverlayEnabled = false;
+  let confirmEscalatedInsert = true;
+  let lintLevels: ExtensionSettings['lintLevels'] = {};
+  let promptOverrideId: string | undefined;
+  // Tone, length and language last picked on this site; empty means the business profile decides
+  let generationPreferences: GenerationPreferences = {};
+  // Saved reply templates; the one picked in the options menu goes to the AI as instructions,
+  // for the review it was picked on only
+  let replyTemplates: ReplyTemplate[] = [];
+  let instructionTemplate: { id: string; reviewText: string } | null = null;
   const INJECTION_DEBOUNCE_MS = 1000; // Prevent rapid re-injection
   const URL_CHECK_INTERVAL_MS = 500;
+  const REPLY_VARIANT_COUNT = 3; // Candidates requested by "More options"
+  // Rating strategies in the order extractRating tries them, with their diagnostic confidence
+  const RATING_STRATEGIES: ReadonlyArray<[RatingSource, string, number]> = [
+    ['aria-label', 'manifest aria-label', 0.95],
+    ['filled-stars', 'filled star count', 0.8],
+    ['page-scan', 'rating-like aria-label in the review', 0.6]
+  ];
+
+  interface ToastAction {
+    label: string;
+    onClick: () => void;
+  }
+
+  // Batch "reply to all" mode walks the reply flow with Google's skip button
+  const batchReply = createBatchReplyController({
+    extractReviewData,
+    findReplyTextarea: () => findReplyTextarea(),
+    findSkipButton: () => queryFirstMatch(document, selectors.skipButton),
+    getGenerationPreferences: () => generationPreferences,
+    insertResponse: insertGeneratedResponse,
+    lintDraft: (draft, reviewData) => lintReply(draft, { reviewerName: reviewData.reviewer_name, levels: lintLevels }),
+    shouldConfirmEscalatedInsert: () => confirmEscalatedInsert
+  });
+
+  // The top frame's content script parses these; Google's page sees them too, so they carry nothing private
+  function postToParent(message: FrameMessage) {
+    window.parent.postMessage(message, '*');
+  }
 
   // Notify parent frame that iframe script is ready
   if (window.parent && window.parent !== window) {
-    window.parent.postMessage({
+    postToParent({
       type: 'IFRAME_READY',
-      data: {
+      payload: {
         url: window.location.href,
         timestamp: new Date().toISOString()
       }
-    }, '*');
+    });
   }
 
-  // Listen for messages from background script (for progress updates, etc.)
-  chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  // Listen for messages from background script (results, pushes from the popup and side panel)
+  chrome.runtime.onMessage.addListener((rawMessage: unknown, sender, sendResponse) => {
+    const parsed = parseContentMessage(rawMessage);
+    if (!parsed.ok) {
+      sendResponse(parsed.error);
+      return false;
+    }
+
+    const message = parsed.message;
     switch (message.type) {
       case 'AI_RESPONSE_RESULT':
-        handleAIResponseResult(message.data);
-        break;
+        // Batch drafts are staged in the queue, never inserted as they arrive
+        if (!batchReply.isActive()) {
+          handleAIResponseResult(message.payload);
+        }
+        sendResponse({ handled: true });
+        return false;
+
+      case 'INSERT_RESPONSE': {
+        // Only the frame that owns a reply box answers, so the popup can tell when nothing was found
+        const replyElement = findReplyTextarea();
+        if (!replyElement) {
+          return false;
+        }
+        getOrOpenDraftPreview(replyElement).setDraft(message.payload.text);
+        sendResponse({ handled: true });
+        return false;
+      }
 
-      case 'PROGRESS_UPDATE':
-        handleProgressUpdate(message.data);
-        break;
+      case 'QUEUED_REPLY_READY': {
+        // Stage a reply generated after reconnecting, but only if its review is still on screen
+        const { payload } = message;
+        const replyElement = findReplyTextarea();
+        if (!replyElement || extractReviewData()?.review_text !== payload.reviewData.review_text) {
+          return false;
+        }
+        presentDraft(replyElement, payload.result);
+        showSuccessMessage('Your queued reply is ready.');
+        sendResponse({ handled: true });
+        return false;
+      }
+
+      case 'EXTRACT_REVIEW': {
+        // For the side panel; only a frame with an open reply box has a review to offer
+        const reviewData = findReplyTextarea() ? getConfirmedReviewData() : null;
+        if (!reviewData) {
+          return false;
+        }
+        sendResponse({ handled: true, reviewData });
+        return false;
+      }
+
+      case 'RUN_SHORTCUT':
+        sendResponse({ handled: runShortcut(message.payload.command) });
+        return false;
+
+      case 'REPLY_TO_SELECTION':
+        // Sent to the top frame, where the universal panel would live; Google has none
+        return false;
     }
+  });
 
-    sendResponse({ success: true });
+  /**
+   * Keyboard shortcuts act on the reply box in focus, or the first one in this frame, and its draft.
+   * The Bolt Reply panel isn't used on Google, so there is nothing to toggle here.
+   */
+  function runShortcut(command: ShortcutCommand): boolean {
+    switch (command) {
+      case 'generate-reply': {
+        const focused = document.activeElement;
+        const replyElement = focused instanceof HTMLElement && isReplyTextarea(focused) ? focused : findReplyTextarea();
+        if (!replyElement || batchReply.isActive()) {
+          return false;
+        }
+        generateAIReply(replyElement);
+        return true;
+      }
+      case 'accept-draft':
+        return getActiveDraftPreview()?.accept() ?? false;
+      case 'regenerate-draft':
+        return getActiveDraftPreview()?.regenerate() ?? false;
+      default:
+        return false;
+    }
+  }
+
+  // Swap in the cached selector manifest, and any newer one the service worker fetches later
+  const applySelectorManifest = (manifest: SelectorManifest) => {
+    if (manifest.google === selectors) return;
+    selectors = manifest.google;
+    selectorVersion = manifest.version;
+    if (hasCustomersReviews) {
+      debouncedInjectAIButtons();
+    }
+  };
+  loadSelectorManifest().then(applySelectorManifest);
+  onSelectorManifestChange(applySelectorManifest);
+
+  // The debug overlay follows the Settings toggle in the popup
+  const applyDebugOverlaySetting = (enabled: boolean) => {
+    debugOverlayEnabled = enabled;
+    if (enabled) {
+      refreshDebugOverlay();
+    } else {
+      hideDebugOverlay();
+    }
+  };
+  const applySettings = (settings: ExtensionSettings) => {
+    applyDebugOverlaySetting(settings.debugOverlay);
+    confirmEscalatedInsert = settings.confirmEscalatedInsert;
+    lintLevels = settings.lintLevels;
+    promptOverrideId = settings.promptOverrideId ?? undefined;
+  };
+  getSettings().then(applySettings);
+  onSettingsChange(applySettings);
+  getGenerationPreferences(window.location.hostname).then(preferences => {
+    generationPreferences = preferences;
   });
+  getReplyTemplates().then(templates => { replyTemplates = templates; }).catch(() => undefined);
+  onReplyTemplatesChange(templates => { replyTemplates = templates; });
 
   // Determine if this is a single review reply iframe or multi-review iframe
   const currentUrl = window.location.href;
@@ -84,12 +283,11 @@
 
       mutations.forEach(mutation => {
         if (mutation.type === 'childList') {
-          // Check for our specific textarea (jsname="YPqjbf") being added or removed
+          // Check for Google's reply textarea being added or removed
           mutation.addedNodes.forEach(node => {
             if (node.nodeType === Node.ELEMENT_NODE) {
               const element = node as Element;
-              if (element.matches('[jsname="YPqjbf"]') ||
-                  element.querySelector('[jsname="YPqjbf"]')) {
+              if (isReplyTextarea(element) || findReplyTextarea(element)) {
                 shouldTriggerScan = true;
                 relevantChanges.push('textarea_added');
               }
@@ -99,8 +297,7 @@
           mutation.removedNodes.forEach(node => {
             if (node.nodeType === Node.ELEMENT_NODE) {
               const element = node as Element;
-              if (element.matches('[jsname="YPqjbf"]') ||
-                  element.querySelector('[jsname="YPqjbf"]')) {
+              if (isReplyTextarea(element) || findReplyTextarea(element)) {
                 shouldTriggerScan = true;
                 relevantChanges.push('textarea_removed');
               }
@@ -128,7 +325,7 @@
           // Check if our specific textarea's attributes changed
           if (mutation.target.nodeType === Node.ELEMENT_NODE) {
             const element = mutation.target as Element;
-            if (element.matches('[jsname="YPqjbf"]') &&
+            if (isReplyTextarea(element) &&
                 ['id', 'class', 'placeholder', 'jsname'].includes(mutation.attributeName || '')) {
               shouldTriggerScan = true;
               relevantChanges.push('textarea_attribute_changed');
@@ -226,6 +423,10 @@
       // Clean up orphaned buttons first
       cleanupOrphanedButtons();
 
+      if (debugOverlayEnabled) {
+        refreshDebugOverlay();
+      }
+
       // Find all textareas that need enhancement
       const textareas = findAllReplyTextareas();
 
@@ -252,12 +453,11 @@
   }
 
   function findAllReplyTextareas(): HTMLTextAreaElement[] {
-    // Use only the specific Google selector provided by the user
-    const specificSelector = '[jsname="YPqjbf"]';
+    // Use only the reply textarea selectors from the selector manifest
     const foundTextareas: HTMLTextAreaElement[] = [];
 
     try {
-      const element = document.querySelector(specificSelector) as HTMLTextAreaElement;
+      const element = findReplyTextarea() as HTMLTextAreaElement | null;
 
       if (element && (element.tagName === 'TEXTAREA' || element.hasAttribute('contenteditable'))) {
         // Verify this is actually a reply textarea and not already processed
@@ -273,7 +473,7 @@
   }
 
   function isLikelyReplyTextarea(element: HTMLElement): boolean {
-    // Since we're using the specific jsname="YPqjbf" selector, we can be more lenient
+    // Since we're using the manifest's reply textarea selectors, we can be more lenient
     // but still verify it's actually a reply-related textarea
 
     // Check if it's a textarea or contenteditable
@@ -281,8 +481,8 @@
       return false;
     }
 
-    // Check if it has the specific jsname attribute we expect
-    if (element.getAttribute('jsname') !== 'YPqjbf') {
+    // Check if it matches the reply textarea selectors we expect
+    if (!isReplyTextarea(element)) {
       return false;
     }
 
@@ -298,7 +498,7 @@
     const isInForm = element.closest('form') !== null;
 
     // Since we found it with the specific selector, it's likely valid, but let's be thorough
-    return hasReplyKeyword || isInForm || element.getAttribute('jsname') === 'YPqjbf';
+    return hasReplyKeyword || isInForm || isReplyTextarea(element);
   }
 
   function hasAssociatedButton(textarea: HTMLElement): boolean {
@@ -367,11 +567,10 @@
   }
 
   function findAssociatedTextarea(button: Element): HTMLElement | null {
-    // First, try to find the specific textarea with jsname="YPqjbf" (Google's reply textarea)
-    const googleReplyTextarea = document.querySelector('textarea[jsname="YPqjbf"]') ||
-                               document.querySelector('[jsname="YPqjbf"]');
+    // First, try to find Google's reply textarea
+    const googleReplyTextarea = findReplyTextarea();
     if (googleReplyTextarea) {
-      return googleReplyTextarea as HTMLElement;
+      return googleReplyTextarea;
     }
 
     // Fallback: Try to find textarea in the same container or nearby
@@ -415,6 +614,9 @@
       if (injectionPoint) {
         injectButtonAtPoint(button, injectionPoint, textarea);
         injectedButtons.add(button);
+        injectOptionsButton(injectionPoint.container, button, textarea);
+        injectRefineButton(injectionPoint.container, button, textarea);
+        injectBatchButton(injectionPoint.container, button);
         return true;
       } else {
         return false;
@@ -514,11 +716,111 @@
     return button;
   }
 
+  function injectBatchButton(container: HTMLElement, aiButton: HTMLElement) {
+    // Batch mode needs Google's skip button to step through the unanswered reviews
+    if (!queryFirstMatch(container, selectors.skipButton) || container.querySelector('.ai-batch-button')) {
+      return;
+    }
+
+    const button = document.createElement('button');
+    button.className = 'ai-batch-button VfPpkd-LgbsSe VfPpkd-LgbsSe-OWXEXe-dgl2Hf nCP5yc AjY5Oe DuMIQc LQeN7';
+    button.textContent = 'Reply to all';
+    button.title = 'Draft replies for every unanswered review';
+    button.style.cssText = `
+      margin: 0 8px 0 0;
+      background: transparent;
+      color: hsl(217, 91%, 50%);
+      border: 1px solid hsl(217, 91%, 60%);
+      border-radius: 4px;
+      cursor: pointer;
+    `;
+
+    button.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      batchReply.open();
+    });
+
+    container.insertBefore(button, aiButton);
+  }
+
+  function injectOptionsButton(container: HTMLElement, aiButton: HTMLElement, textarea: HTMLElement) {
+    // A caret next to Bolt Reply opens the tone/length/language choices for the next generation
+    if (container.querySelector('.ai-options-button')) {
+      return;
+    }
+
+    const button = document.createElement('button');
+    button.className = 'ai-options-button VfPpkd-LgbsSe VfPpkd-LgbsSe-OWXEXe-dgl2Hf nCP5yc AjY5Oe DuMIQc LQeN7';
+    button.textContent = '▾';
+    button.title = 'Reply options: tone, length, language and templates';
+    button.setAttribute('aria-label', 'Reply options');
+    button.style.cssText = `
+      margin: 0 8px 0 -6px;
+      min-width: 28px;
+      padding: 0 6px;
+      background: hsl(217, 91%, 60%);
+      color: white;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+    `;
+
+    button.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      openGenerationOptionsMenu(button, generationPreferences, {
+        onChange: (preferences) => {
+          generationPreferences = preferences;
+          saveGenerationPreferences(window.location.hostname, preferences)
+            .catch((saveError: unknown) => console.error('Generation preferences save error:', saveError));
+        },
+        onGenerate: () => generateAIReply(textarea),
+        onTemplateChange: (templateId) => {
+          const reviewText = extractReviewData()?.review_text;
+          instructionTemplate = templateId && reviewText !== undefined ? { id: templateId, reviewText } : null;
+        },
+        onInsertTemplate: (template) => insertTemplate(textarea, template)
+      }, { templates: replyTemplates, selectedId: getInstructionTemplateId(extractReviewData()) });
+    });
+
+    container.insertBefore(button, aiButton.nextSibling);
+  }
+
+  function injectRefineButton(container: HTMLElement, aiButton: HTMLElement, textarea: HTMLElement) {
+    // Rewrites whatever is in the reply box: shorter, warmer, fixed grammar...
+    if (container.querySelector('.ai-refine-button')) {
+      return;
+    }
+
+    const button = document.createElement('button');
+    button.className = 'ai-refine-button VfPpkd-LgbsSe VfPpkd-LgbsSe-OWXEXe-dgl2Hf nCP5yc AjY5Oe DuMIQc LQeN7';
+    button.textContent = 'Refine';
+    button.title = 'Rewrite the reply in the box: shorter, warmer, fix grammar...';
+    button.style.cssText = `
+      margin: 0 8px 0 0;
+      background: transparent;
+      color: hsl(217, 91%, 50%);
+      border: 1px solid hsl(217, 91%, 60%);
+      border-radius: 4px;
+      cursor: pointer;
+    `;
+
+    button.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      openRefinePreview(textarea);
+    });
+
+    const optionsButton = container.querySelector('.ai-options-button');
+    container.insertBefore(button, (optionsButton ?? aiButton).nextSibling);
+  }
+
   function findBestInjectionPoint(textarea: HTMLElement): { container: HTMLElement; reference: HTMLElement | null } | null {
     // Strategy 1: Look for Google-specific button container
-    const googleContainer = document.querySelector('div.FkJOzc.lgfhc.LW6Hp') as HTMLElement;
+    const googleContainer = queryFirstMatch(document, selectors.actionContainer);
     if (googleContainer) {
-      const skipButton = googleContainer.querySelector('button[jsname="dmDvRc"]') as HTMLElement;
+      const skipButton = queryFirstMatch(googleContainer, selectors.skipButton);
       if (skipButton) {
         return { container: googleContainer, reference: skipButton };
       }
@@ -587,60 +889,41 @@
     debouncedInjectAIButtons();
   }
 
-  function generateAIReply(replyElement: HTMLElement) {
+  function generateAIReply(replyElement: HTMLElement, variantCount?: number) {
     try {
       // Extract review data using the provided selectors
-      const reviewData = extractReviewData();
+      const tracer = createExtractionTracer();
+      const reviewData = extractReviewData(tracer);
       if (!reviewData) {
         console.error('❌ Could not extract review data');
-        showErrorMessage('Could not extract review data. Please try again.');
+        showErrorMessage('Could not extract review data. Please try again.', getReportActions(tracer));
         return;
       }
 
-      // Show loading state
-      showLoadingState(replyElement);
+      if (reviewData.review_rating !== undefined) {
+        requestGeneration(replyElement, reviewData, variantCount);
+        return;
+      }
 
-      // Send message to background script to generate AI response
-      chrome.runtime.sendMessage({
-        type: 'GENERATE_AI_RESPONSE',
-        data: {
-          reviewData: reviewData
-        }
-      }, (response) => {
-        if (response && response.success) {
-          // Success - insert the generated response
-          const aiResponse = response.aiResponse || '';
-
-          // Only insert if we have a valid response or if textarea is empty
-          // This prevents overwriting a valid response with an empty one
-          const currentValue = replyElement.tagName === 'TEXTAREA' || replyElement.tagName === 'INPUT'
-            ? (replyElement as HTMLInputElement | HTMLTextAreaElement).value
-            : replyElement.textContent || '';
-
-          if (aiResponse.length > 0 || currentValue.length === 0) {
-            insertGeneratedResponse(replyElement, aiResponse);
-          }
+      // The rating couldn't be read - reuse the user's answer for this review, otherwise ask
+      if (confirmedRating && confirmedRating.reviewText === reviewData.review_text) {
+        const { rating } = confirmedRating;
+        requestGeneration(replyElement, {
+          ...reviewData,
+          review_rating: rating.status === 'known' ? rating.value : undefined
+        }, variantCount);
+        return;
+      }
 
-          // Notify parent frame
-          if (window.parent && window.parent !== window) {
-            window.parent.postMessage({
-              type: 'REPLY_GENERATED',
-              data: {
-                replyLength: aiResponse.length,
-                reviewTextLength: reviewData.review_text ? reviewData.review_text.length : 0,
-                confidence: response.confidence,
-                processingTime: response.processingTime,
-                tokensUsed: response.tokensUsed,
-                timestamp: new Date().toISOString()
-              }
-            }, '*');
-          }
-        } else {
-          // Error handling
-          console.error('❌ Error generating AI response:', response?.error);
-          showErrorMessage(response?.error || 'Failed to generate AI response');
-          hideLoadingState(replyElement);
+      promptForRating(replyElement).then((rating) => {
+        if (!rating) {
+          return;
         }
+        confirmedRating = { reviewText: reviewData.review_text, rating };
+        requestGeneration(replyElement, {
+          ...reviewData,
+          review_rating: rating.status === 'known' ? rating.value : undefined
+        }, variantCount);
       });
 
     } catch (error) {
@@ -650,6 +933,278 @@
     }
   }
 
+  // The instruction template picked for this review; a pick made on another review is dropped
+  function getInstructionTemplateId(reviewData: ReviewData | null): string {
+    if (instructionTemplate && instructionTemplate.reviewText !== reviewData?.review_text) {
+      instructionTemplate = null;
+    }
+    return instructionTemplate?.id ?? '';
+  }
+
+  function requestGeneration(replyElement: HTMLElement, reviewData: ReviewData, variantCount?: number) {
+    const templateId = getInstructionTemplateId(reviewData);
+    const template = replyTemplates.find(candidate => candidate.id === templateId);
+    if (!template) {
+      sendGenerationRequest(replyElement, reviewData, variantCount);
+      return;
+    }
+    renderTemplateForReview(template, reviewData)
+      .then(customPrompt => sendGenerationRequest(replyElement, reviewData, variantCount, customPrompt))
+      .catch((error: unknown) => showTemplateError(replyElement, error));
+  }
+
+  function showTemplateError(replyElement: HTMLElement, error: unknown) {
+    console.error('❌ Error loading reply template:', error);
+    hideLoadingState(replyElement);
+    const message = 'Could not load the reply template. Please try again.';
+    const preview = getActiveDraftPreview();
+    if (preview) {
+      preview.setError(message);
+    } else {
+      showErrorMessage(message);
+    }
+  }
+
+  function sendGenerationRequest(replyElement: HTMLElement, reviewData: ReviewData, variantCount?: number, customPrompt?: string) {
+    try {
+      // Show loading state
+      showLoadingState(replyElement);
+      getOrOpenDraftPreview(replyElement).setLoading(true);
+
+      const reviewTextLength = reviewData.review_text ? reviewData.review_text.length : 0;
+
+      if (variantCount) {
+        // Variants arrive together, so there is nothing to stream
+        sendMessage('GENERATE_AI_RESPONSE', {
+          reviewData: reviewData,
+          variants: variantCount,
+          preferences: generationPreferences,
+          promptId: promptOverrideId,
+          customPrompt
+        }).then(response => handleGenerationResponse(replyElement, response, reviewTextLength));
+        return;
+      }
+
+      // Stream the reply into the preview card as it is written
+      activeStream?.cancel();
+      activeStream = streamGeneration({ reviewData, preferences: generationPreferences, promptId: promptOverrideId, customPrompt }, {
+        onProgress: (text) => getActiveDraftPreview()?.setStreamingDraft(text),
+        onResult: (payload) => {
+          activeStream = null;
+          handleGenerationResponse(replyElement, payload, reviewTextLength);
+        }
+      });
+
+    } catch (error) {
+      console.error('❌ Error in sendGenerationRequest:', error);
+      showErrorMessage('An unexpected error occurred. Please try again.');
+      hideLoadingState(replyElement);
+    }
+  }
+
+  function handleGenerationResponse(replyElement: HTMLElement, response: AIResponsePayload | undefined, reviewTextLength: number) {
+    if (response && response.success) {
+      // Success - stage the draft in the preview card for the user to review
+      presentDraft(replyElement, response);
+
+      // Notify parent frame
+      if (window.parent && window.parent !== window) {
+        postToParent({
+          type: 'REPLY_GENERATED',
+          payload: {
+            replyLength: (response.aiResponse || '').length,
+            reviewTextLength,
+            confidence: response.confidence,
+            processingTime: response.processingTime,
+            tokensUsed: response.tokensUsed,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+      return;
+    }
+
+    hideLoadingState(replyElement);
+
+    if (response?.errorType === 'CANCELLED') {
+      // Keep whatever was written so far; the user can still accept, edit or regenerate it
+      getActiveDraftPreview()?.setError('Generation stopped. The partial reply is kept above.');
+      return;
+    }
+
+    if (response?.errorType === 'QUEUED') {
+      // Offline - the service worker retries and delivers the draft later
+      getActiveDraftPreview()?.setError(response.error);
+      return;
+    }
+
+    // Error handling
+    console.error('❌ Error generating AI response:', response?.error);
+    showErrorMessage(response?.error || 'Failed to generate AI response');
+    getActiveDraftPreview()?.setError(response?.error || 'Failed to generate AI response');
+  }
+
+  function findReplyTextarea(root: ParentNode = document): HTMLElement | null {
+    return queryFirstMatch(root, selectors.replyTextarea);
+  }
+
+  function isReplyTextarea(element: Element): boolean {
+    return matchesAnySelector(element, selectors.replyTextarea);
+  }
+
+  function getReplyText(replyElement: HTMLElement): string {
+    return replyElement.tagName === 'TEXTAREA' || replyElement.tagName === 'INPUT'
+      ? (replyElement as HTMLInputElement | HTMLTextAreaElement).value
+      : replyElement.textContent || '';
+  }
+
+  function getOrOpenDraftPreview(replyElement: HTMLElement): DraftPreviewHandle {
+    const existing = getActiveDraftPreview();
+    if (existing) {
+      return existing;
+    }
+
+    // Capture what the user typed before generation so the card can diff against it
+    return openGoogleDraftPreview(getDraftPreviewOptions(replyElement, getReplyText(replyElement)));
+  }
+
+  function openGoogleDraftPreview(options: DraftPreviewOptions): DraftPreviewHandle {
+    const preview = openDraftPreview(options);
+    showReplyLocation(preview);
+    return preview;
+  }
+
+  // Agency accounts answer for several locations; show the one the service worker matched to this page
+  function showReplyLocation(preview: DraftPreviewHandle): void {
+    sendMessage('GET_BUSINESS_LOCATIONS', { url: window.location.href }).then((response) => {
+      if (!response.success || response.locations.length < 2) return;
+      preview.setLocation(describeReplyLocation(response));
+    });
+  }
+
+  function describeReplyLocation(state: PageLocationState): string {
+    const active = state.locations.find(location => location.id === state.activeId);
+    if (!active) {
+      return 'No location matches this page, so your main profile is used.';
+    }
+    return state.isOverride
+      ? `Replies are written as ${active.business_name} (chosen manually for this page).`
+      : `Replies are written as ${active.business_name}.`;
+  }
+
+  function getDraftPreviewOptions(replyElement: HTMLElement, existingText: string): DraftPreviewOptions {
+    const reviewData = getConfirmedReviewData();
+    const escalation = reviewData ? assessEscalation(reviewData) : null;
+
+    return {
+      anchor: replyElement,
+      existingText,
+      escalation: reviewData && escalation?.needsEscalation ? {
+        reasons: escalation.reasons,
+        confirmInsert: confirmEscalatedInsert,
+        onUseTemplate: () => {
+          requestDeEscalationTemplate(reviewData.reviewer_name)
+            .then(template => getActiveDraftPreview()?.setRefinedDraft(template))
+            .catch((error: unknown) => {
+              console.error('❌ Error loading de-escalation template:', error);
+              getActiveDraftPreview()?.setError('Could not load the de-escalation template. Please try again.');
+            });
+        }
+      } : undefined,
+      lint: (draft) => lintReply(draft, { reviewerName: reviewData?.reviewer_name, levels: lintLevels }),
+      onAccept: (text) => {
+        insertGeneratedResponse(replyElement, text);
+        // Templates and refined replies never pass through generation, where escalations are logged
+        if (reviewData && escalation?.needsEscalation) {
+          sendMessage('TRACK_ESCALATION', { reviewData });
+        }
+      },
+      onRegenerate: () => generateAIReply(replyElement),
+      onRequestVariants: () => generateAIReply(replyElement, REPLY_VARIANT_COUNT),
+      onRefine: (draft, instruction, detail) => refineDraft(draft, instruction, detail),
+      onCancel: () => activeStream?.cancel(),
+      onDiscard: () => {
+        activeStream?.cancel();
+        hideLoadingState(replyElement);
+      }
+    };
+  }
+
+  function insertTemplate(replyElement: HTMLElement, template: ReplyTemplate) {
+    // Templates are filled locally and staged like any draft, so inserting one costs no credit
+    renderTemplateForReview(template, getConfirmedReviewData())
+      .then(text => {
+        activeStream?.cancel();
+        openGoogleDraftPreview({ ...getDraftPreviewOptions(replyElement, ''), initialDraft: text });
+      })
+      .catch((error: unknown) => showTemplateError(replyElement, error));
+  }
+
+  function openRefinePreview(replyElement: HTMLElement) {
+    // Refine the reply already in Google's box, e.g. one inserted earlier
+    const text = getReplyText(replyElement).trim();
+    if (!text) {
+      showErrorMessage('Write or generate a reply first, then refine it.');
+      return;
+    }
+    openGoogleDraftPreview({ ...getDraftPreviewOptions(replyElement, ''), initialDraft: text });
+  }
+
+  /**
+   * The review on screen, with the rating the user confirmed when the page doesn't show one
+   */
+  function getConfirmedReviewData(): ReviewData | null {
+    const extracted = extractReviewData();
+    if (!extracted || extracted.review_rating !== undefined || confirmedRating?.reviewText !== extracted.review_text) {
+      return extracted;
+    }
+    const { rating } = confirmedRating;
+    return { ...extracted, review_rating: rating.status === 'known' ? rating.value : undefined };
+  }
+
+  function refineDraft(draft: string, instruction: RefineInstruction, detail?: string) {
+    const preview = getActiveDraftPreview();
+    const reviewData = getConfirmedReviewData();
+    if (!preview) {
+      return;
+    }
+    if (!reviewData) {
+      preview.setError('Could not read the review to refine this reply.');
+      return;
+    }
+
+    preview.setLoading(true);
+    sendMessage('REFINE_AI_RESPONSE', { reviewData, draft, instruction, detail, preferences: generationPreferences }).then((response) => {
+      if (response.success && response.aiResponse) {
+        preview.setRefinedDraft(response.aiResponse);
+      } else {
+        preview.setError((!response.success && response.error) || 'Failed to refine the reply.');
+      }
+    });
+  }
+
+  function presentDraft(replyElement: HTMLElement, payload: AIResponseSuccessPayload) {
+    // The result arrives both as the sendMessage reply and as a pushed AI_RESPONSE_RESULT
+    if (payload.requestId === lastPresentedRequestId) {
+      return;
+    }
+    lastPresentedRequestId = payload.requestId;
+
+    hideLoadingState(replyElement);
+    const preview = getOrOpenDraftPreview(replyElement);
+
+    if (!payload.aiResponse) {
+      preview.setError('The AI returned an empty reply. Try regenerating.');
+      return;
+    }
+
+    if (payload.variants && payload.variants.length > 1) {
+      preview.setVariants(payload.variants);
+    } else {
+      preview.setDraft(payload.aiResponse);
+    }
+  }
+
   function showLoadingState(replyElement: HTMLElement) {
     // Disable the button and show loading state
     const button = document.querySelector('.ai-review-button') as HTMLElement;
@@ -704,7 +1259,7 @@
     replyElement.focus();
   }
 
-  function showErrorMessage(message: string) {
+  function showErrorMessage(message: string, actions: ToastAction[] = []) {
     // Create a temporary error message
     const errorDiv = document.createElement('div');
     errorDiv.textContent = `❌ ${message}`;
@@ -724,46 +1279,97 @@
       backdrop-filter: blur(12px);
     `;
 
+    // Optional action links, e.g. reporting a page we could not read
+    if (actions.length > 0) {
+      const actionRow = document.createElement('div');
+      actionRow.style.cssText = 'display: flex; gap: 12px; margin-top: 8px;';
+      actions.forEach(action => {
+        const link = document.createElement('button');
+        link.textContent = action.label;
+        link.style.cssText = 'background: none; border: none; padding: 0; color: white; font: inherit; font-weight: 600; text-decoration: underline; cursor: pointer;';
+        link.addEventListener('click', () => {
+          errorDiv.remove();
+          action.onClick();
+        });
+        actionRow.appendChild(link);
+      });
+      errorDiv.appendChild(actionRow);
+    }
+
     document.body.appendChild(errorDiv);
 
-    // Remove after 5 seconds
+    // Remove after 5 seconds, or 10 when there is something to click
     setTimeout(() => {
       if (errorDiv.parentNode) {
         errorDiv.remove();
       }
-    }, 5000);
+    }, actions.length > 0 ? 10000 : 5000);
+  }
+
+  // ==================== EXTRACTION DIAGNOSTICS ====================
+
+  function buildBrokenPageReport(tracer: ExtractionTracer): ExtractionReport {
+    const located = Object.values(tracer.getElements()).filter((element): element is Element => Boolean(element));
+    return buildExtractionReport(tracer.getTrace(), findSnippetRoot(located), {
+      platform: 'Google',
+      selectorVersion
+    });
+  }
+
+  function getReportActions(tracer: ExtractionTracer): ToastAction[] {
+    return [
+      { label: 'Send report', onClick: () => sendBrokenPageReport(buildBrokenPageReport(tracer)) },
+      { label: 'Save report', onClick: () => downloadExtractionReport(buildBrokenPageReport(tracer)) }
+    ];
+  }
+
+  function sendBrokenPageReport(report: ExtractionReport) {
+    sendMessage('REPORT_BROKEN_PAGE', report).then((response) => {
+      if (!response.success) {
+        showErrorMessage('Could not send the report. Save it and email it to support instead.', [
+          { label: 'Save report', onClick: () => downloadExtractionReport(report) }
+        ]);
+        return;
+      }
+      showSuccessMessage('Thanks! The report was sent to our support team.');
+    });
+  }
+
+  function refreshDebugOverlay() {
+    const tracer = createExtractionTracer();
+    extractReviewData(tracer);
+    const elements = tracer.getElements();
+    showDebugOverlay(tracer.getTrace().fields.map(result => ({
+      result,
+      element: elements[result.field]
+    })));
   }
 
-  function handleAIResponseResult(data: any) {
+  function handleAIResponseResult(data: AIResponsePayload | undefined) {
     try {
       // Find the associated textarea/button
       const button = document.querySelector('.ai-review-button') as HTMLElement;
 
       const textarea = button ? findAssociatedTextarea(button) : null;
 
-      if (data && data.success && data.aiResponse && typeof data.aiResponse === 'string') {
-        // Success - insert the response
+      if (data && data.success && typeof data.aiResponse === 'string') {
+        // Success - stage the response in the preview card
         if (textarea) {
-          // Check current textarea content to avoid unnecessary overwrites
-          const currentValue = textarea.tagName === 'TEXTAREA' || textarea.tagName === 'INPUT'
-            ? (textarea as HTMLInputElement | HTMLTextAreaElement).value
-            : textarea.textContent || '';
-
-          // Only insert if the response has content or textarea is empty
-          if (data.aiResponse.length > 0 || currentValue.length === 0) {
-            insertGeneratedResponse(textarea, data.aiResponse);
-          }
+          presentDraft(textarea, data);
         }
-
-        // Show success message
-        showSuccessMessage('AI response generated successfully!');
       } else {
         // Error handling
-        console.error('❌ AI response failed:', data?.error || 'Unknown error');
+        const errorMessage = data && !data.success ? data.error : 'Failed to generate AI response';
+        console.error('❌ AI response failed:', errorMessage);
         if (textarea) {
           hideLoadingState(textarea);
         }
-        showErrorMessage(data?.error || 'Failed to generate AI response');
+        const preview = getActiveDraftPreview();
+        if (preview) {
+          preview.setError(errorMessage);
+        } else {
+          showErrorMessage(errorMessage);
+        }
       }
     } catch (error) {
       console.error('❌ Error handling AI response result:', error);
@@ -781,35 +1387,6 @@
     }
   }
 
-  function handleProgressUpdate(data: any) {
-    try {
-      // Update button text to show progress
-      const button = document.querySelector('.ai-review-button') as HTMLElement;
-      if (button && data) {
-        const statusText = getStatusText(data.status);
-        const progressText = (typeof data.progress === 'number') ? ` (${data.progress}%)` : '';
-        button.textContent = `🤖 ${statusText}${progressText}`;
-      }
-    } catch (error) {
-      console.error('❌ Error updating progress:', error);
-    }
-  }
-
-  function getStatusText(status: string): string {
-    switch (status) {
-      case 'pending':
-        return 'Queued...';
-      case 'processing':
-        return 'Generating...';
-      case 'completed':
-        return 'Complete!';
-      case 'failed':
-        return 'Failed';
-      default:
-        return 'Processing...';
-    }
-  }
-
   function showSuccessMessage(message: string) {
     // Create a temporary success message
     const successDiv = document.createElement('div');
@@ -900,71 +1477,32 @@
     return 'Thank you for your valuable feedback. We appreciate you taking the time to share your experience with us.';
   }
 
-  function extractReviewData() {
+  function extractReviewData(tracer?: ExtractionTracer) {
     try {
-      // Extract reviewer name using the provided selector
-      const reviewerNameElement = document.querySelector('#AH1dze > div > div > main > div > div > c-wiz > div > div > article > div.noyJyc > div > div > div.N0c6q.JhRJje') as HTMLElement;
+      // Extract reviewer name using the manifest selectors
+      const reviewerNameElement = queryFirstMatch(document, selectors.reviewerName);
       const reviewer_name = reviewerNameElement?.textContent?.trim() || undefined;
-
-      // Extract rating from the star rating span - multiple fallback methods
-      let review_rating: number | undefined;
-
-      // Method 1: Try the specific Google Business rating span with DYizzd class
-      const ratingElement = document.querySelector('span.DYizzd[aria-label]') as HTMLElement;
-      if (ratingElement) {
-        const ariaLabel = ratingElement.getAttribute('aria-label') || '';
-
-        // Handle both Spanish and English formats, including non-breaking spaces
-        const match = ariaLabel.match(/(\d+)\s*(?:de|out of)\s*5\s*(?:estrellas?|stars?)/i);
-        if (match) {
-          review_rating = parseInt(match[1], 10);
-        }
-      }
-
-      // Method 2: Fallback - count filled stars by checking for the filled star class
-      if (!review_rating && ratingElement) {
-        const filledStars = ratingElement.querySelectorAll('i.VfPpkd-kBDsod.lMAmUc:not(.VOmEhb)');
-        if (filledStars.length > 0) {
-          review_rating = filledStars.length;
+      tracer?.attempt('reviewerName', 'manifest selectors', reviewer_name ? reviewerNameElement : null, 0.9);
+
+      // The review's own card bounds the fallback rating scan
+      const reviewTextElement = queryFirstMatch(document, selectors.reviewText);
+      const reviewContainer = reviewTextElement?.closest('article') ?? null;
+
+      // Extract the rating from its label or filled stars; left undefined when it can't be read
+      const rating = extractRating(document, { rating: selectors.rating, filledStar: selectors.ratingFilledStar }, reviewContainer);
+      const review_rating = rating.result.status === 'known' ? rating.result.value : undefined;
+      for (const [source, strategy, confidence] of RATING_STRATEGIES) {
+        const found = rating.result.status === 'known' && rating.result.source === source;
+        tracer?.attempt('rating', strategy, found ? rating.element : null, confidence);
+        if (found) {
+          break;
         }
       }
 
-      // Method 3: Alternative selector for older Google layouts
-      if (!review_rating) {
-        const altRatingElement = document.querySelector('span[aria-label*="de 5 estrellas"], span[aria-label*="out of 5 stars"]') as HTMLElement;
-        if (altRatingElement) {
-          const ariaLabel = altRatingElement.getAttribute('aria-label') || '';
-          const match = ariaLabel.match(/(\d+)\s*(?:de|out of)\s*5/);
-          if (match) {
-            review_rating = parseInt(match[1], 10);
-          }
-        }
-      }
-
-      // Method 4: Look for any span with rating-like aria-label
-      if (!review_rating) {
-        const allRatingSpans = document.querySelectorAll('span[aria-label]');
-        for (const span of allRatingSpans) {
-          const ariaLabel = span.getAttribute('aria-label') || '';
-          const match = ariaLabel.match(/(\d+)\s*(?:de|out of|\/)\s*5\s*(?:estrellas?|stars?)?/i);
-          if (match) {
-            review_rating = parseInt(match[1], 10);
-            break;
-          }
-        }
-      }
-
-      // Method 5: Last resort - look for star icons and count them
-      if (!review_rating) {
-        const starIcons = document.querySelectorAll('i[aria-hidden="true"]:not(.VOmEhb)');
-        if (starIcons.length > 0 && starIcons.length <= 5) {
-          review_rating = starIcons.length;
-        }
-      }
-
-      // Extract review text using the provided selector
-      const reviewTextElement = document.querySelector('div.gyKkFe.JhRJje.Fv38Af') as HTMLElement;
+      // Extract review text using the manifest selectors
       const extracted_text = reviewTextElement?.textContent?.trim();
+      tracer?.attempt('reviewText', 'manifest selectors', extracted_text ? reviewTextElement : null, 0.9);
+      tracer?.attempt('replyTextarea', 'manifest selectors', findReplyTextarea(), 0.9);
 
       // Handle empty reviews gracefully
       let review_text: string;
@@ -975,46 +1513,19 @@
         review_text = extracted_text;
       }
 
-      // Method 6: Default fallback - assume rating based on sentiment if still undefined
-      if (!review_rating) {
-        // If we have review text, try to infer sentiment
-        const hasPositiveWords = review_text && review_text !== "[Review with no text content]" && (
-          review_text.toLowerCase().includes('great') ||
-          review_text.toLowerCase().includes('excellent') ||
-          review_text.toLowerCase().includes('amazing') ||
-          review_text.toLowerCase().includes('love') ||
-          review_text.toLowerCase().includes('fantastic')
-        );
-
-        const hasNegativeWords = review_text && review_text !== "[Review with no text content]" && (
-          review_text.toLowerCase().includes('bad') ||
-          review_text.toLowerCase().includes('terrible') ||
-          review_text.toLowerCase().includes('worst') ||
-          review_text.toLowerCase().includes('disappointed') ||
-          review_text.toLowerCase().includes('awful')
-        );
-
-        if (hasPositiveWords && !hasNegativeWords) {
-          review_rating = 5;
-        } else if (hasNegativeWords) {
-          review_rating = 1;
-        } else {
-          review_rating = 3;
-        }
-      }
-
       // Validate that we have basic review data (at minimum, we should have a rating or reviewer)
       if (!reviewer_name && !review_rating && review_text === "[Review with no text content]") {
         return null;
       }
 
-      const reviewData = {
+      const reviewData = tagReviewLanguage({
         reviewer_name,
         review_rating,
         review_text,
+        ...extractGoogleReviewDetails(document, selectors, window.location.href),
         website_url: window.location.href,
         source_platform: 'Google'
-      };
+      });
 
       return reviewData;
 
@@ -0,0 +1,138 @@
+// AI Review Responder - Rating Confirmation Prompt
+// Shown next to the reply box when the star rating can't be read from the page, so the
+// reply is written for the rating the reviewer actually gave instead of a guess.
+
+import type { RatingResult } from '../types';
+
+const HOST_ID = 'boltreply-rating-prompt-host';
+const CARD_WIDTH = 300;
+const CARD_GAP = 8;
+const MAX_STARS = 5;
+
+function getPromptCSS(): string {
+  return `
+    *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+    :host { all: initial; }
+    .card {
+      position: fixed;
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+      width: ${CARD_WIDTH}px;
+      padding: 12px 14px;
+      background: #ffffff;
+      border: 1px solid #e2e8f0;
+      border-top: 3px solid hsl(38, 92%, 50%);
+      border-radius: 8px;
+      box-shadow: 0 8px 28px rgba(0,0,0,0.16);
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 13px;
+      color: #1a202c;
+      z-index: 2147483647;
+    }
+    .title { font-weight: 600; }
+    .hint { font-size: 12px; color: #64748b; line-height: 1.45; }
+    .stars { display: flex; gap: 4px; }
+    .star {
+      flex: 1;
+      padding: 6px 0;
+      border-radius: 6px;
+      border: 1px solid #e2e8f0;
+      background: #f8fafc;
+      color: hsl(38, 92%, 45%);
+      font-size: 13px;
+      font-weight: 600;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    .star:hover, .star:focus-visible { background: hsl(38, 92%, 95%); border-color: hsl(38, 92%, 50%); outline: none; }
+    .actions { display: flex; gap: 6px; }
+    .btn {
+      flex: 1;
+      padding: 7px 10px;
+      border-radius: 6px;
+      border: 1px solid #e2e8f0;
+      background: #f1f5f9;
+      color: #374151;
+      font-size: 12px;
+      font-weight: 600;
+      font-family: inherit;
+      cursor: pointer;
+    }
+  `;
+}
+
+/**
+ * Ask the user how many stars the review gave. Resolves with the chosen rating, 'unknown' when
+ * they continue without one, or null when they dismiss the prompt (generation should not start).
+ */
+export function promptForRating(anchor: HTMLElement): Promise<RatingResult | null> {
+  document.getElementById(HOST_ID)?.remove();
+
+  return new Promise(resolve => {
+    const host = document.createElement('div');
+    host.id = HOST_ID;
+    document.body.appendChild(host);
+    const shadowRoot = host.attachShadow({ mode: 'open' });
+
+    const style = document.createElement('style');
+    style.textContent = getPromptCSS();
+    shadowRoot.appendChild(style);
+
+    const starButtons = Array.from({ length: MAX_STARS }, (_, i) =>
+      `<button class="star" data-rating="${i + 1}" aria-label="${i + 1} of ${MAX_STARS} stars">${i + 1} ★</button>`
+    ).join('');
+
+    const card = document.createElement('div');
+    card.className = 'card';
+    card.setAttribute('role', 'dialog');
+    card.setAttribute('aria-label', 'Confirm the review rating');
+    card.innerHTML = `
+      <div class="title">How many stars did this review give?</div>
+      <div class="hint">Bolt Reply couldn't read the rating on this page. Pick it so the reply matches the review.</div>
+      <div class="stars">${starButtons}</div>
+      <div class="actions">
+        <button class="btn" data-action="skip">Continue without rating</button>
+        <button class="btn" data-action="dismiss">Cancel</button>
+      </div>
+    `;
+    shadowRoot.appendChild(card);
+
+    const rect = anchor.getBoundingClientRect();
+    card.style.left = `${Math.max(CARD_GAP, Math.min(rect.left, window.innerWidth - CARD_WIDTH - CARD_GAP))}px`;
+    card.style.top = `${Math.max(CARD_GAP, Math.min(rect.bottom + CARD_GAP, window.innerHeight - card.offsetHeight - CARD_GAP))}px`;
+
+    function finish(result: RatingResult | null): void {
+      document.removeEventListener('keydown', handleKeydown, true);
+      host.remove();
+      resolve(result);
+    }
+
+    function handleKeydown(e: KeyboardEvent): void {
+      if (e.key === 'Escape') {
+        finish(null);
+      } else if (/^[1-5]$/.test(e.key)) {
+        e.preventDefault();
+        finish({ status: 'known', value: Number(e.key), source: 'user' });
+      }
+    }
+
+    card.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest('button');
+      if (!target) {
+        return;
+      }
+      const rating = target.getAttribute('data-rating');
+      if (rating) {
+        finish({ status: 'known', value: Number(rating), source: 'user' });
+      } else if (target.getAttribute('data-action') === 'skip') {
+        finish({ status: 'unknown' });
+      } else {
+        finish(null);
+      }
+    });
+    document.addEventListener('keydown', handleKeydown, true);
+
+    card.querySelector<HTMLButtonElement>('.star')?.focus();
+  });
+}
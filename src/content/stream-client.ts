@@ -0,0 +1,70 @@
+// AI Review Responder - Streaming Generation Client
+// Opens an AI_STREAM port to the service worker and relays the reply text as it is written.
+
+import { AI_STREAM_PORT_NAME } from '../types';
+import { parseStreamServerMessage } from '../utils/messaging';
+import type { AIResponsePayload, AIResponseRequestPayload } from '../types';
+import type { StreamClientMessage } from '../utils/messaging';
+
+export interface StreamHandlers {
+  onProgress: (text: string) => void;
+  onResult: (payload: AIResponsePayload) => void;
+}
+
+export interface StreamHandle {
+  cancel: () => void;
+}
+
+/**
+ * Start a streaming generation. onResult fires exactly once, including after a cancel.
+ */
+export function streamGeneration(data: AIResponseRequestPayload, handlers: StreamHandlers): StreamHandle {
+  const port = chrome.runtime.connect({ name: AI_STREAM_PORT_NAME });
+  let settled = false;
+
+  const settle = (payload: AIResponsePayload) => {
+    if (settled) return;
+    settled = true;
+    handlers.onResult(payload);
+    port.disconnect();
+  };
+
+  const post = (message: StreamClientMessage) => port.postMessage(message);
+
+  port.onMessage.addListener((rawMessage: unknown) => {
+    const parsed = parseStreamServerMessage(rawMessage);
+    if (!parsed.ok) {
+      settle(parsed.error);
+      return;
+    }
+
+    const message = parsed.message;
+    switch (message.type) {
+      case 'PROGRESS_UPDATE':
+        if (!settled) {
+          handlers.onProgress(message.payload.text);
+        }
+        break;
+
+      case 'AI_RESPONSE_RESULT':
+        settle(message.payload);
+        break;
+    }
+  });
+
+  port.onDisconnect.addListener(() => {
+    // Reading lastError keeps Chrome from logging an unchecked error when the worker goes away
+    void chrome.runtime.lastError;
+    settle({ success: false, error: 'Connection error. Please try again.' });
+  });
+
+  post({ type: 'GENERATE_AI_RESPONSE', payload: data });
+
+  return {
+    cancel: () => {
+      if (!settled) {
+        post({ type: 'CANCEL_GENERATION' });
+      }
+    }
+  };
+}
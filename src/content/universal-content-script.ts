@@ -1,7 +1,37 @@
 // Bolt Reply AI — Universal Content Script
 // Runs on all non-Google pages.
 // Uses the same GENERATE_AI_RESPONSE / AI_RESPONSE_RESULT message contract as iframe-script.ts.
-// No project imports — fully self-contained so webpack produces a single flat file.
+// On sites with an adapter (Yelp, Tripadvisor, Trustpilot, Booking.com) review cards also get a
+// Bolt Reply button; everywhere else the panel works from selected text.
+// Only imports small content helpers, which webpack inlines into a single flat file.
+
+import { streamGeneration } from './stream-client';
+import type { StreamHandle } from './stream-client';
+import { findSiteAdapter } from './adapters';
+import { createAdapterInjector } from './adapter-injector';
+import { getActiveDraftPreview } from './draft-preview';
+import { getPreferenceSelectsHTML, getTemplateSelectHTML, readPreferenceSelects, readTemplateSelect } from './generation-options-menu';
+import { getGenerationPreferences, saveGenerationPreferences } from '../utils/generation-preferences';
+import { MIN_LANGUAGE_CONFIDENCE, detectLanguage, getLanguageName, tagReviewLanguage } from '../utils/language-detection';
+import { getSettings, onSettingsChange, updateSettings } from '../utils/settings';
+import { assessEscalation, requestDeEscalationTemplate } from '../utils/escalation';
+import { getReplyTemplates, renderTemplateForReview } from '../utils/reply-templates';
+import { parseContentMessage, sendMessage } from '../utils/messaging';
+import { REFINE_INSTRUCTIONS, REFINE_INSTRUCTION_LABELS } from '../types';
+import type {
+  AIResponsePayload,
+  AIResponseSuccessPayload,
+  ExtensionSettings,
+  GenerationPreferences,
+  PageLocationState,
+  RefineInstruction,
+  ReplyLanguageMode,
+  ReplyTemplate,
+  ReplyVariant,
+  ReviewData,
+  SelectionReplyPayload,
+  ShortcutCommand
+} from '../types';
 
 (() => {
   // ── Constants ──────────────────────────────────────────────────────────────
@@ -9,6 +39,7 @@
   const BRAND_BLUE_DARK = 'hsl(217, 91%, 50%)';
   const HOST_ID = 'boltreply-universal-host';
   const BTN_ID = 'boltreply-float-btn';
+  const REPLY_VARIANT_COUNT = 3;
 
   const LIGHTNING_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="white"><path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z"/></svg>`;
   const ICON_URL = chrome.runtime.getURL('icons/icon48.png');
@@ -17,13 +48,35 @@
   // ── State ──────────────────────────────────────────────────────────────────
   let savedSelectionText = '';
   let isLoading = false;
+  let activeStream: StreamHandle | null = null;
+  let pendingResultId: string | null = null; // Panel request whose pushed AI_RESPONSE_RESULT is still awaited
   let panelOpen = false;
 
   // Panel field values preserved across open/close cycles
   let fieldReviewerName = '';
   let fieldStarRating = 0;
   let fieldReviewText = '';
+  let fieldCompareVariants = false;
+  // Tone, length and language for this site; loaded from storage when the panel opens
+  let fieldPreferences: GenerationPreferences = {};
+  let fieldTemplateId = ''; // Sent to the AI as instructions with every generation while selected
+  let replyTemplates: ReplyTemplate[] = [];
+  // Extra fields (date, review id) an adapter extracted for the review shown in the panel
+  let panelReviewContext: ReviewData | null = null;
   let lastGeneratedReply = '';
+  let lastVariants: ReplyVariant[] = [];
+  // The review the shown reply answers, and the replies refinements replaced (most recent last)
+  let lastReviewData: ReviewData | null = null;
+  let replyUndoStack: string[] = [];
+  // Translation of the review text it was requested for, kept until the text changes
+  let reviewTranslation: { text: string; translation: string } | null = null;
+  // The Pro prompt picked in the popup, sent with every generation
+  let promptOverrideId: string | undefined;
+  const applyPromptOverride = (settings: ExtensionSettings): void => {
+    promptOverrideId = settings.promptOverrideId ?? undefined;
+  };
+  getSettings().then(applyPromptOverride);
+  onSettingsChange(applyPromptOverride);
 
   // ── Floating button ────────────────────────────────────────────────────────
 
@@ -66,6 +119,7 @@
     btn.addEventListener('click', () => {
       const textToUse = savedSelectionText;
       hideFloatingButton();
+      panelReviewContext = null;
       openPanel(textToUse);
     });
 
@@ -223,7 +277,34 @@
         text-transform: uppercase;
         letter-spacing: 0.04em;
       }
-      input[type="text"], textarea {
+      .hint { font-size: 11px; color: #6b7280; }
+      .pref-field { display: flex; align-items: center; gap: 8px; }
+      .pref-label { width: 72px; flex-shrink: 0; font-size: 12px; color: #374151; }
+      .pref-field select { padding: 6px 8px; font-size: 12px; }
+      .link-btn {
+        align-self: flex-start;
+        background: none;
+        border: none;
+        padding: 0;
+        color: hsl(217, 91%, 50%);
+        font-size: 12px;
+        font-family: inherit;
+        cursor: pointer;
+      }
+      .link-btn:disabled { color: #9ca3af; cursor: default; }
+      .detail-row { display: flex; gap: 6px; }
+      .detail-row .btn { width: auto; flex-shrink: 0; }
+      .gloss {
+        font-size: 12px;
+        line-height: 1.5;
+        color: #374151;
+        background: #f8fafc;
+        border: 1px solid #e2e8f0;
+        border-radius: 6px;
+        padding: 8px 10px;
+        white-space: pre-wrap;
+      }
+      input[type="text"], textarea, select {
         width: 100%;
         border: 1px solid #d1d5db;
         border-radius: 6px;
@@ -236,7 +317,7 @@
         transition: border-color 0.15s, box-shadow 0.15s;
         outline: none;
       }
-      input[type="text"]:focus, textarea:focus {
+      input[type="text"]:focus, textarea:focus, select:focus {
         border-color: hsl(217, 91%, 60%);
         box-shadow: 0 0 0 3px hsla(217, 91%, 60%, 0.15);
       }
@@ -331,6 +412,14 @@
       }
       .message-box.error { background: #fef2f2; color: #b91c1c; border: 1px solid #fecaca; }
       .message-box.info  { background: #eff6ff; color: #1d4ed8; border: 1px solid #bfdbfe; }
+      .message-box.warning {
+        flex-direction: column;
+        gap: 6px;
+        background: #fffbeb;
+        color: #92400e;
+        border: 1px solid #fde68a;
+      }
+      .message-box.warning .link-btn { color: #b45309; font-weight: 600; }
 
       /* Spinner */
       @keyframes spin { to { transform: rotate(360deg); } }
@@ -344,6 +433,33 @@
         flex-shrink: 0;
       }
 
+      /* Variants */
+      .checkbox-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-size: 12px;
+        color: #374151;
+        cursor: pointer;
+      }
+      .variant-tabs { display: flex; flex-wrap: wrap; gap: 6px; }
+      .variant-tab {
+        border: 1px solid #e2e8f0;
+        background: #f8fafc;
+        color: #374151;
+        border-radius: 20px;
+        padding: 4px 10px;
+        font-size: 12px;
+        font-weight: 500;
+        font-family: inherit;
+        cursor: pointer;
+      }
+      .variant-tab.active {
+        background: hsl(217, 91%, 60%);
+        border-color: hsl(217, 91%, 60%);
+        color: #fff;
+      }
+
       /* Divider */
       .divider { height: 1px; background: #e2e8f0; margin: 2px 0; }
     `;
@@ -379,6 +495,12 @@
           <span id="br-credits">Loading credits...</span>
         </div>
 
+        <div class="field" id="br-location-field" style="display:none;">
+          <span class="label">Location</span>
+          <select id="br-location"></select>
+          <span class="hint" id="br-location-hint"></span>
+        </div>
+
         <div class="field">
           <span class="label">Reviewer Name</span>
           <input type="text" id="br-name" placeholder="Customer name (optional)" />
@@ -400,6 +522,46 @@
           <textarea id="br-review" placeholder="Paste or type the customer review here..."></textarea>
         </div>
 
+        <div class="field" id="br-language-field" style="display:none;">
+          <span class="label">Review Language</span>
+          <span class="hint" id="br-language-detected"></span>
+          <select id="br-language-mode">
+            <option value="reviewer">Reply in the reviewer's language</option>
+            <option value="profile">Reply in my profile language</option>
+          </select>
+          <button class="link-btn" id="br-translate">Show translation</button>
+          <div class="gloss" id="br-translation" style="display:none;"></div>
+        </div>
+
+        <div class="field" id="br-redaction-field" style="display:none;">
+          <span class="label">Personal Data</span>
+          <span class="hint">Emails, phone numbers, addresses, order numbers and surnames are masked before the review is sent.</span>
+          <button class="link-btn" id="br-redaction-preview-btn">Preview what is sent</button>
+          <div class="gloss" id="br-redaction-preview" style="display:none;"></div>
+        </div>
+
+        <div class="field" id="br-preferences">
+          <span class="label">Reply Options</span>
+          ${getPreferenceSelectsHTML(fieldPreferences)}
+        </div>
+
+        <div class="field" id="br-template-field" style="display:none;">
+          <span class="label">Reply Template</span>
+          <div id="br-template-select"></div>
+          <span class="hint">The selected template is sent to the AI as instructions when you generate.</span>
+          <button class="link-btn" id="br-template-insert">Insert template without generating (no credit)</button>
+        </div>
+
+        <label class="checkbox-row">
+          <input type="checkbox" id="br-variants" />
+          Compare ${REPLY_VARIANT_COUNT} reply options (1 credit)
+        </label>
+
+        <div class="message-box warning" id="br-escalation" style="display:none;">
+          <span id="br-escalation-text"></span>
+          <button class="link-btn" id="br-escalation-template">Use de-escalation template</button>
+        </div>
+
         <div id="br-error-box" style="display:none;"></div>
 
         <button class="btn btn-primary" id="br-generate">
@@ -411,7 +573,18 @@
 
         <div class="result-section" id="br-result-section" style="display:none;">
           <span class="result-label">Generated Reply</span>
+          <div class="variant-tabs" id="br-variant-tabs" style="display:none;"></div>
           <div class="result-area" id="br-result"></div>
+          <div class="variant-tabs" id="br-refine">
+            ${REFINE_INSTRUCTIONS.map(instruction => `
+              <button class="variant-tab" data-instruction="${instruction}">${REFINE_INSTRUCTION_LABELS[instruction]}</button>
+            `).join('')}
+          </div>
+          <div class="detail-row" id="br-refine-detail" style="display:none;">
+            <input type="text" id="br-refine-detail-input" placeholder="What should the reply mention?" />
+            <button class="btn btn-secondary" id="br-refine-detail-submit">Rewrite</button>
+          </div>
+          <button class="link-btn" id="br-undo" style="display:none;">Undo last change</button>
           <button class="btn btn-secondary" id="br-copy">
             <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
               <rect x="9" y="9" width="13" height="13" rx="2" ry="2"/><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/>
@@ -451,12 +624,72 @@
     const nameInput = shadowRoot.getElementById('br-name') as HTMLInputElement | null;
     nameInput?.addEventListener('input', () => {
       fieldReviewerName = nameInput.value;
+      hideRedactionPreview(shadowRoot);
     });
 
     // Review text persistence
     const reviewTextarea = shadowRoot.getElementById('br-review') as HTMLTextAreaElement | null;
     reviewTextarea?.addEventListener('input', () => {
       fieldReviewText = reviewTextarea.value;
+      hideRedactionPreview(shadowRoot);
+      renderReviewLanguage(shadowRoot);
+      renderEscalation(shadowRoot);
+    });
+
+    // Reply language choice is a global setting, shared with the popup
+    const languageModeSelect = shadowRoot.getElementById('br-language-mode') as HTMLSelectElement | null;
+    languageModeSelect?.addEventListener('change', () => {
+      updateSettings({ replyLanguageMode: languageModeSelect.value as ReplyLanguageMode });
+    });
+
+    shadowRoot.getElementById('br-translate')?.addEventListener('click', () => {
+      handleTranslate(shadowRoot);
+    });
+
+    shadowRoot.getElementById('br-redaction-preview-btn')?.addEventListener('click', () => {
+      handleRedactionPreview(shadowRoot);
+    });
+
+    // Location override
+    const locationSelect = shadowRoot.getElementById('br-location') as HTMLSelectElement | null;
+    locationSelect?.addEventListener('change', () => {
+      handleLocationChange(shadowRoot, locationSelect.value);
+    });
+
+    // Reply options are remembered per site
+    const preferencesField = shadowRoot.getElementById('br-preferences');
+    preferencesField?.addEventListener('change', () => {
+      fieldPreferences = readPreferenceSelects(preferencesField);
+      saveGenerationPreferences(window.location.hostname, fieldPreferences)
+        .catch((saveError: unknown) => console.error('Generation preferences save error:', saveError));
+    });
+
+    // Template choice lasts while the page is open
+    const templateSelect = shadowRoot.getElementById('br-template-select');
+    templateSelect?.addEventListener('change', () => {
+      fieldTemplateId = readTemplateSelect(templateSelect);
+      renderTemplates(shadowRoot);
+    });
+
+    shadowRoot.getElementById('br-template-insert')?.addEventListener('click', () => {
+      handleInsertTemplate(shadowRoot);
+    });
+
+    // Variants toggle persistence
+    const variantsCheckbox = shadowRoot.getElementById('br-variants') as HTMLInputElement | null;
+    variantsCheckbox?.addEventListener('change', () => {
+      fieldCompareVariants = variantsCheckbox.checked;
+    });
+
+    // Variant picker
+    shadowRoot.getElementById('br-variant-tabs')?.addEventListener('click', (e) => {
+      const index = parseInt((e.target as HTMLElement).getAttribute('data-index') || '', 10);
+      const variant = lastVariants[index];
+      if (variant) {
+        lastGeneratedReply = variant.text;
+        showVariants(shadowRoot, index);
+        showResult(shadowRoot, variant.text);
+      }
     });
 
     // Generate button
@@ -464,6 +697,37 @@
       handleGenerate(shadowRoot);
     });
 
+    // Refine the shown reply; "Mention a detail" asks what to mention first
+    shadowRoot.getElementById('br-refine')?.addEventListener('click', (e) => {
+      const value = (e.target as HTMLElement).closest('[data-instruction]')?.getAttribute('data-instruction');
+      const instruction = REFINE_INSTRUCTIONS.find(candidate => candidate === value);
+      if (instruction === 'detail') {
+        const detailRow = shadowRoot.getElementById('br-refine-detail');
+        if (detailRow) detailRow.style.display = detailRow.style.display === 'none' ? 'flex' : 'none';
+        (shadowRoot.getElementById('br-refine-detail-input') as HTMLInputElement | null)?.focus();
+      } else if (instruction) {
+        handleRefine(shadowRoot, instruction);
+      }
+    });
+
+    const detailInput = shadowRoot.getElementById('br-refine-detail-input') as HTMLInputElement | null;
+    const submitDetail = () => {
+      const detail = detailInput?.value.trim();
+      if (detail) handleRefine(shadowRoot, 'detail', detail);
+    };
+    shadowRoot.getElementById('br-refine-detail-submit')?.addEventListener('click', submitDetail);
+    detailInput?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') submitDetail();
+    });
+
+    shadowRoot.getElementById('br-escalation-template')?.addEventListener('click', () => {
+      handleUseTemplate(shadowRoot);
+    });
+
+    shadowRoot.getElementById('br-undo')?.addEventListener('click', () => {
+      handleUndo(shadowRoot);
+    });
+
     // Copy button
     shadowRoot.getElementById('br-copy')?.addEventListener('click', () => {
       handleCopy(shadowRoot);
@@ -473,6 +737,7 @@
   function setStarRating(shadowRoot: ShadowRoot, value: number): void {
     fieldStarRating = value;
     highlightStars(shadowRoot, value);
+    renderEscalation(shadowRoot);
   }
 
   function highlightStars(shadowRoot: ShadowRoot, upTo: number): void {
@@ -496,16 +761,31 @@
     fieldReviewText = prefillText || fieldReviewText;
     const nameInput = shadowRoot.getElementById('br-name') as HTMLInputElement | null;
     const reviewTextarea = shadowRoot.getElementById('br-review') as HTMLTextAreaElement | null;
+    const variantsCheckbox = shadowRoot.getElementById('br-variants') as HTMLInputElement | null;
     if (nameInput) nameInput.value = fieldReviewerName;
     if (reviewTextarea) reviewTextarea.value = fieldReviewText;
+    if (variantsCheckbox) variantsCheckbox.checked = fieldCompareVariants;
     highlightStars(shadowRoot, fieldStarRating);
 
     // Restore previous result if any
     if (lastGeneratedReply) {
+      showVariants(shadowRoot, Math.max(0, lastVariants.findIndex(v => v.text === lastGeneratedReply)));
       showResult(shadowRoot, lastGeneratedReply);
+      renderUndo(shadowRoot);
     }
 
     loadCredits(shadowRoot);
+    loadLocations(shadowRoot);
+    loadPreferences(shadowRoot);
+    loadTemplates(shadowRoot);
+    renderReviewLanguage(shadowRoot);
+    renderEscalation(shadowRoot);
+    getSettings().then((settings) => {
+      const select = shadowRoot.getElementById('br-language-mode') as HTMLSelectElement | null;
+      if (select) select.value = settings.replyLanguageMode;
+      const redactionField = shadowRoot.getElementById('br-redaction-field');
+      if (redactionField) redactionField.style.display = settings.redactPersonalData ? 'flex' : 'none';
+    });
 
     // Trigger slide-in on next frame
     requestAnimationFrame(() => {
@@ -542,6 +822,194 @@
     });
   }
 
+  // ── Reply options ──────────────────────────────────────────────────────────
+
+  function loadPreferences(shadowRoot: ShadowRoot): void {
+    getGenerationPreferences(window.location.hostname).then(preferences => showPreferences(shadowRoot, preferences));
+  }
+
+  function showPreferences(shadowRoot: ShadowRoot, preferences: GenerationPreferences): void {
+    fieldPreferences = preferences;
+    shadowRoot.querySelectorAll<HTMLSelectElement>('#br-preferences select[data-preference]').forEach(select => {
+      const field = select.getAttribute('data-preference') as keyof GenerationPreferences;
+      select.value = preferences[field] ?? '';
+    });
+  }
+
+  // ── Reply templates ────────────────────────────────────────────────────────
+  // Saved in the popup; inserted as-is for free or passed to the AI as instructions
+
+  function loadTemplates(shadowRoot: ShadowRoot): void {
+    getReplyTemplates()
+      .then((templates) => {
+        replyTemplates = templates;
+        renderTemplates(shadowRoot);
+      })
+      .catch(() => undefined);
+  }
+
+  function getSelectedTemplate(): ReplyTemplate | undefined {
+    return replyTemplates.find(template => template.id === fieldTemplateId);
+  }
+
+  function renderTemplates(shadowRoot: ShadowRoot): void {
+    const field = shadowRoot.getElementById('br-template-field');
+    const select = shadowRoot.getElementById('br-template-select');
+    const insertBtn = shadowRoot.getElementById('br-template-insert') as HTMLButtonElement | null;
+    if (!field || !select || !insertBtn) return;
+
+    if (!getSelectedTemplate()) {
+      fieldTemplateId = '';
+    }
+    select.innerHTML = getTemplateSelectHTML(replyTemplates, fieldTemplateId);
+    insertBtn.disabled = !fieldTemplateId;
+    field.style.display = replyTemplates.length > 0 ? 'flex' : 'none';
+  }
+
+  function handleInsertTemplate(shadowRoot: ShadowRoot): void {
+    const template = getSelectedTemplate();
+    if (isLoading || !template) return;
+
+    const reviewText = fieldReviewText.trim();
+    const reviewData = buildPanelReviewData(reviewText, fieldReviewerName.trim() || undefined);
+    renderTemplateForReview(template, reviewData)
+      .then((text) => {
+        if (reviewText) {
+          lastReviewData = reviewData;
+        }
+        showLocalReply(shadowRoot, text);
+      })
+      .catch(() => showError(shadowRoot, 'Could not load the reply template. Please try again.'));
+  }
+
+  // ── Review language ────────────────────────────────────────────────────────
+
+  function getReaderLanguage(): string {
+    return chrome.i18n.getUILanguage().split('-')[0].toLowerCase();
+  }
+
+  function renderReviewLanguage(shadowRoot: ShadowRoot): void {
+    const field = shadowRoot.getElementById('br-language-field');
+    const detectedEl = shadowRoot.getElementById('br-language-detected');
+    const translateBtn = shadowRoot.getElementById('br-translate') as HTMLButtonElement | null;
+    const translationEl = shadowRoot.getElementById('br-translation');
+    if (!field || !detectedEl || !translateBtn || !translationEl) return;
+
+    const { language, confidence } = detectLanguage(fieldReviewText);
+    if (!language) {
+      field.style.display = 'none';
+      return;
+    }
+
+    const certainty = confidence >= MIN_LANGUAGE_CONFIDENCE ? '' : ' (uncertain)';
+    detectedEl.textContent = `Detected: ${getLanguageName(language)}${certainty}`;
+    translateBtn.style.display = language === getReaderLanguage() ? 'none' : '';
+
+    const translation = reviewTranslation?.text === fieldReviewText.trim() ? reviewTranslation.translation : '';
+    translationEl.textContent = translation;
+    translationEl.style.display = translation ? 'block' : 'none';
+    translateBtn.textContent = translation ? 'Translation' : 'Show translation';
+    translateBtn.disabled = Boolean(translation);
+    field.style.display = 'flex';
+  }
+
+  function handleTranslate(shadowRoot: ShadowRoot): void {
+    const translateBtn = shadowRoot.getElementById('br-translate') as HTMLButtonElement | null;
+    const text = fieldReviewText.trim();
+    if (!translateBtn || !text) return;
+
+    translateBtn.disabled = true;
+    translateBtn.textContent = 'Translating...';
+    sendMessage('TRANSLATE_REVIEW', { text, targetLanguage: getReaderLanguage() }).then((response) => {
+      if (!response.success || !response.translation) {
+        translateBtn.disabled = false;
+        translateBtn.textContent = 'Show translation';
+        showError(shadowRoot, (!response.success && response.error) || 'Could not translate the review.');
+        return;
+      }
+      reviewTranslation = { text, translation: response.translation };
+      renderReviewLanguage(shadowRoot);
+    });
+  }
+
+  // ── Personal data redaction ────────────────────────────────────────────────
+  // The service worker masks the review when redaction is on; the preview asks it for the exact payload
+
+  function hideRedactionPreview(shadowRoot: ShadowRoot): void {
+    const previewEl = shadowRoot.getElementById('br-redaction-preview');
+    if (previewEl) previewEl.style.display = 'none';
+  }
+
+  function handleRedactionPreview(shadowRoot: ShadowRoot): void {
+    const previewEl = shadowRoot.getElementById('br-redaction-preview');
+    const reviewText = fieldReviewText.trim();
+    if (!previewEl) return;
+    if (!reviewText) {
+      showError(shadowRoot, 'Please enter the review text first.');
+      return;
+    }
+
+    const reviewData = buildPanelReviewData(reviewText, fieldReviewerName.trim() || undefined);
+    sendMessage('PREVIEW_REDACTION', { reviewData }).then((response) => {
+      if (!response.success) {
+        showError(shadowRoot, response.error || 'Could not preview the redaction.');
+        return;
+      }
+      const sent = response.reviewData;
+      previewEl.textContent = `Reviewer: ${sent.reviewer_name ?? '(none)'}\n\n${sent.review_text}`;
+      previewEl.style.display = 'block';
+    });
+  }
+
+  // ── Business locations ─────────────────────────────────────────────────────
+  // Agency accounts answer for several locations; the service worker matches this page to one
+
+  function loadLocations(shadowRoot: ShadowRoot): void {
+    sendMessage('GET_BUSINESS_LOCATIONS', { url: window.location.href }).then((response) => {
+      if (!response.success) return;
+      renderLocations(shadowRoot, response);
+    });
+  }
+
+  function renderLocations(shadowRoot: ShadowRoot, state: PageLocationState): void {
+    const field = shadowRoot.getElementById('br-location-field');
+    const select = shadowRoot.getElementById('br-location') as HTMLSelectElement | null;
+    const hint = shadowRoot.getElementById('br-location-hint');
+    if (!field || !select || !hint) return;
+
+    // A single profile needs no picker
+    if (state.locations.length < 2) {
+      field.style.display = 'none';
+      return;
+    }
+
+    const active = state.locations.find(location => location.id === state.activeId);
+    select.replaceChildren(
+      new Option('Match this page automatically', ''),
+      ...state.locations.map(location => new Option(location.business_name, location.id))
+    );
+    select.value = state.isOverride && active ? active.id : '';
+
+    if (state.isOverride) {
+      hint.textContent = 'Chosen manually for this page.';
+    } else if (active) {
+      hint.textContent = `Replies are written as ${active.business_name}.`;
+    } else {
+      hint.textContent = 'No location matches this page, so your main profile is used.';
+    }
+    field.style.display = 'flex';
+  }
+
+  function handleLocationChange(shadowRoot: ShadowRoot, locationId: string): void {
+    sendMessage('SET_LOCATION_OVERRIDE', { url: window.location.href, locationId: locationId || null }).then((response) => {
+      if (!response.success) {
+        showError(shadowRoot, response.error || 'Could not change the location.');
+        return;
+      }
+      renderLocations(shadowRoot, response);
+    });
+  }
+
   function updateCredits(shadowRoot: ShadowRoot, remaining: number): void {
     const creditsEl = shadowRoot.getElementById('br-credits');
     if (creditsEl) creditsEl.textContent = `${remaining} credits remaining`;
@@ -550,8 +1018,18 @@
 
   // ── Generation ─────────────────────────────────────────────────────────────
 
-  function handleGenerate(shadowRoot: ShadowRoot): void {
-    if (isLoading) return;
+  // A tone or template for one generation only, e.g. from the context menu; the panel's own stay as they are
+  interface GenerationOverrides {
+    preferences?: GenerationPreferences;
+    template?: ReplyTemplate;
+  }
+
+  function handleGenerate(shadowRoot: ShadowRoot, overrides: GenerationOverrides = {}): void {
+    if (isLoading) {
+      // While streaming the generate button doubles as a stop button
+      activeStream?.cancel();
+      return;
+    }
 
     const nameInput = shadowRoot.getElementById('br-name') as HTMLInputElement | null;
     const reviewTextarea = shadowRoot.getElementById('br-review') as HTMLTextAreaElement | null;
@@ -567,58 +1045,232 @@
     }
 
     // Auth check first
-    chrome.runtime.sendMessage({ type: 'GET_AUTH_STATUS' }, (authResponse: { isAuthenticated?: boolean } | undefined) => {
-      if (chrome.runtime.lastError || !authResponse?.isAuthenticated) {
+    sendMessage('GET_AUTH_STATUS').then((authResponse) => {
+      if (!authResponse.success || !authResponse.isAuthenticated) {
         showError(shadowRoot, 'Please log in via the Bolt Reply extension icon first.');
         return;
       }
 
+      const reviewData = buildPanelReviewData(reviewText, reviewerName);
+      lastReviewData = reviewData;
+
+      const preferences = overrides.preferences ?? fieldPreferences;
+      const template = overrides.template ?? getSelectedTemplate();
+      if (template) {
+        renderTemplateForReview(template, reviewData)
+          .then(customPrompt => startGeneration(shadowRoot, reviewData, preferences, customPrompt))
+          .catch(() => showError(shadowRoot, 'Could not load the reply template. Please try again.'));
+      } else {
+        startGeneration(shadowRoot, reviewData, preferences);
+      }
+    });
+  }
+
+  function startGeneration(
+    shadowRoot: ShadowRoot,
+    reviewData: ReviewData,
+    preferences: GenerationPreferences,
+    customPrompt?: string
+  ): void {
+    if (fieldCompareVariants) {
+      // Variants arrive together, so there is nothing to stream. The result also comes back as a
+      // pushed AI_RESPONSE_RESULT; whichever arrives first is applied
+      const clientRequestId = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      pendingResultId = clientRequestId;
       setLoadingState(shadowRoot, true);
+      sendMessage('GENERATE_AI_RESPONSE', {
+        reviewData,
+        variants: REPLY_VARIANT_COUNT,
+        preferences,
+        promptId: promptOverrideId,
+        customPrompt,
+        clientRequestId
+      }).then((response) => {
+        if (pendingResultId !== clientRequestId) return;
+        pendingResultId = null;
+        setLoadingState(shadowRoot, false);
+        handleGenerationResult(shadowRoot, response);
+      });
+      return;
+    }
 
-      const reviewData = {
-        review_text: reviewText,
-        reviewer_name: reviewerName,
-        review_rating: fieldStarRating || undefined,
-        website_url: window.location.href,
-        source_platform: window.location.hostname
-      };
-
-      chrome.runtime.sendMessage(
-        {
-          type: 'GENERATE_AI_RESPONSE',
-          data: { reviewData }
-        },
-        (response: { success?: boolean; aiResponse?: string; error?: string; creditsRemaining?: number } | undefined) => {
-          if (chrome.runtime.lastError) {
-            setLoadingState(shadowRoot, false);
-            showError(shadowRoot, 'Connection error. Please try again.');
-            return;
-          }
+    setLoadingState(shadowRoot, true, true);
+    activeStream = streamGeneration({ reviewData, preferences, promptId: promptOverrideId, customPrompt }, {
+      onProgress: (text) => showStreamingResult(shadowRoot, text),
+      onResult: (payload) => {
+        activeStream = null;
+        setLoadingState(shadowRoot, false);
+        handleGenerationResult(shadowRoot, payload);
+      }
+    });
+  }
 
-          setLoadingState(shadowRoot, false);
+  function buildPanelReviewData(reviewText: string, reviewerName: string | undefined): ReviewData {
+    return tagReviewLanguage({
+      ...panelReviewContext,
+      review_text: reviewText,
+      reviewer_name: reviewerName,
+      review_rating: fieldStarRating || undefined,
+      website_url: window.location.href,
+      source_platform: siteAdapter?.platform ?? window.location.hostname
+    });
+  }
 
-          if (response?.success && response.aiResponse) {
-            lastGeneratedReply = response.aiResponse;
-            showResult(shadowRoot, response.aiResponse);
-            if (typeof response.creditsRemaining === 'number') {
-              updateCredits(shadowRoot, response.creditsRemaining);
-            }
-          } else {
-            showError(shadowRoot, response?.error || 'Failed to generate reply. Please try again.');
-          }
+  function handleGenerationResult(shadowRoot: ShadowRoot, response: AIResponsePayload): void {
+    if (response.success && response.aiResponse) {
+      applyGenerationResult(shadowRoot, response);
+    } else if (!response.success && response.errorType === 'CANCELLED') {
+      // Keep the partial reply so it can still be copied
+      const resultArea = shadowRoot.getElementById('br-result');
+      lastVariants = [];
+      lastGeneratedReply = resultArea?.textContent || '';
+      showVariants(shadowRoot, 0);
+      showInfo(shadowRoot, 'Generation stopped. The partial reply is kept below.');
+    } else if (!response.success && response.errorType === 'QUEUED') {
+      showInfo(shadowRoot, response.error || 'Reply queued until the connection returns.');
+    } else {
+      showError(shadowRoot, (!response.success && response.error) || 'Failed to generate reply. Please try again.');
+    }
+  }
+
+  function applyGenerationResult(shadowRoot: ShadowRoot, result: AIResponseSuccessPayload): void {
+    lastVariants = result.variants && result.variants.length > 1 ? result.variants : [];
+    lastGeneratedReply = result.aiResponse || '';
+    replyUndoStack = [];
+    showVariants(shadowRoot, 0);
+    showResult(shadowRoot, lastGeneratedReply);
+    renderUndo(shadowRoot);
+    if (typeof result.creditsRemaining === 'number') {
+      updateCredits(shadowRoot, result.creditsRemaining);
+    }
+  }
+
+  // ── Refinement ─────────────────────────────────────────────────────────────
+
+  function handleRefine(shadowRoot: ShadowRoot, instruction: RefineInstruction, detail?: string): void {
+    if (isLoading || !lastReviewData || !lastGeneratedReply) return;
+
+    clearError(shadowRoot);
+    setLoadingState(shadowRoot, true);
+    sendMessage('REFINE_AI_RESPONSE', {
+      reviewData: lastReviewData,
+      draft: lastGeneratedReply,
+      instruction,
+      detail,
+      preferences: fieldPreferences
+    }).then((response) => {
+      setLoadingState(shadowRoot, false);
+      if (!response.success || !response.aiResponse) {
+        showError(shadowRoot, (!response.success && response.error) || 'Failed to refine the reply.');
+        return;
+      }
+
+      replyUndoStack.push(lastGeneratedReply);
+      lastGeneratedReply = response.aiResponse;
+      lastVariants = [];
+      showVariants(shadowRoot, 0);
+      showResult(shadowRoot, lastGeneratedReply);
+      renderUndo(shadowRoot);
+      const detailRow = shadowRoot.getElementById('br-refine-detail');
+      if (detailRow) detailRow.style.display = 'none';
+      if (typeof response.creditsRemaining === 'number') {
+        updateCredits(shadowRoot, response.creditsRemaining);
+      }
+    });
+  }
+
+  function handleUndo(shadowRoot: ShadowRoot): void {
+    if (isLoading) return;
+    const previous = replyUndoStack.pop();
+    if (previous === undefined) return;
+    lastGeneratedReply = previous;
+    showResult(shadowRoot, lastGeneratedReply);
+    renderUndo(shadowRoot);
+  }
+
+  // ── Escalation ─────────────────────────────────────────────────────────────
+  // Low ratings and complaints get a warning and a de-escalation template; the service worker
+  // puts them on the popup's follow-up list when a reply is generated
+
+  function renderEscalation(shadowRoot: ShadowRoot): void {
+    const box = shadowRoot.getElementById('br-escalation');
+    const text = shadowRoot.getElementById('br-escalation-text');
+    if (!box || !text) return;
+
+    const { needsEscalation, reasons } = assessEscalation({
+      review_rating: fieldStarRating || undefined,
+      review_text: fieldReviewText
+    });
+    text.textContent = `This review needs care: ${reasons.join(' · ')}. Replying adds it to your follow-up list.`;
+    box.style.display = needsEscalation ? 'flex' : 'none';
+  }
+
+  function handleUseTemplate(shadowRoot: ShadowRoot): void {
+    if (isLoading) return;
+    const reviewText = fieldReviewText.trim();
+    const reviewerName = fieldReviewerName.trim() || undefined;
+
+    requestDeEscalationTemplate(reviewerName)
+      .then((template) => {
+        if (reviewText) {
+          lastReviewData = buildPanelReviewData(reviewText, reviewerName);
+          sendMessage('TRACK_ESCALATION', { reviewData: lastReviewData });
         }
-      );
+        showLocalReply(shadowRoot, template);
+      })
+      .catch(() => showError(shadowRoot, 'Could not load the de-escalation template. Please try again.'));
+  }
+
+  /**
+   * Show a reply made without the AI, keeping the current one for undo
+   */
+  function showLocalReply(shadowRoot: ShadowRoot, text: string): void {
+    if (lastGeneratedReply) {
+      replyUndoStack.push(lastGeneratedReply);
+    }
+    lastGeneratedReply = text;
+    lastVariants = [];
+    showVariants(shadowRoot, 0);
+    showResult(shadowRoot, text);
+    renderUndo(shadowRoot);
+  }
+
+  function renderUndo(shadowRoot: ShadowRoot): void {
+    const undoBtn = shadowRoot.getElementById('br-undo');
+    if (undoBtn) undoBtn.style.display = replyUndoStack.length > 0 ? '' : 'none';
+  }
+
+  function showVariants(shadowRoot: ShadowRoot, activeIndex: number): void {
+    const tabs = shadowRoot.getElementById('br-variant-tabs');
+    if (!tabs) return;
+
+    if (lastVariants.length === 0) {
+      tabs.style.display = 'none';
+      tabs.innerHTML = '';
+      return;
+    }
+
+    tabs.style.display = 'flex';
+    tabs.innerHTML = '';
+    lastVariants.forEach((variant, index) => {
+      const tab = document.createElement('button');
+      tab.className = index === activeIndex ? 'variant-tab active' : 'variant-tab';
+      tab.setAttribute('data-index', String(index));
+      tab.textContent = variant.label;
+      tabs.appendChild(tab);
     });
   }
 
-  function setLoadingState(shadowRoot: ShadowRoot, loading: boolean): void {
+  function setLoadingState(shadowRoot: ShadowRoot, loading: boolean, cancellable = false): void {
     isLoading = loading;
     const btn = shadowRoot.getElementById('br-generate') as HTMLButtonElement | null;
     const label = shadowRoot.getElementById('br-btn-label');
     if (!btn || !label) return;
 
-    btn.disabled = loading;
-    if (loading) {
+    btn.disabled = loading && !cancellable;
+    if (loading && cancellable) {
+      btn.innerHTML = `<span class="spinner"></span><span id="br-btn-label">Stop generating</span>`;
+    } else if (loading) {
       btn.innerHTML = `<span class="spinner"></span><span id="br-btn-label">Generating...</span>`;
     } else {
       btn.innerHTML = `${LIGHTNING_SVG}<span id="br-btn-label">Generate Reply</span>`;
@@ -634,6 +1286,22 @@
     handleCopy(shadowRoot);
   }
 
+  function showStreamingResult(shadowRoot: ShadowRoot, text: string): void {
+    // No auto-copy here — the clipboard gets the finished reply only
+    const resultSection = shadowRoot.getElementById('br-result-section');
+    const resultArea = shadowRoot.getElementById('br-result');
+    if (resultSection) resultSection.style.display = 'flex';
+    if (resultArea) resultArea.textContent = text;
+  }
+
+  function showInfo(shadowRoot: ShadowRoot, message: string): void {
+    const box = shadowRoot.getElementById('br-error-box');
+    if (!box) return;
+    box.className = 'message-box info';
+    box.textContent = message;
+    box.style.display = 'block';
+  }
+
   function showError(shadowRoot: ShadowRoot, message: string): void {
     const box = shadowRoot.getElementById('br-error-box');
     if (!box) return;
@@ -680,29 +1348,203 @@
 
   // ── Listen for AI_RESPONSE_RESULT pushed by service worker ─────────────────
   // (Service worker calls chrome.tabs.sendMessage after generation completes)
+  // INSERT_RESPONSE comes from the popup's reply history.
+
+  chrome.runtime.onMessage.addListener((rawMessage: unknown, _sender, sendResponse) => {
+    const parsed = parseContentMessage(rawMessage);
+    if (!parsed.ok) {
+      sendResponse(parsed.error);
+      return false;
+    }
 
-  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-    if (message.type === 'AI_RESPONSE_RESULT') {
-      const host = document.getElementById(HOST_ID);
-      const shadowRoot = host?.shadowRoot;
-      if (shadowRoot) {
+    const message = parsed.message;
+    switch (message.type) {
+      case 'AI_RESPONSE_RESULT': {
+        // Results of other frames' generations (the Google iframe, an adapter preview) reach every frame
+        const shadowRoot = document.getElementById(HOST_ID)?.shadowRoot;
+        if (!shadowRoot || !pendingResultId || message.payload.clientRequestId !== pendingResultId) {
+          break;
+        }
+        pendingResultId = null;
         setLoadingState(shadowRoot, false);
-        const data = message.data as { success?: boolean; aiResponse?: string; error?: string; creditsRemaining?: number } | undefined;
-        if (data?.success && data.aiResponse) {
-          lastGeneratedReply = data.aiResponse;
-          showResult(shadowRoot, data.aiResponse);
-          if (typeof data.creditsRemaining === 'number') {
-            updateCredits(shadowRoot, data.creditsRemaining);
-          }
-        } else {
-          showError(shadowRoot, data?.error || 'Failed to generate reply.');
+        handleGenerationResult(shadowRoot, message.payload);
+        sendResponse({ handled: true });
+        break;
+      }
+
+      case 'INSERT_RESPONSE':
+        // A reply re-used from history opens in the panel, ready to copy
+        if (message.payload.text) {
+          lastVariants = [];
+          lastGeneratedReply = message.payload.text;
+          openPanel('');
+          sendResponse({ handled: true });
+        }
+        break;
+
+      case 'QUEUED_REPLY_READY': {
+        // A reply queued while offline has been generated - show it with its review
+        const { payload } = message;
+        if (payload.result.aiResponse) {
+          openPanelWithReview(payload.reviewData);
+          const shadowRoot = getOrCreatePanelHost();
+          applyGenerationResult(shadowRoot, payload.result);
+          showInfo(shadowRoot, 'Your queued reply is ready.');
+          sendResponse({ handled: true });
+        }
+        break;
+      }
+
+      case 'REPLY_TO_SELECTION':
+        if (message.payload.text) {
+          replyToSelection(message.payload);
+          sendResponse({ handled: true });
+        }
+        break;
+
+      case 'EXTRACT_REVIEW': {
+        // For the side panel: the selection, the focused review card, or the review in the panel
+        const reviewData = getPageReview();
+        if (reviewData) {
+          sendResponse({ handled: true, reviewData });
         }
+        break;
       }
-      sendResponse({ success: true });
+
+      case 'RUN_SHORTCUT':
+        sendResponse({ handled: runShortcut(message.payload.command) });
+        break;
     }
     return false;
   });
 
+  // ── Site adapters ──────────────────────────────────────────────────────────
+
+  const siteAdapter = findSiteAdapter(window.location.hostname);
+
+  function openPanelWithReview(reviewData: ReviewData): void {
+    panelReviewContext = reviewData;
+    fieldReviewerName = reviewData.reviewer_name ?? '';
+    fieldStarRating = reviewData.review_rating ?? 0;
+    fieldReviewText = reviewData.review_text;
+    lastReviewData = reviewData;
+    lastGeneratedReply = '';
+    lastVariants = [];
+    replyUndoStack = [];
+    openPanel(reviewData.review_text);
+
+    if (reviewData.review_rating === undefined) {
+      const shadowRoot = getOrCreatePanelHost();
+      showInfo(shadowRoot, "We couldn't read this review's star rating. Pick it above before generating.");
+    }
+  }
+
+  const adapterInjector = siteAdapter ? createAdapterInjector(siteAdapter, { openPanelWithReview }) : null;
+  adapterInjector?.start();
+
+  function getPageReview(): ReviewData | null {
+    const selectionText = window.getSelection()?.toString().trim() || '';
+    if (selectionText.length > 10) {
+      return tagReviewLanguage({
+        review_text: selectionText,
+        website_url: window.location.href,
+        source_platform: siteAdapter?.platform ?? window.location.hostname
+      });
+    }
+    const focusedReview = adapterInjector?.getFocusedReview();
+    if (focusedReview) {
+      return focusedReview;
+    }
+    return fieldReviewText.trim() ? buildPanelReviewData(fieldReviewText.trim(), fieldReviewerName.trim() || undefined) : null;
+  }
+
+  // ── Context menu ───────────────────────────────────────────────────────────
+  // "Reply with Bolt Reply" on selected text; the tone or template picked there applies to this reply only
+
+  function replyToSelection(payload: SelectionReplyPayload): void {
+    hideFloatingButton();
+    panelReviewContext = null;
+    openPanel(payload.text);
+    // A reply that is still being written keeps going; the selection waits in the panel
+    if (!payload.generate || isLoading) return;
+
+    const shadowRoot = getOrCreatePanelHost();
+    Promise.all([
+      getGenerationPreferences(window.location.hostname),
+      getReplyTemplates().catch(() => replyTemplates)
+    ]).then(([preferences, templates]) => {
+      showPreferences(shadowRoot, preferences);
+      replyTemplates = templates;
+      renderTemplates(shadowRoot);
+      handleGenerate(shadowRoot, {
+        preferences: payload.tone ? { ...preferences, tone: payload.tone } : undefined,
+        template: templates.find(template => template.id === payload.templateId)
+      });
+    });
+  }
+
+  // ── Keyboard shortcuts ─────────────────────────────────────────────────────
+  // Routed here by the service worker. A draft preview on an adapter's reply box takes accept and
+  // regenerate first; otherwise they act on the panel, where accepting copies the reply.
+
+  function runShortcut(command: ShortcutCommand): boolean {
+    const shadowRoot = panelOpen ? getOrCreatePanelHost() : null;
+    const preview = getActiveDraftPreview();
+    const selectionText = window.getSelection()?.toString().trim() || '';
+
+    switch (command) {
+      case 'generate-reply': {
+        // Selected text is the review, the same as the floating button. A reply still being written
+        // keeps going: here handleGenerate would act as its stop button
+        if (selectionText.length > 10) {
+          if (isLoading) {
+            return true;
+          }
+          hideFloatingButton();
+          panelReviewContext = null;
+          openPanel(selectionText);
+          handleGenerate(getOrCreatePanelHost());
+          return true;
+        }
+        if (adapterInjector?.generateForFocusedReview()) {
+          return true;
+        }
+        if (shadowRoot && !isLoading) {
+          handleGenerate(shadowRoot);
+          return true;
+        }
+        return false;
+      }
+      case 'toggle-panel':
+        if (panelOpen) {
+          closePanel();
+        } else {
+          openPanel(selectionText.length > 10 ? selectionText : '');
+        }
+        return true;
+      case 'accept-draft':
+        if (preview) {
+          return preview.accept();
+        }
+        if (shadowRoot && lastGeneratedReply && !isLoading) {
+          handleCopy(shadowRoot);
+          return true;
+        }
+        return false;
+      case 'regenerate-draft':
+        if (preview) {
+          return preview.regenerate();
+        }
+        if (shadowRoot && lastGeneratedReply && !isLoading) {
+          handleGenerate(shadowRoot);
+          return true;
+        }
+        return false;
+      default:
+        return false;
+    }
+  }
+
   // ── Selection detection ────────────────────────────────────────────────────
 
   document.addEventListener('mouseup', (e) => {
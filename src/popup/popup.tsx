@@ -1,15 +1,52 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import { AuthProvider, useAuth } from '../components/AuthContext';
 import { AuthContainer } from '../components/AuthContainer';
-import { AuthSuccessPayload, AuthStateChangedMessage } from '../types';
+import { AnsweringModePicker } from '../components/AnsweringModePicker';
+import { BusinessProfileEditor } from '../components/BusinessProfileEditor';
+import { FollowUpList } from '../components/FollowUpList';
+import { ReplyHistory } from '../components/ReplyHistory';
+import { ReplyTemplates } from '../components/ReplyTemplates';
+import { SettingsPanel } from '../components/SettingsPanel';
+import { AnsweringMode, AuthSuccessPayload } from '../types';
+import { parseBroadcastMessage } from '../utils/messaging';
 import '../styles/globals.css';
 import './popup.css';
 
+const POPUP_TABS = [
+  { id: 'home', label: 'Home' },
+  { id: 'history', label: 'History' },
+  { id: 'follow-ups', label: 'Follow-ups' },
+  { id: 'templates', label: 'Templates' },
+  { id: 'profile', label: 'Profile' },
+  { id: 'settings', label: 'Settings' }
+] as const;
+
+type PopupTab = typeof POPUP_TABS[number]['id'];
+
 // Main extension interface for authenticated users
 function MainExtensionInterface(): JSX.Element {
-  const { authState, logout } = useAuth();
+  const { authState, logout, updateAuthState } = useAuth();
   const { user } = authState;
+  const [activeTab, setActiveTab] = useState<PopupTab>('home');
+  const [hasUnsavedProfile, setHasUnsavedProfile] = useState(false);
+  // Looked up ahead of time: the side panel only opens from the click itself, not after an await
+  const [windowId, setWindowId] = useState<number | null>(null);
+
+  useEffect(() => {
+    chrome.windows.getCurrent((currentWindow) => setWindowId(currentWindow.id ?? null));
+  }, []);
+
+  const handleTabChange = (tab: PopupTab) => {
+    if (activeTab === 'profile' && tab !== 'profile' && hasUnsavedProfile
+      && !window.confirm('You have unsaved profile changes. Discard them?')) {
+      return;
+    }
+    if (tab !== 'profile') {
+      setHasUnsavedProfile(false);
+    }
+    setActiveTab(tab);
+  };
 
   const handleLogout = async () => {
     try {
@@ -23,13 +60,24 @@ function MainExtensionInterface(): JSX.Element {
     window.open('https://www.boltreply.io/dashboard', '_blank');
   };
 
-  const handleModeClick = () => {
-    window.open('https://www.boltreply.io/dashboard/answering-mode', '_blank');
+  const handleOpenSidePanel = () => {
+    if (windowId === null) {
+      return;
+    }
+    chrome.sidePanel.open({ windowId })
+      .then(() => window.close())
+      .catch((error: unknown) => console.error('Side panel error:', error));
+  };
+
+  const handleModeChange = (answeringMode: AnsweringMode) => {
+    if (user && user.answering_mode !== answeringMode) {
+      updateAuthState({ user: { ...user, answering_mode: answeringMode } });
+    }
   };
 
   return (
     <div className="flex flex-col h-full bg-muted/50 p-6">
-      <div className="flex items-center justify-between mb-6 pb-4 border-b border-border">
+      <div className="flex items-center justify-between mb-4 pb-4 border-b border-border">
         <div className="flex items-center gap-3">
           <div className="h-10 w-10 bg-primary text-primary-foreground rounded-full flex items-center justify-center font-semibold text-base shadow-sm">
             {user?.name?.charAt(0) || user?.email?.charAt(0) || 'U'}
@@ -62,96 +110,124 @@ function MainExtensionInterface(): JSX.Element {
           <span>Sign out</span>
         </button>
       </div>
-      
-      <div className="glass-card flex-1 flex flex-col gap-6 overflow-y-auto">
-        <div className="flex flex-col items-center text-center">
-            <img 
-              src="../icons/boltreplyainameicon.png" 
-              alt="Bolt Reply AI" 
-              className="h-16 mb-4 object-contain"
-            />
-            <p className="text-sm text-muted-foreground">Welcome! Your extension is ready to help with review responses.</p>
-        </div>
-        
-        {/* Credits Display */}
-        <div 
-          className="flex items-center justify-between p-3 h-[72px] bg-gradient-to-br from-background to-secondary hover:from-gray-200 hover:to-gray-200 border border-border rounded-lg cursor-pointer transition-all duration-200"
-          onClick={handleSettingsClick}
-          title="Change or update subscription"
-        >
-          <div className="flex flex-col justify-center">
-            <span className="font-semibold text-sm text-primary">
-              Credits: {user?.credits_available !== undefined ? user.credits_available : '...'} remaining
-            </span>
-            <span className="text-xs text-muted-foreground italic">Change or update your subscription in the dashboard</span>
-          </div>
-          <svg 
-            xmlns="http://www.w3.org/2000/svg" 
-            width="16" 
-            height="16" 
-            viewBox="0 0 24 24" 
-            fill="none" 
-            stroke="currentColor" 
-            strokeWidth="2" 
-            strokeLinecap="round" 
-            strokeLinejoin="round"
-            className="text-muted-foreground"
+
+      <div className="flex gap-1 mb-4 p-1 bg-secondary/50 rounded-md">
+        {POPUP_TABS.map(tab => (
+          <button
+            key={tab.id}
+            className={`flex-1 h-8 rounded text-sm font-medium transition-colors ${activeTab === tab.id ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+            onClick={() => handleTabChange(tab.id)}
           >
-            <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6" />
-            <polyline points="15 3 21 3 21 9" />
-            <line x1="10" y1="14" x2="21" y2="3" />
-          </svg>
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'history' && (
+        <div className="glass-card flex-1 flex flex-col overflow-hidden p-4">
+          <ReplyHistory />
         </div>
+      )}
 
-        {/* Answering Mode Display */}
-        <div 
-          className="flex items-center justify-between p-3 h-[72px] bg-background/30 backdrop-blur-[12px] border border-border rounded-lg cursor-pointer hover:bg-gray-200 transition-all duration-200"
-          onClick={handleModeClick}
-          title="Click to change answering mode"
-        >
-          <div className="flex flex-col justify-center">
-            <span className="text-sm font-semibold text-primary capitalize">
-              Active Answering Mode: {user?.answering_mode || 'Simple'}
-            </span>
-            <span className="text-xs text-muted-foreground italic">Change your answering mode from the dashboard</span>
-          </div>
-          <svg 
-            xmlns="http://www.w3.org/2000/svg" 
-            width="16" 
-            height="16" 
-            viewBox="0 0 24 24" 
-            fill="none" 
-            stroke="currentColor" 
-            strokeWidth="2" 
-            strokeLinecap="round" 
-            strokeLinejoin="round"
-            className="text-muted-foreground"
-          >
-            <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6" />
-            <polyline points="15 3 21 3 21 9" />
-            <line x1="10" y1="14" x2="21" y2="3" />
-          </svg>
+      {activeTab === 'follow-ups' && (
+        <div className="glass-card flex-1 flex flex-col overflow-hidden p-4">
+          <FollowUpList />
+        </div>
+      )}
+
+      {activeTab === 'templates' && (
+        <div className="glass-card flex-1 flex flex-col overflow-hidden p-4">
+          <ReplyTemplates />
+        </div>
+      )}
+
+      {activeTab === 'profile' && (
+        <div className="glass-card flex-1 flex flex-col overflow-y-auto p-4">
+          <BusinessProfileEditor onDirtyChange={setHasUnsavedProfile} />
+        </div>
+      )}
+
+      {activeTab === 'settings' && (
+        <div className="glass-card flex-1 flex flex-col overflow-y-auto p-4">
+          <SettingsPanel />
         </div>
+      )}
 
-        <div className="flex gap-3">
-          <button 
-            className="flex-1 h-9 px-3 py-2 bg-secondary/50 text-secondary-foreground hover:bg-secondary border border-input rounded-md font-medium text-sm transition-colors"
+      {activeTab === 'home' && (
+        <div className="glass-card flex-1 flex flex-col gap-6 overflow-y-auto">
+          <div className="flex flex-col items-center text-center">
+              <img 
+                src="../icons/boltreplyainameicon.png" 
+                alt="Bolt Reply AI" 
+                className="h-16 mb-4 object-contain"
+              />
+              <p className="text-sm text-muted-foreground">Welcome! Your extension is ready to help with review responses.</p>
+          </div>
+        
+          {/* Credits Display */}
+          <div 
+            className="flex items-center justify-between p-3 h-[72px] bg-gradient-to-br from-background to-secondary hover:from-gray-200 hover:to-gray-200 border border-border rounded-lg cursor-pointer transition-all duration-200"
             onClick={handleSettingsClick}
+            title="Change or update subscription"
           >
-            ⚙️ Settings
-          </button>
-        </div>
+            <div className="flex flex-col justify-center">
+              <span className="font-semibold text-sm text-primary">
+                Credits: {user?.credits_available !== undefined ? user.credits_available : '...'} remaining
+              </span>
+              <span className="text-xs text-muted-foreground italic">Change or update your subscription in the dashboard</span>
+            </div>
+            <svg 
+              xmlns="http://www.w3.org/2000/svg" 
+              width="16" 
+              height="16" 
+              viewBox="0 0 24 24" 
+              fill="none" 
+              stroke="currentColor" 
+              strokeWidth="2" 
+              strokeLinecap="round" 
+              strokeLinejoin="round"
+              className="text-muted-foreground"
+            >
+              <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6" />
+              <polyline points="15 3 21 3 21 9" />
+              <line x1="10" y1="14" x2="21" y2="3" />
+            </svg>
+          </div>
+
+          {/* Answering Mode */}
+          <AnsweringModePicker
+            mode={user?.answering_mode ?? 'simple'}
+            onModeChange={handleModeChange}
+          />
+
+          <div className="flex gap-3">
+            <button 
+              className="flex-1 h-9 px-3 py-2 bg-secondary/50 text-secondary-foreground hover:bg-secondary border border-input rounded-md font-medium text-sm transition-colors"
+              onClick={handleSettingsClick}
+            >
+              ⚙️ Settings
+            </button>
+            <button
+              className="flex-1 h-9 px-3 py-2 bg-secondary/50 text-secondary-foreground hover:bg-secondary border border-input rounded-md font-medium text-sm transition-colors disabled:opacity-50"
+              disabled={windowId === null}
+              onClick={handleOpenSidePanel}
+            >
+              Open side panel
+            </button>
+          </div>
         
-        <div className="glass-inner bg-background/50">
-          <h4 className="text-sm font-medium text-foreground mb-3">How to use:</h4>
-          <ol className="list-decimal pl-5 space-y-2 text-xs text-muted-foreground">
-            <li>Navigate to your Google Business review page</li>
-            <li>The extension will automatically detect reviews</li>
-            <li>Click "Bolt Reply" in the unanswered individual review view</li>
-            <li>Change your preferred answering mode in the Dashboard</li>
-          </ol>
+          <div className="glass-inner bg-background/50">
+            <h4 className="text-sm font-medium text-foreground mb-3">How to use:</h4>
+            <ol className="list-decimal pl-5 space-y-2 text-xs text-muted-foreground">
+              <li>Navigate to your Google Business review page</li>
+              <li>The extension will automatically detect reviews</li>
+              <li>Click "Bolt Reply" in the unanswered individual review view</li>
+              <li>Switch answering mode above; in Pro mode you can pin one of your prompts</li>
+              <li>Prefer a workspace beside the page? Open the side panel and read the review into it</li>
+            </ol>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -173,35 +249,40 @@ function PopupContent(): JSX.Element {
 
   // Listen for auth state changes from background script (Google OAuth)
   useEffect(() => {
+    // Every runtime message reaches the popup; only the auth broadcast is for it
     const handleAuthStateChanged = (
-      message: AuthStateChangedMessage,
+      rawMessage: unknown,
       sender: chrome.runtime.MessageSender,
       sendResponse: (response: { received: boolean }) => void
     ) => {
-      if (message.type === 'AUTH_STATE_CHANGED') {
-        console.log('Popup: Received auth state change', message);
-        
-        if (message.isAuthenticated && message.user) {
-          // User logged in via Google OAuth
-          login({
-            user: message.user,
-            token: undefined, // Token is stored in background
-            tokenExpiry: undefined
-          });
-        } else {
-          // User logged out
-          updateAuthState({
-            isAuthenticated: false,
-            user: undefined,
-            token: undefined,
-            tokenExpiry: undefined,
-            isLoading: false
-          });
-        }
-        
-        sendResponse({ received: true });
+      const parsed = parseBroadcastMessage(rawMessage);
+      if (!parsed.ok) {
+        return false;
       }
-      return true; // Keep message channel open for async response
+
+      const { payload } = parsed.message;
+      console.log('Popup: Received auth state change', payload);
+
+      if (payload.isAuthenticated && payload.user) {
+        // User logged in via Google OAuth
+        login({
+          user: payload.user,
+          token: undefined, // Token is stored in background
+          tokenExpiry: undefined
+        });
+      } else {
+        // User logged out
+        updateAuthState({
+          isAuthenticated: false,
+          user: undefined,
+          token: undefined,
+          tokenExpiry: undefined,
+          isLoading: false
+        });
+      }
+
+      sendResponse({ received: true });
+      return false;
     };
 
     // Add listener
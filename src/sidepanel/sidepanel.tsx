@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import ReactDOM from 'react-dom/client';
+import { AuthProvider, useAuth } from '../components/AuthContext';
+import { AuthContainer } from '../components/AuthContainer';
+import { ReplyHistory } from '../components/ReplyHistory';
+import { ReplyTemplates } from '../components/ReplyTemplates';
+import { ReviewWorkspace } from '../components/ReviewWorkspace';
+import { parseBroadcastMessage } from '../utils/messaging';
+import '../styles/globals.css';
+import './sidepanel.css';
+
+const SIDE_PANEL_TABS = [
+  { id: 'reply', label: 'Reply' },
+  { id: 'history', label: 'History' },
+  { id: 'templates', label: 'Templates' }
+] as const;
+
+type SidePanelTab = typeof SIDE_PANEL_TABS[number]['id'];
+
+// Workspace for authenticated users; tabs stay mounted so switching keeps their state
+function SidePanelInterface(): JSX.Element {
+  const [activeTab, setActiveTab] = useState<SidePanelTab>('reply');
+
+  return (
+    <div className="flex flex-col h-full bg-muted/50 p-4">
+      <div className="flex gap-1 mb-3 p-1 bg-secondary/50 rounded-md">
+        {SIDE_PANEL_TABS.map(tab => (
+          <button
+            key={tab.id}
+            className={`flex-1 h-8 rounded text-sm font-medium transition-colors ${activeTab === tab.id ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+            onClick={() => setActiveTab(tab.id)}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {SIDE_PANEL_TABS.map(tab => (
+        <div key={tab.id} className={`glass-card flex-1 flex-col overflow-hidden p-4 ${activeTab === tab.id ? 'flex' : 'hidden'}`}>
+          {tab.id === 'reply' && <ReviewWorkspace />}
+          {tab.id === 'history' && <ReplyHistory />}
+          {tab.id === 'templates' && <ReplyTemplates />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SidePanelContent(): JSX.Element {
+  const { authState, login, updateAuthState } = useAuth();
+
+  // Signing in or out from the popup or the website updates the open panel
+  useEffect(() => {
+    const handleAuthStateChanged = (rawMessage: unknown) => {
+      const parsed = parseBroadcastMessage(rawMessage);
+      if (!parsed.ok) {
+        return;
+      }
+      const { payload } = parsed.message;
+      if (payload.isAuthenticated && payload.user) {
+        login({ user: payload.user });
+      } else {
+        updateAuthState({ isAuthenticated: false, user: undefined, token: undefined, tokenExpiry: undefined, isLoading: false });
+      }
+    };
+    chrome.runtime.onMessage.addListener(handleAuthStateChanged);
+    return () => chrome.runtime.onMessage.removeListener(handleAuthStateChanged);
+  }, [login, updateAuthState]);
+
+  if (authState.isLoading) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center p-10">
+        <div className="h-8 w-8 border-4 border-muted border-t-primary rounded-full animate-spin mb-4"></div>
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!authState.isAuthenticated) {
+    return <AuthContainer onAuthSuccess={() => undefined} />;
+  }
+
+  return <SidePanelInterface />;
+}
+
+function SidePanel(): JSX.Element {
+  return (
+    <AuthProvider>
+      <div className="w-full h-full overflow-hidden bg-background">
+        <SidePanelContent />
+      </div>
+    </AuthProvider>
+  );
+}
+
+const root = document.getElementById('root');
+if (root) {
+  ReactDOM.createRoot(root).render(<SidePanel />);
+}
@@ -1,27 +1,67 @@
-// Review data structure extracted from Google My Business pages
+// A review as read from the page, kept locally and sent to the API. Extractors build it directly;
+// anything read back from storage goes through normalizeReviewData, which also accepts older shapes.
 export interface ReviewData {
-  reviewer_name?: string;
-  review_rating?: number;
   review_text: string;
-  reviewerName?: string; // For backward compatibility
-  rating?: number; // For backward compatibility
-  reviewText?: string; // For backward compatibility
-  reviewDate?: string;
-  businessName?: string;
-  reviewId?: string;
-  website_url?: string;
+  reviewer_name?: string;
+  review_rating?: number; // 1-5; undefined when it couldn't be read
+  review_date?: string; // ISO date when the page has one, else the date as shown ("2 weeks ago")
+  review_id?: string; // The platform's own ID for the review
+  reviewer_profile_url?: string;
+  has_photos?: boolean; // The reviewer attached photos
+  website_url?: string; // The page the review was read on
   source_platform?: string;
+  location_id?: string; // The platform's ID for the reviewed business, e.g. Google's /local/business/{id}
+  detected_language?: string; // ISO 639-1 code guessed locally from review_text
+  detected_language_confidence?: number; // 0-1
+}
+
+// Local guess at the language a review is written in
+export interface LanguageDetection {
+  language: string | null; // ISO 639-1 code; null when there is nothing to go on
+  confidence: number; // 0-1
 }
 
 // Response generation modes
 export type ResponseMode = 'simple' | 'pro';
 
+// Reply style presets
+export type ReplyTone = 'professional' | 'friendly' | 'formal' | 'casual';
+export type ReplyLength = 'short' | 'medium' | 'long';
+
+export const REPLY_TONES: readonly ReplyTone[] = ['professional', 'friendly', 'formal', 'casual'];
+export const REPLY_LENGTHS: readonly ReplyLength[] = ['short', 'medium', 'long'];
+
+// Reply languages; 'auto' answers in the review's language
+export const REPLY_LANGUAGES = ['auto', 'en', 'es', 'fr', 'de', 'it', 'pt', 'nl'] as const;
+export type ReplyLanguage = typeof REPLY_LANGUAGES[number];
+
+export const REPLY_LANGUAGE_LABELS: Record<ReplyLanguage, string> = {
+  auto: 'Same as review',
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch'
+};
+
+// Which language replies are written in when a generation doesn't choose one
+export type ReplyLanguageMode = 'reviewer' | 'profile';
+
+// Per-generation overrides of the business profile; unset fields use the profile
+export interface GenerationPreferences {
+  tone?: ReplyTone;
+  length?: ReplyLength;
+  language?: ReplyLanguage;
+}
+
 // API request structure for response generation
 export interface GenerateResponseRequest {
   reviewData: ReviewData;
   responseMode: ResponseMode;
   businessContext?: string;
-  tone?: 'professional' | 'friendly' | 'formal' | 'casual';
+  tone?: ReplyTone;
 }
 
 // API response structure
@@ -42,9 +82,11 @@ export interface User {
   updated_at?: string;
   credits_available?: number;
   credits_total?: number;
-  answering_mode?: 'simple' | 'pro';
+  answering_mode?: AnsweringMode;
 }
 
+export type AnsweringMode = 'simple' | 'pro';
+
 // Authentication state
 export interface AuthState {
   isAuthenticated: boolean;
@@ -99,6 +141,7 @@ export interface AuthStatusResponse {
   error?: string;
   user?: AuthStatusUser;
   businessProfile?: AuthStatusBusinessProfile;
+  businessLocations?: BusinessLocation[];
   prompts?: AuthStatusPrompt[];
   warning?: string;
 }
@@ -113,23 +156,6 @@ export interface ExtensionState {
   lastGeneratedResponse?: string;
 }
 
-// Chrome message types for communication between components
-export type ChromeMessageType =
-  | 'EXTRACT_REVIEW'
-  | 'GENERATE_RESPONSE'
-  | 'GENERATE_AI_RESPONSE'
-  | 'INSERT_RESPONSE'
-  | 'AUTH_STATUS'
-  | 'AI_RESPONSE_RESULT'
-  | 'PROGRESS_UPDATE'
-  | 'ERROR'
-  | 'LOGIN_REQUEST'
-  | 'LOGOUT_REQUEST'
-  | 'AUTH_STATE_CHANGED'
-  | 'GET_AUTH_STATUS'
-  | 'GET_ACCESS_TOKEN'
-  | 'OPEN_GOOGLE_LOGIN';
-
 // Google OAuth authentication tokens received from website
 export interface AuthTokens {
   access_token: string;
@@ -145,19 +171,12 @@ export interface GoogleAuthMessage {
   expires_in: number; // Seconds until expiry
 }
 
-// Auth state change message sent from background to popup
-export interface AuthStateChangedMessage {
-  type: 'AUTH_STATE_CHANGED';
+// Auth state change broadcast from background to the popup and side panel
+export interface AuthStateChangedPayload {
   isAuthenticated: boolean;
   user?: User;
 }
 
-export interface ChromeMessage<TPayload = Record<string, unknown>> {
-  type: ChromeMessageType;
-  payload?: TPayload;
-  error?: string;
-}
-
 export interface AuthSuccessPayload {
   user: User;
   token?: string;
@@ -166,16 +185,69 @@ export interface AuthSuccessPayload {
 
 export interface AIResponseRequestPayload {
   reviewData: ReviewData;
+  variants?: number; // Ask for this many candidate replies in one request
+  variantPresets?: ReplyVariantPreset[];
+  promptId?: string; // Pro prompt to answer with instead of the one matched by rating
+  businessProfileId?: string; // Location to answer as; resolved from the page when omitted
+  preferences?: GenerationPreferences;
+  customPrompt?: string; // A filled reply template the AI follows as an extra instruction
+  clientRequestId?: string; // Echoed on the pushed AI_RESPONSE_RESULT so the sender can recognise its result
+}
+
+// Reply variants - several candidate replies generated in a single request
+export interface ReplyVariantPreset {
+  label: string;
+  tone: ReplyTone;
+  length: ReplyLength;
 }
 
-export interface AIResponseRequestMessage extends ChromeMessage<AIResponseRequestPayload> {
-  type: 'GENERATE_AI_RESPONSE';
-  data: AIResponseRequestPayload;
+export interface ReplyVariant extends ReplyVariantPreset {
+  text: string;
+}
+
+export const DEFAULT_VARIANT_PRESETS: ReplyVariantPreset[] = [
+  { label: 'Friendly', tone: 'friendly', length: 'medium' },
+  { label: 'Professional', tone: 'professional', length: 'medium' },
+  { label: 'Short & casual', tone: 'casual', length: 'short' },
+  { label: 'Formal & detailed', tone: 'formal', length: 'long' }
+];
+
+export const MAX_REPLY_VARIANTS = DEFAULT_VARIANT_PRESETS.length;
+
+// Per-request generation options sent along with the review to /ai/generate
+export interface GenerateAIOptions {
+  variantPresets?: ReplyVariantPreset[];
+  promptId?: string;
+  businessProfileId?: string;
+  preferences?: GenerationPreferences;
+  customPrompt?: string;
+}
+
+// Follow-up rewrites of a generated reply
+export const REFINE_INSTRUCTIONS = ['shorter', 'warmer', 'apologetic', 'offer', 'detail', 'grammar'] as const;
+export type RefineInstruction = typeof REFINE_INSTRUCTIONS[number];
+
+export const REFINE_INSTRUCTION_LABELS: Record<RefineInstruction, string> = {
+  shorter: 'Shorter',
+  warmer: 'Warmer',
+  apologetic: 'More apologetic',
+  offer: 'Add an offer',
+  detail: 'Mention a detail',
+  grammar: 'Fix grammar'
+};
+
+export interface RefineReplyRequestPayload {
+  reviewData: ReviewData;
+  draft: string; // The reply as it stands, including the user's edits
+  instruction: RefineInstruction;
+  detail?: string; // What to mention, for the 'detail' instruction
+  preferences?: GenerationPreferences;
 }
 
 export interface AIResponseSuccessPayload {
   success: true;
   aiResponse: string;
+  variants?: ReplyVariant[];
   requestId: string;
   confidence?: number;
   processingTime?: number;
@@ -190,7 +262,9 @@ export type AIResponseErrorType =
   | 'INSUFFICIENT_CREDITS'
   | 'VALIDATION_ERROR'
   | 'AUTH_FAILED'
-  | 'SERVER_ERROR';
+  | 'SERVER_ERROR'
+  | 'CANCELLED'
+  | 'QUEUED';
 
 export interface AIResponseErrorPayload {
   success: false;
@@ -205,12 +279,24 @@ export interface AIResponseErrorPayload {
 
 export type AIResponsePayload = AIResponseSuccessPayload | AIResponseErrorPayload;
 
-export interface AIResponseResultMessage {
-  type: 'AI_RESPONSE_RESULT';
-  data: AIResponsePayload;
-  timestamp: number;
+// The result as pushed to every frame of the sending tab
+export type AIResponseResultPayload = AIResponsePayload & { clientRequestId?: string };
+
+// Streaming generation over a long-lived chrome.runtime.connect port
+export const AI_STREAM_PORT_NAME = 'AI_STREAM';
+
+export interface StreamProgressPayload {
+  status: GenerationStatus['status'];
+  delta: string;
+  text: string;
 }
 
+// Server-sent events emitted by /ai/generate/stream
+export type AIStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: DirectAIGenerateResponse }
+  | { type: 'error'; error: string };
+
 // DOM element selectors for Google My Business pages
 export interface DOMSelectors {
   reviewerName: string;
@@ -221,6 +307,81 @@ export interface DOMSelectors {
   submitButton: string;
 }
 
+// Selector manifest - versioned Google selectors with ordered fallbacks, refreshed remotely
+export const GOOGLE_SELECTOR_FIELDS = [
+  'reviewerName',
+  'rating',
+  'ratingFilledStar',
+  'reviewText',
+  'reviewDate',
+  'reviewerProfileLink',
+  'reviewPhotos',
+  'replyTextarea',
+  'skipButton',
+  'actionContainer'
+] as const;
+
+export type GoogleSelectorField = typeof GOOGLE_SELECTOR_FIELDS[number];
+
+export interface SelectorManifest {
+  version: number;
+  updatedAt?: string;
+  google: Record<GoogleSelectorField, string[]>; // Tried in order; the first selector that matches wins
+}
+
+// Star ratings - 'unknown' instead of a guessed value when the stars can't be read
+export type RatingSource = 'aria-label' | 'filled-stars' | 'page-scan' | 'user';
+
+export type RatingResult =
+  | { status: 'known'; value: number; source: RatingSource }
+  | { status: 'unknown' };
+
+// Extraction diagnostics - which strategies ran and which fields they found
+export type ExtractionField = 'reviewerName' | 'rating' | 'reviewText' | 'replyTextarea';
+
+export interface ExtractionAttempt {
+  field: ExtractionField;
+  strategy: string;
+  matched: boolean;
+  confidence: number; // 0-1; how much to trust a match from this strategy
+}
+
+export interface ExtractionFieldResult {
+  field: ExtractionField;
+  matched: boolean;
+  strategy?: string;
+  confidence: number;
+}
+
+export interface ExtractionTrace {
+  attempts: ExtractionAttempt[];
+  fields: ExtractionFieldResult[];
+}
+
+// Anonymized "this page broke" report - review text, names and query strings are stripped
+export interface ExtractionReport {
+  id: string;
+  createdAt: string;
+  platform: string;
+  pageUrl: string;
+  extensionVersion: string;
+  selectorVersion: number;
+  userAgent: string;
+  trace: ExtractionTrace;
+  domSnippet: string;
+}
+
+// Site adapters - per-site review detection used by the universal content script
+export interface SiteAdapter {
+  id: string;
+  platform: string; // Sent as source_platform
+  hostnames: string[]; // Matched against the page hostname and its parent domains
+  findReviewCards: (root: ParentNode) => HTMLElement[];
+  extractReview: (card: HTMLElement) => ReviewData | null;
+  findReplyBox: (card: HTMLElement) => HTMLElement | null;
+  findButtonAnchor: (card: HTMLElement) => HTMLElement | null; // The Bolt Reply button is inserted after this element
+}
+
 // API configuration
 export interface APIConfig {
   baseUrl: string;
@@ -244,9 +405,36 @@ export const STORAGE_KEYS = {
   TOKEN_EXPIRES_AT: 'token_expires_at',
   USER_DATA: 'user_data',
   SETTINGS: 'settings',
-  REVIEW_CACHE: 'review_cache'
+  REVIEW_CACHE: 'review_cache',
+  SELECTOR_MANIFEST: 'selector_manifest',
+  GENERATION_QUEUE: 'generation_queue',
+  BUSINESS_LOCATIONS: 'business_locations',
+  LOCATION_OVERRIDES: 'location_overrides',
+  GENERATION_PREFERENCES: 'generation_preferences',
+  FOLLOW_UPS: 'follow_ups',
+  REPLY_TEMPLATES: 'reply_template', // chrome.storage.sync, one key per template: "reply_template:<id>"
+  SIDE_PANEL_WORKSPACE: 'side_panel_workspace' // chrome.storage.session
 } as const;
 
+// User preferences stored under STORAGE_KEYS.SETTINGS
+export interface ExtensionSettings {
+  debugOverlay: boolean; // Outline the elements extraction picked on Google review pages
+  promptOverrideId: string | null; // Pro prompt picked in the popup for the next generation only; cleared once it is used
+  replyLanguageMode: ReplyLanguageMode; // Answer in the review's detected language or the profile's
+  confirmEscalatedInsert: boolean; // Ask twice before inserting a reply to a review that needs escalation
+  lintLevels: Partial<Record<LintRuleId, LintLevel>>; // Per-rule override of DEFAULT_LINT_LEVELS
+  redactPersonalData: boolean; // Mask contact details, addresses, order numbers and surnames before reviews reach the API
+}
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+  debugOverlay: false,
+  promptOverrideId: null,
+  replyLanguageMode: 'profile',
+  confirmEscalatedInsert: true,
+  lintLevels: {},
+  redactPersonalData: false
+};
+
 // Response generation status
 export interface GenerationStatus {
   requestId: string;
@@ -261,7 +449,7 @@ export interface GenerationStatus {
 export interface BusinessProfile {
   businessName: string;
   category: string;
-  tone: 'professional' | 'friendly' | 'formal' | 'casual';
+  tone: ReplyTone;
   language: 'en' | 'es' | 'auto';
   greeting?: string;
   signature?: string;
@@ -287,7 +475,7 @@ export interface CustomPromptsResponse {
 // Job types for AI processing
 export interface CreateJobRequest {
   reviewData: ReviewData;
-  mode: 'simple' | 'pro';
+  mode: AnsweringMode;
   promptId?: string;
   customPrompt?: string;
 }
@@ -328,6 +516,200 @@ export interface JobsHistoryResponse {
   pageSize: number;
 }
 
+// Local reply history - every generated reply, recorded by the service worker
+export interface ReplyHistoryEntry {
+  id: string;
+  createdAt: string;
+  reviewData: ReviewData;
+  reply: string;
+  requestId: string;
+  platform: string;
+  url?: string;
+  creditsUsed?: number;
+  modelUsed?: string;
+}
+
+export interface ReplyHistoryQuery {
+  search?: string;
+  limit?: number;
+}
+
+export interface ReplyHistoryResponse {
+  entries: ReplyHistoryEntry[];
+  totalCount: number;
+}
+
+export type ReplyHistoryExportFormat = 'csv' | 'json';
+
+// Escalation - low ratings and complaints get a warning, a de-escalation template and a follow-up entry
+export interface EscalationAssessment {
+  needsEscalation: boolean;
+  reasons: string[]; // Why, for the banner: "Rated 1 star", "Mentions \"refund\""
+}
+
+export const FOLLOW_UP_STATUSES = ['open', 'contacted', 'resolved'] as const;
+export type FollowUpStatus = typeof FOLLOW_UP_STATUSES[number];
+
+// A review logged for follow-up, stored under STORAGE_KEYS.FOLLOW_UPS
+export interface FollowUpEntry {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  reviewData: ReviewData;
+  reasons: string[];
+  status: FollowUpStatus;
+  platform: string;
+  url?: string;
+}
+
+// Reply linter - local checks run on a draft before it goes into the reply box
+export const LINT_RULES = ['placeholder', 'reviewer-name', 'length', 'personal-data', 'promise', 'policy'] as const;
+export type LintRuleId = typeof LINT_RULES[number];
+
+export const LINT_LEVELS = ['block', 'warn', 'off'] as const;
+export type LintLevel = typeof LINT_LEVELS[number];
+
+export const LINT_RULE_LABELS: Record<LintRuleId, string> = {
+  placeholder: 'Leftover placeholders',
+  'reviewer-name': 'Wrong reviewer name',
+  length: "Over Google's length limit",
+  'personal-data': 'Phone numbers and emails',
+  promise: 'Refund or discount promises',
+  policy: 'Review policy violations'
+};
+
+export const DEFAULT_LINT_LEVELS: Record<LintRuleId, LintLevel> = {
+  placeholder: 'block',
+  'reviewer-name': 'warn',
+  length: 'block',
+  'personal-data': 'warn',
+  promise: 'warn',
+  policy: 'block'
+};
+
+export interface LintFinding {
+  rule: LintRuleId;
+  level: Exclude<LintLevel, 'off'>;
+  message: string;
+  excerpt?: string; // The offending text, when there is one to point at
+}
+
+// Personal data redaction - what the service worker masks in a review before it reaches the API
+export const REDACTION_KINDS = ['email', 'phone', 'address', 'order-number', 'first-name', 'surname'] as const;
+export type RedactionKind = typeof REDACTION_KINDS[number];
+
+export interface Redaction {
+  token: string; // What is sent instead, e.g. "[EMAIL_1]"
+  kind: RedactionKind;
+  original: string;
+  restoreAs?: string; // Put back into the returned reply; tokens without it stay masked
+}
+
+export interface RedactionResult {
+  reviewData: ReviewData; // The review as sent
+  redactions: Redaction[];
+}
+
+// PREVIEW_REDACTION: the review exactly as the next request would send it
+export interface RedactionPreviewResponse extends RedactionResult {
+  enabled: boolean;
+  requestBody: Record<string, unknown>; // The whole /ai/generate body, options included
+}
+
+// Reply templates - reusable boilerplate synced across the user's browsers
+export interface ReplyTemplate {
+  id: string;
+  name: string;
+  body: string; // May contain {variable} placeholders, see TEMPLATE_VARIABLES
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const TEMPLATE_VARIABLES = ['reviewer_first_name', 'reviewer_name', 'rating', 'business_name', 'signature'] as const;
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+// Sent from the popup to the active tab to put a saved reply back into the page
+export interface InsertResponsePayload {
+  text: string;
+}
+
+// Offline generation queue - requests that failed because the API was unreachable
+export interface QueuedGeneration {
+  id: string;
+  createdAt: string;
+  request: AIResponseRequestPayload;
+  tabId?: number;
+  sourceUrl?: string;
+  attempts: number;
+  nextAttemptAt: number; // Unix timestamp in milliseconds
+  lastError?: string;
+}
+
+// Sent to the originating tab when a queued request finally completes
+export interface QueuedReplyReadyPayload {
+  reviewData: ReviewData;
+  result: AIResponseSuccessPayload;
+}
+
+// Keyboard shortcuts - the command names in manifest.json, routed to the active tab's content script
+export const SHORTCUT_COMMANDS = ['generate-reply', 'toggle-panel', 'accept-draft', 'regenerate-draft'] as const;
+export type ShortcutCommand = typeof SHORTCUT_COMMANDS[number];
+
+export const SHORTCUT_COMMAND_LABELS: Record<ShortcutCommand, string> = {
+  'generate-reply': 'Generate a reply',
+  'toggle-panel': 'Open or close the Bolt Reply panel',
+  'accept-draft': 'Accept the draft',
+  'regenerate-draft': 'Regenerate the draft'
+};
+
+export interface RunShortcutPayload {
+  command: ShortcutCommand;
+}
+
+// Sent from the "Reply with Bolt Reply" context menu: open the panel on the selection, or generate straight away
+export interface SelectionReplyPayload {
+  text: string;
+  generate: boolean;
+  tone?: ReplyTone; // A one-off tone for this reply; the site's saved options are left alone
+  templateId?: string; // A reply template sent to the AI as instructions
+}
+
+// Side panel workspace - the review being answered in the extension's side panel. It lives in
+// chrome.storage.session so it survives page navigations and closing the panel, but not the browser.
+export interface SidePanelWorkspace {
+  reviewData: ReviewData | null;
+  draft: string;
+  preferences: GenerationPreferences;
+  templateId: string; // Reply template sent to the AI as instructions; empty for none
+  sourceTabId: number | null; // Tab the review was read from; the reply is only sent back there
+}
+
+// The review the side panel read from the active tab, through the service worker
+export interface PageReviewResponse {
+  reviewData: ReviewData | null; // Null when no frame of the page has a review to offer
+  tabId: number | null;
+}
+
+// A side panel reply for the tab its review was read from
+export interface InsertIntoPagePayload extends InsertResponsePayload {
+  tabId: number;
+}
+
+// Posted by the Google reply iframe to the page's top frame
+export interface IframeReadyPayload {
+  url: string;
+  timestamp: string;
+}
+
+export interface ReplyGeneratedPayload {
+  replyLength: number;
+  reviewTextLength: number;
+  confidence?: number;
+  processingTime?: number;
+  tokensUsed?: number;
+  timestamp: string;
+}
+
 // Form validation errors
 export interface FormErrors {
   email?: string;
@@ -395,26 +777,50 @@ export interface JobStatusResponse {
   };
 }
 
+export interface BusinessProfileDetails {
+  business_name: string;
+  business_main_category: string;
+  business_secondary_category?: string;
+  main_products_services: string;
+  brief_description: string;
+  country: string;
+  state_province: string;
+  language: string;
+  response_tone: string;
+  response_length: string;
+  greetings: string;
+  signatures: string;
+  positive_review_cta: string;
+  negative_review_escalation: string;
+  brand_voice_notes: string;
+  other_considerations: string;
+}
+
 export interface BusinessProfileResponse {
   success: boolean;
-  business_profile: {
-    business_name: string;
-    business_main_category: string;
-    business_secondary_category?: string;
-    main_products_services: string;
-    brief_description: string;
-    country: string;
-    state_province: string;
-    language: string;
-    response_tone: string;
-    response_length: string;
-    greetings: string;
-    signatures: string;
-    positive_review_cta: string;
-    negative_review_escalation: string;
-    brand_voice_notes: string;
-    other_considerations: string;
-  };
+  business_profile: BusinessProfileDetails;
+}
+
+export type BusinessProfileErrors = Partial<Record<keyof BusinessProfileDetails, string>>;
+
+// Business locations - agency accounts answer for many Google Business locations and review pages
+export interface BusinessLocation {
+  id: string; // Business profile ID sent with generation requests
+  business_name: string;
+  google_location_id?: string; // The numeric ID in Google Business review URLs
+  domains?: string[]; // Hostnames ("acme.com") or host + path prefixes ("yelp.com/biz/acme-downtown")
+}
+
+export interface BusinessLocationsResponse {
+  success: boolean;
+  locations: BusinessLocation[];
+}
+
+// The locations available on a page and the one replies will be written for
+export interface PageLocationState {
+  locations: BusinessLocation[];
+  activeId: string | null;
+  isOverride: boolean;
 }
 
 export interface PromptsResponse {
@@ -427,6 +833,13 @@ export interface PromptsResponse {
   }>;
 }
 
+// Translation of a review for staff who don't read its language
+export interface TranslateTextResponse {
+  success: boolean;
+  translation: string;
+  source_language?: string;
+}
+
 // API error types
 export interface APIError {
   code?: string;
@@ -447,10 +860,15 @@ export interface DirectAIGenerateResponse {
   credits_remaining: number;
   request_id?: string;
   error?: string;
+  variants?: Array<{
+    generated_response: string;
+    tone_used: string;
+    length_used: string;
+  }>;
 }
 
 export interface AnsweringModeResponse {
   success: boolean;
-  answering_mode: 'simple' | 'pro';
+  answering_mode: AnsweringMode;
   user_id: string;
 }
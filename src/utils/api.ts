@@ -12,14 +12,27 @@ import {
   APIConfig,
   BusinessProfile,
   CustomPromptsResponse,
+  BusinessProfileDetails,
   BusinessProfileResponse,
+  BusinessLocationsResponse,
   PromptsResponse,
+  RefineInstruction,
+  TranslateTextResponse,
   ReviewData,
   APIError,
   DirectAIGenerateResponse,
-  AnsweringModeResponse
+  AnsweringMode,
+  AnsweringModeResponse,
+  GenerateAIOptions,
+  AIStreamEvent,
+  SelectorManifest,
+  ExtractionReport
 } from '../types';
 import { getCurrentToken, refreshToken } from './auth';
+import { DEFAULT_SELECTOR_MANIFEST, queryFirstMatch } from './selectors';
+import { extractRating } from './rating';
+import { tagReviewLanguage } from './language-detection';
+import { extractGoogleReviewDetails } from './review-data';
 
 function extractErrorMessage(error: unknown): string | undefined {
   if (error instanceof Error) {
@@ -151,12 +164,7 @@ export async function generateResponse(
   config: APIConfig = DEFAULT_API_CONFIG
 ): Promise<GenerateResponseResponse> {
   try {
-    // Format the request according to the new API structure
-    const apiRequest = {
-      review_text: request.reviewData.review_text,
-      reviewer_name: request.reviewData.reviewer_name,
-      review_rating: request.reviewData.review_rating
-    };
+    const apiRequest = toReviewWirePayload(request.reviewData);
 
     const response = await makeAuthenticatedRequest<DirectAIGenerateResponse>('/ai/generate', {
       method: 'POST',
@@ -321,14 +329,14 @@ export async function getCustomPrompts(
 }
 
 /**
- * Update business profile
+ * Update business profile; only the fields passed are changed
  */
 export async function updateBusinessProfile(
-  profile: Partial<BusinessProfile>,
+  profile: Partial<BusinessProfileDetails>,
   config: APIConfig = DEFAULT_API_CONFIG
-): Promise<BusinessProfile> {
+): Promise<BusinessProfileResponse> {
   return makeRequestWithRetry(async () => {
-    return makeAuthenticatedRequest<BusinessProfile>('/me/business-profile', {
+    return makeAuthenticatedRequest<BusinessProfileResponse>('/me/business-profile', {
       method: 'PUT',
       body: JSON.stringify(profile)
     }, config);
@@ -340,36 +348,287 @@ export async function updateBusinessProfile(
 // ============================================================================
 
 /**
- * Generate AI response directly (replaces createAIGenerationJob)
+ * The review as the API expects it. Every request that carries a review maps it here;
+ * fields only used locally (reviewer profile, page URL, language confidence) stay behind.
  */
-export async function generateAIResponse(
+function toReviewWirePayload(reviewData: ReviewData): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    // Allow empty reviews with our placeholder text
+    review_text: reviewData.review_text.trim() ? reviewData.review_text : '[Review with no text content]',
+    reviewer_name: reviewData.reviewer_name,
+    review_rating: reviewData.review_rating
+  };
+
+  // Locally detected review language, so the API needn't guess when answering in it
+  if (reviewData.detected_language) {
+    payload.review_language = reviewData.detected_language;
+  }
+  if (reviewData.review_date) {
+    payload.review_date = reviewData.review_date;
+  }
+  if (reviewData.review_id) {
+    payload.review_id = reviewData.review_id;
+  }
+  if (reviewData.has_photos !== undefined) {
+    payload.has_photos = reviewData.has_photos;
+  }
+  if (reviewData.source_platform) {
+    payload.source_platform = reviewData.source_platform;
+  }
+  if (reviewData.location_id) {
+    payload.location_id = reviewData.location_id;
+  }
+
+  return payload;
+}
+
+/**
+ * Build the /ai/generate request body shared by the plain and streaming endpoints
+ */
+export function buildGeneratePayload(
   reviewData: ReviewData,
-  config: APIConfig = DEFAULT_API_CONFIG
-): Promise<DirectAIGenerateResponse> {
+  options: GenerateAIOptions
+): Record<string, unknown> {
   // Validate required fields
   if (!reviewData.review_text) {
     throw new Error('Review text is required');
   }
 
-  // Allow empty reviews with our placeholder text
-  if (reviewData.review_text.trim().length === 0) {
-    reviewData.review_text = "[Review with no text content]";
+  const payload = toReviewWirePayload(reviewData);
+
+  // Pro mode: answer with this prompt instead of the one matched to the rating
+  if (options.promptId) {
+    payload.prompt_id = options.promptId;
+  }
+
+  // Multi-location accounts: which business profile to answer as
+  if (options.businessProfileId) {
+    payload.business_profile_id = options.businessProfileId;
+  }
+
+  // Per-request overrides of the profile's tone, length and language
+  const { tone, length, language } = options.preferences ?? {};
+  if (tone) {
+    payload.tone = tone;
+  }
+  if (length) {
+    payload.response_length = length;
+  }
+  if (language) {
+    payload.language = language;
+  }
+
+  // A reply template the user picked, for the AI to follow
+  if (options.customPrompt) {
+    payload.custom_prompt = options.customPrompt;
+  }
+
+  // Several candidate replies for one credit, one per tone/length preset
+  if (options.variantPresets && options.variantPresets.length > 1) {
+    payload.variants = options.variantPresets.map(preset => ({
+      tone: preset.tone,
+      length: preset.length
+    }));
+  }
+
+  return payload;
+}
+
+/**
+ * Generate AI response directly (replaces createAIGenerationJob)
+ */
+export async function generateAIResponse(
+  reviewData: ReviewData,
+  options: GenerateAIOptions = {},
+  config: APIConfig = DEFAULT_API_CONFIG
+): Promise<DirectAIGenerateResponse> {
+  const payload = buildGeneratePayload(reviewData, options);
+
+  return makeRequestWithRetry<DirectAIGenerateResponse>(async () => {
+    return makeAuthenticatedRequest<DirectAIGenerateResponse>('/ai/generate', {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    }, config);
+  }, config);
+}
+
+/**
+ * Rewrite an existing reply following one instruction ("shorter", "add an offer", ...)
+ */
+export async function refineAIResponse(
+  reviewData: ReviewData,
+  draft: string,
+  instruction: RefineInstruction,
+  detail: string | undefined,
+  options: GenerateAIOptions = {},
+  config: APIConfig = DEFAULT_API_CONFIG
+): Promise<DirectAIGenerateResponse> {
+  if (!draft.trim()) {
+    throw new Error('There is no reply to refine');
   }
 
   const payload = {
-    review_text: reviewData.review_text,
-    reviewer_name: reviewData.reviewer_name,
-    review_rating: reviewData.review_rating
+    ...buildGeneratePayload(reviewData, options),
+    current_response: draft,
+    instruction,
+    ...(detail ? { instruction_detail: detail } : {})
   };
 
   return makeRequestWithRetry<DirectAIGenerateResponse>(async () => {
-    return makeAuthenticatedRequest<DirectAIGenerateResponse>('/ai/generate', {
+    return makeAuthenticatedRequest<DirectAIGenerateResponse>('/ai/refine', {
       method: 'POST',
       body: JSON.stringify(payload)
     }, config);
   }, config);
 }
 
+/**
+ * Open a streaming POST request; unlike {@link makeAuthenticatedRequest} there is no
+ * overall timeout because the body keeps arriving for as long as the model writes
+ */
+async function openAuthenticatedStream(
+  endpoint: string,
+  body: string,
+  signal: AbortSignal,
+  config: APIConfig
+): Promise<Response> {
+  const token = await getCurrentToken();
+
+  if (!token) {
+    throw new Error('No authentication token available');
+  }
+
+  const send = (bearer: string) => fetch(`${config.baseUrl}${endpoint}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      'Authorization': `Bearer ${bearer}`
+    },
+    body,
+    signal
+  });
+
+  let response = await send(token);
+
+  if (response.status === 401) {
+    // Token expired, try to refresh
+    const newToken = await refreshToken();
+    if (!newToken) {
+      throw new Error('Authentication failed and token refresh unsuccessful');
+    }
+    response = await send(newToken);
+  }
+
+  if (!response.ok) {
+    throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+  }
+
+  return response;
+}
+
+/**
+ * Parse one server-sent event block into a stream event
+ */
+function parseStreamEvent(rawEvent: string): AIStreamEvent | null {
+  const data = rawEvent
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+
+  if (!data) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null;
+  }
+
+  const event = parsed as Record<string, unknown>;
+  if (event.type === 'delta' && typeof event.text === 'string') {
+    return { type: 'delta', text: event.text };
+  }
+  if (event.type === 'done' && typeof event.result === 'object' && event.result !== null) {
+    return { type: 'done', result: event.result as DirectAIGenerateResponse };
+  }
+  if (event.type === 'error') {
+    return { type: 'error', error: typeof event.error === 'string' ? event.error : 'AI generation failed' };
+  }
+
+  return null;
+}
+
+/**
+ * Stream an AI reply token by token from the server-sent events endpoint.
+ * Each text delta is reported through onDelta; the final result resolves the promise.
+ */
+export async function streamAIResponse(
+  reviewData: ReviewData,
+  options: GenerateAIOptions,
+  onDelta: (delta: string, text: string) => void,
+  signal: AbortSignal,
+  config: APIConfig = DEFAULT_API_CONFIG
+): Promise<DirectAIGenerateResponse> {
+  const payload = buildGeneratePayload(reviewData, options);
+  const response = await openAuthenticatedStream('/ai/generate/stream', JSON.stringify(payload), signal, config);
+
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this response');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parseStreamEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      if (!event) {
+        continue;
+      }
+
+      switch (event.type) {
+        case 'delta':
+          text += event.text;
+          onDelta(event.text, text);
+          break;
+        case 'done':
+          await reader.cancel();
+          return {
+            ...event.result,
+            generated_response: event.result.generated_response || text
+          };
+        case 'error':
+          await reader.cancel();
+          throw new Error(event.error);
+      }
+    }
+  }
+
+  throw new Error('The reply stream ended before the reply was complete');
+}
+
 /**
  * Get business profile according to the integration guide
  */
@@ -451,28 +710,26 @@ export function handleAPIErrorGuide(error: unknown): APIError {
 }
 
 /**
- * Extract review data from Google reviews using the provided selectors
+ * Extract review data from Google reviews using the selector manifest
  */
-export function extractReviewDataFromSelectors(): ReviewData | null {
+export function extractReviewDataFromSelectors(
+  manifest: SelectorManifest = DEFAULT_SELECTOR_MANIFEST
+): ReviewData | null {
   try {
-    // Extract reviewer name using the provided selector
-    const reviewerNameElement = document.querySelector('#AH1dze > div > div > main > div > div > c-wiz > div > div > article > div.noyJyc > div > div > div.N0c6q.JhRJje') as HTMLElement;
+    const { google } = manifest;
+
+    // Extract reviewer name using the manifest selectors
+    const reviewerNameElement = queryFirstMatch(document, google.reviewerName);
     const reviewer_name = reviewerNameElement?.textContent?.trim();
 
-    // Extract rating from the star rating span
-    const ratingElement = document.querySelector('span[aria-label*="de 5 estrellas"], span[aria-label*="out of 5 stars"]') as HTMLElement;
-    let review_rating: number | undefined;
+    // Extract review text using the manifest selectors
+    const reviewTextElement = queryFirstMatch(document, google.reviewText);
 
-    if (ratingElement) {
-      const ariaLabel = ratingElement.getAttribute('aria-label') || '';
-      const match = ariaLabel.match(/(\d+)\s*(?:de|out of)\s*5/);
-      if (match) {
-        review_rating = parseInt(match[1], 10);
-      }
-    }
+    // Extract rating from the star rating span, or the review's own card; undefined when it can't be read
+    const reviewContainer = reviewTextElement?.closest('article') ?? null;
+    const { result: rating } = extractRating(document, { rating: google.rating, filledStar: google.ratingFilledStar }, reviewContainer);
+    const review_rating = rating.status === 'known' ? rating.value : undefined;
 
-    // Extract review text using the provided selector
-    const reviewTextElement = document.querySelector('div.gyKkFe.JhRJje.Fv38Af') as HTMLElement;
     const review_text = reviewTextElement?.textContent?.trim();
 
     // Validate that we have the minimum required data
@@ -480,13 +737,14 @@ export function extractReviewDataFromSelectors(): ReviewData | null {
       return null;
     }
 
-    const reviewData: ReviewData = {
+    const reviewData: ReviewData = tagReviewLanguage({
       reviewer_name,
       review_rating,
       review_text,
+      ...extractGoogleReviewDetails(document, google, window.location.href),
       website_url: window.location.href,
       source_platform: 'Google'
-    };
+    });
 
     return reviewData;
 
@@ -508,3 +766,75 @@ export async function getAnsweringMode(
     }, config);
   }, config);
 }
+
+/**
+ * List every business profile (location) on the account
+ */
+export async function getBusinessLocations(
+  config: APIConfig = DEFAULT_API_CONFIG
+): Promise<BusinessLocationsResponse> {
+  return makeRequestWithRetry(async () => {
+    return makeAuthenticatedRequest<BusinessLocationsResponse>('/me/business-profiles', {
+      method: 'GET'
+    }, config);
+  }, config);
+}
+
+/**
+ * Translate review text so staff can read what they are answering
+ */
+export async function translateText(
+  text: string,
+  targetLanguage: string,
+  config: APIConfig = DEFAULT_API_CONFIG
+): Promise<TranslateTextResponse> {
+  return makeRequestWithRetry(async () => {
+    return makeAuthenticatedRequest<TranslateTextResponse>('/ai/translate', {
+      method: 'POST',
+      body: JSON.stringify({ text, target_language: targetLanguage })
+    }, config);
+  }, config);
+}
+
+/**
+ * Switch the account between Simple and Pro answering mode
+ */
+export async function updateAnsweringMode(
+  mode: AnsweringMode,
+  config: APIConfig = DEFAULT_API_CONFIG
+): Promise<AnsweringModeResponse> {
+  return makeRequestWithRetry(async () => {
+    return makeAuthenticatedRequest<AnsweringModeResponse>('/me/answering-mode', {
+      method: 'PUT',
+      body: JSON.stringify({ answering_mode: mode })
+    }, config);
+  }, config);
+}
+
+/**
+ * Fetch the latest selector manifest. The response is untrusted; validate it before caching.
+ */
+export async function fetchSelectorManifest(
+  config: APIConfig = DEFAULT_API_CONFIG
+): Promise<unknown> {
+  return makeRequestWithRetry(async () => {
+    return makeAuthenticatedRequest<unknown>('/extension/selectors', {
+      method: 'GET'
+    }, config);
+  }, config);
+}
+
+/**
+ * Send an anonymized "this page broke" report to the support team
+ */
+export async function submitExtractionReport(
+  report: ExtractionReport,
+  config: APIConfig = DEFAULT_API_CONFIG
+): Promise<{ success: boolean }> {
+  return makeRequestWithRetry(async () => {
+    return makeAuthenticatedRequest<{ success: boolean }>('/extension/reports', {
+      method: 'POST',
+      body: JSON.stringify(report)
+    }, config);
+  }, config);
+}
@@ -0,0 +1,109 @@
+// Business profile editing helpers - validation, change tracking and the greeting/signature preview
+
+import type { BusinessProfileDetails, BusinessProfileErrors } from '../types';
+
+type ProfileField = keyof BusinessProfileDetails;
+
+export const EMPTY_BUSINESS_PROFILE: BusinessProfileDetails = {
+  business_name: '',
+  business_main_category: '',
+  business_secondary_category: '',
+  main_products_services: '',
+  brief_description: '',
+  country: '',
+  state_province: '',
+  language: 'en',
+  response_tone: 'professional',
+  response_length: 'medium',
+  greetings: '',
+  signatures: '',
+  positive_review_cta: '',
+  negative_review_escalation: '',
+  brand_voice_notes: '',
+  other_considerations: ''
+};
+
+const REQUIRED_FIELDS: readonly ProfileField[] = ['business_name', 'business_main_category', 'language'];
+
+// Character limits per field
+const MAX_LENGTHS: Record<ProfileField, number> = {
+  business_name: 100,
+  business_main_category: 100,
+  business_secondary_category: 100,
+  main_products_services: 500,
+  brief_description: 500,
+  country: 60,
+  state_province: 60,
+  language: 10,
+  response_tone: 20,
+  response_length: 20,
+  greetings: 200,
+  signatures: 200,
+  positive_review_cta: 300,
+  negative_review_escalation: 300,
+  brand_voice_notes: 1000,
+  other_considerations: 1000
+};
+
+const SAMPLE_REPLY_BODY = 'Thank you for taking the time to share your experience. We are delighted you enjoyed your visit and hope to welcome you back soon.';
+
+/**
+ * Fill in fields the API left out so every input is controlled
+ */
+export function normalizeBusinessProfile(profile: Partial<BusinessProfileDetails> | undefined): BusinessProfileDetails {
+  const normalized = { ...EMPTY_BUSINESS_PROFILE };
+  for (const field of Object.keys(EMPTY_BUSINESS_PROFILE) as ProfileField[]) {
+    const value = profile?.[field];
+    if (typeof value === 'string') {
+      normalized[field] = value;
+    }
+  }
+  return normalized;
+}
+
+export function validateBusinessProfile(profile: BusinessProfileDetails): BusinessProfileErrors {
+  const errors: BusinessProfileErrors = {};
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!(profile[field] ?? '').trim()) {
+      errors[field] = 'This field is required';
+    }
+  }
+
+  for (const [field, maxLength] of Object.entries(MAX_LENGTHS) as Array<[ProfileField, number]>) {
+    if (!errors[field] && (profile[field] ?? '').length > maxLength) {
+      errors[field] = `Keep this under ${maxLength} characters`;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The fields that differ from the last saved profile
+ */
+export function getChangedFields(
+  saved: BusinessProfileDetails,
+  draft: BusinessProfileDetails
+): Partial<BusinessProfileDetails> {
+  const changes: Partial<BusinessProfileDetails> = {};
+  for (const field of Object.keys(draft) as ProfileField[]) {
+    if ((draft[field] ?? '') !== (saved[field] ?? '')) {
+      changes[field] = draft[field];
+    }
+  }
+  return changes;
+}
+
+export function getMaxLength(field: ProfileField): number {
+  return MAX_LENGTHS[field];
+}
+
+/**
+ * A sample reply wrapped in the profile's greeting and signature, the way generated replies are
+ */
+export function buildSignaturePreview(profile: Pick<BusinessProfileDetails, 'greetings' | 'signatures'>): string {
+  return [profile.greetings.trim(), SAMPLE_REPLY_BODY, profile.signatures.trim()]
+    .filter(Boolean)
+    .join('\n\n');
+}
@@ -0,0 +1,150 @@
+// Extraction diagnostics - trace which selector strategies ran, and build anonymized
+// "this page broke" reports for support
+
+import type {
+  ExtractionAttempt,
+  ExtractionField,
+  ExtractionFieldResult,
+  ExtractionReport,
+  ExtractionTrace
+} from '../types';
+
+const EXTRACTION_FIELDS: ExtractionField[] = ['reviewerName', 'rating', 'reviewText', 'replyTextarea'];
+const MAX_SNIPPET_LENGTH = 20000;
+const KEPT_ATTRIBUTES = ['class', 'id', 'jsname', 'role', 'aria-hidden', 'contenteditable'];
+const REMOVED_TAGS = 'script, style, noscript, iframe, img, svg, video, audio, canvas, link, meta';
+const RATING_LABEL_PATTERN = /^\s*\d+(?:[.,]\d+)?\s*(?:de|out of|\/|of)\s*5\b/i;
+
+export interface ExtractionTracer {
+  attempt: (field: ExtractionField, strategy: string, element: Element | null | boolean, confidence: number) => void;
+  getTrace: () => ExtractionTrace;
+  getElements: () => Partial<Record<ExtractionField, Element>>;
+}
+
+/**
+ * Record every strategy an extraction tries. The first match per field decides its confidence.
+ */
+export function createExtractionTracer(): ExtractionTracer {
+  const attempts: ExtractionAttempt[] = [];
+  const elements: Partial<Record<ExtractionField, Element>> = {};
+
+  return {
+    attempt: (field, strategy, element, confidence) => {
+      const matched = Boolean(element);
+      attempts.push({ field, strategy, matched, confidence: matched ? confidence : 0 });
+      if (element instanceof Element && !elements[field]) {
+        elements[field] = element;
+      }
+    },
+    getTrace: () => ({
+      attempts: [...attempts],
+      fields: EXTRACTION_FIELDS.map((field): ExtractionFieldResult => {
+        const hit = attempts.find(attempt => attempt.field === field && attempt.matched);
+        return hit
+          ? { field, matched: true, strategy: hit.strategy, confidence: hit.confidence }
+          : { field, matched: false, confidence: 0 };
+      })
+    }),
+    getElements: () => ({ ...elements })
+  };
+}
+
+/**
+ * Replace letters and digits while keeping length and layout, so the snippet shows the
+ * page structure without anyone's name or review
+ */
+function maskText(text: string): string {
+  return text.replace(/\p{L}/gu, 'x').replace(/\d/g, '0');
+}
+
+/**
+ * Closest element that contains every located field, falling back to the page's main article
+ */
+export function findSnippetRoot(elements: Element[], doc: Document = document): Element {
+  const [first, ...rest] = elements;
+  let candidate: Element | null = first ?? null;
+  while (candidate && !rest.every(element => candidate?.contains(element))) {
+    candidate = candidate.parentElement;
+  }
+  return candidate ?? doc.querySelector('article, main, [role="main"]') ?? doc.body;
+}
+
+/**
+ * Clone a subtree and strip everything that could identify a reviewer or business:
+ * text is masked, attributes are reduced to structural ones, media and scripts are removed.
+ * Rating labels ("4 out of 5 stars") are kept because they are what rating extraction reads.
+ */
+export function sanitizeDomSnippet(root: Element, maxLength = MAX_SNIPPET_LENGTH): string {
+  const clone = root.cloneNode(true) as Element;
+  clone.querySelectorAll(REMOVED_TAGS).forEach(element => element.remove());
+
+  const walker = root.ownerDocument.createTreeWalker(clone, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT);
+  let node: Node | null = walker.currentNode;
+  while (node) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      node.textContent = maskText(node.textContent || '');
+    } else if (node instanceof Element) {
+      for (const attribute of Array.from(node.attributes)) {
+        if (attribute.name === 'aria-label') {
+          if (!RATING_LABEL_PATTERN.test(attribute.value)) {
+            node.setAttribute('aria-label', maskText(attribute.value));
+          }
+        } else if (!KEPT_ATTRIBUTES.includes(attribute.name)) {
+          node.removeAttribute(attribute.name);
+        }
+      }
+      if (node instanceof HTMLTextAreaElement || node instanceof HTMLInputElement) {
+        node.value = '';
+      }
+    }
+    node = walker.nextNode();
+  }
+
+  const html = clone.outerHTML;
+  return html.length > maxLength ? `${html.slice(0, maxLength)}<!-- truncated -->` : html;
+}
+
+/**
+ * Page URL without query string, fragment or long numeric ids (Google business ids)
+ */
+export function sanitizePageUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\d{5,}/g, ':id')}`;
+  } catch {
+    return '';
+  }
+}
+
+export function buildExtractionReport(
+  trace: ExtractionTrace,
+  snippetRoot: Element,
+  options: { platform: string; selectorVersion: number }
+): ExtractionReport {
+  return {
+    id: `report_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    platform: options.platform,
+    pageUrl: sanitizePageUrl(window.location.href),
+    extensionVersion: chrome.runtime.getManifest().version,
+    selectorVersion: options.selectorVersion,
+    userAgent: navigator.userAgent,
+    trace,
+    domSnippet: sanitizeDomSnippet(snippetRoot)
+  };
+}
+
+/**
+ * Save a report as a JSON file the user can attach to a support ticket
+ */
+export function downloadExtractionReport(report: ExtractionReport): void {
+  const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `boltreply-report-${report.createdAt.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
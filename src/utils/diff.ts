@@ -0,0 +1,70 @@
+// Word-level text diff used to compare a generated draft with text the user already typed
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+/**
+ * Split text into words while keeping the whitespace between them as separate tokens
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegmentType, text: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Diff two texts word by word using a longest-common-subsequence table
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i] === b[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      pushSegment(segments, 'removed', a[i]);
+      i++;
+    } else {
+      pushSegment(segments, 'added', b[j]);
+      j++;
+    }
+  }
+
+  while (i < a.length) {
+    pushSegment(segments, 'removed', a[i++]);
+  }
+  while (j < b.length) {
+    pushSegment(segments, 'added', b[j++]);
+  }
+
+  return segments;
+}
@@ -0,0 +1,66 @@
+// Negative-review escalation - spots reviews that need more than a reply and drafts a de-escalation template
+
+import { sendMessage } from './messaging';
+import type { EscalationAssessment, ReviewData } from '../types';
+
+// Ratings at or below this always escalate
+const ESCALATION_MAX_RATING = 2;
+
+// Complaint signals in EN/ES/FR/DE/IT/PT/NL; matched as whole words or phrases
+const COMPLAINT_SIGNALS: readonly string[] = [
+  'refund', 'rude', 'never again', 'worst', 'scam', 'food poisoning', 'sick', 'dirty', 'disgusting',
+  'unacceptable', 'complaint', 'lawyer', 'overcharged', 'health department',
+  'reembolso', 'nunca más', 'pésimo', 'estafa', 'sucio', 'queja',
+  'remboursement', 'plus jamais', 'arnaque', 'inadmissible', 'plainte',
+  'rückerstattung', 'nie wieder', 'betrug', 'schmutzig', 'unverschämt', 'beschwerde',
+  'rimborso', 'mai più', 'truffa', 'sporco', 'vergognoso', 'reclamo',
+  'nunca mais', 'golpe', 'péssimo', 'reclamação',
+  'terugbetaling', 'nooit meer', 'oplichting', 'vies', 'klacht'
+];
+
+const DEFAULT_ESCALATION_NOTE = 'Please contact us directly so we can look into this and make it right.';
+
+function containsSignal(text: string, signal: string): boolean {
+  const escaped = signal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?:^|[^\\p{L}])${escaped}(?![\\p{L}])`, 'iu').test(text);
+}
+
+/**
+ * Whether a review should go through the escalation flow: a 1-2 star rating or a complaint signal
+ */
+export function assessEscalation(reviewData: Pick<ReviewData, 'review_rating' | 'review_text'>): EscalationAssessment {
+  const reasons: string[] = [];
+  const rating = reviewData.review_rating;
+  if (typeof rating === 'number' && rating <= ESCALATION_MAX_RATING) {
+    reasons.push(`Rated ${rating} star${rating === 1 ? '' : 's'}`);
+  }
+
+  const signals = COMPLAINT_SIGNALS.filter(signal => containsSignal(reviewData.review_text ?? '', signal));
+  if (signals.length > 0) {
+    reasons.push(`Mentions ${signals.slice(0, 3).map(signal => `"${signal}"`).join(', ')}`);
+  }
+
+  return { needsEscalation: reasons.length > 0, reasons };
+}
+
+/**
+ * An apologetic reply that takes the conversation offline, ending with the profile's escalation note
+ */
+export function buildDeEscalationTemplate(reviewerName: string | undefined, escalationNote: string | undefined): string {
+  const greeting = reviewerName?.trim() ? `Hi ${reviewerName.trim()},` : 'Hello,';
+  return [
+    greeting,
+    "Thank you for telling us about your experience, and we're sorry it fell short of what you expected. " +
+      'We take this seriously and would like to understand what happened.',
+    escalationNote?.trim() || DEFAULT_ESCALATION_NOTE
+  ].join('\n\n');
+}
+
+/**
+ * The de-escalation template for a review, using the escalation note from the business profile.
+ * For content scripts; falls back to a generic note when the profile can't be loaded.
+ */
+export async function requestDeEscalationTemplate(reviewerName: string | undefined): Promise<string> {
+  const response = await sendMessage('GET_BUSINESS_PROFILE');
+  return buildDeEscalationTemplate(reviewerName, response.success ? response.profile.negative_review_escalation : undefined);
+}
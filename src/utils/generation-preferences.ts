@@ -0,0 +1,51 @@
+// Generation preferences - the last tone/length/language picked on each site, in chrome.storage.local
+
+import { REPLY_LANGUAGES, REPLY_LENGTHS, REPLY_TONES, STORAGE_KEYS } from '../types';
+import type { GenerationPreferences, ReplyLanguage, ReplyLength, ReplyTone } from '../types';
+
+type PreferencesBySite = Record<string, GenerationPreferences>;
+
+function siteKey(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+async function readAll(): Promise<PreferencesBySite> {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.GENERATION_PREFERENCES]);
+  const stored: unknown = result[STORAGE_KEYS.GENERATION_PREFERENCES];
+  return typeof stored === 'object' && stored !== null ? (stored as PreferencesBySite) : {};
+}
+
+/**
+ * Drop values that are no longer valid so a stale entry can't reach the API
+ */
+export function sanitizeGenerationPreferences(value: unknown): GenerationPreferences {
+  const record = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+  const preferences: GenerationPreferences = {};
+
+  if (REPLY_TONES.includes(record.tone as ReplyTone)) {
+    preferences.tone = record.tone as ReplyTone;
+  }
+  if (REPLY_LENGTHS.includes(record.length as ReplyLength)) {
+    preferences.length = record.length as ReplyLength;
+  }
+  if (REPLY_LANGUAGES.includes(record.language as ReplyLanguage)) {
+    preferences.language = record.language as ReplyLanguage;
+  }
+  return preferences;
+}
+
+export async function getGenerationPreferences(hostname: string): Promise<GenerationPreferences> {
+  return sanitizeGenerationPreferences((await readAll())[siteKey(hostname)]);
+}
+
+export async function saveGenerationPreferences(
+  hostname: string,
+  preferences: GenerationPreferences
+): Promise<GenerationPreferences> {
+  const all = await readAll();
+  const sanitized = sanitizeGenerationPreferences(preferences);
+  await chrome.storage.local.set({
+    [STORAGE_KEYS.GENERATION_PREFERENCES]: { ...all, [siteKey(hostname)]: sanitized }
+  });
+  return sanitized;
+}
@@ -0,0 +1,58 @@
+// Export the local reply history as CSV or JSON for auditing
+
+import type { ReplyHistoryEntry, ReplyHistoryExportFormat } from '../types';
+
+const CSV_COLUMNS = [
+  'created_at',
+  'platform',
+  'url',
+  'reviewer_name',
+  'rating',
+  'review_text',
+  'review_date',
+  'review_id',
+  'reply',
+  'credits_used',
+  'model_used',
+  'request_id'
+] as const;
+
+/**
+ * Quote a CSV cell. Cells that spreadsheets would run as formulas are prefixed with a quote.
+ */
+function toCsvCell(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(entry: ReplyHistoryEntry): string {
+  const { reviewData } = entry;
+  return [
+    entry.createdAt,
+    entry.platform,
+    entry.url,
+    reviewData.reviewer_name,
+    reviewData.review_rating,
+    reviewData.review_text,
+    reviewData.review_date,
+    reviewData.review_id,
+    entry.reply,
+    entry.creditsUsed,
+    entry.modelUsed,
+    entry.requestId
+  ].map(toCsvCell).join(',');
+}
+
+export function exportReplyHistory(entries: ReplyHistoryEntry[], format: ReplyHistoryExportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(entries, null, 2);
+  }
+  return [CSV_COLUMNS.join(','), ...entries.map(toCsvRow)].join('\r\n');
+}
+
+export function getHistoryExportFileName(format: ReplyHistoryExportFormat, date: Date = new Date()): string {
+  return `boltreply-history-${date.toISOString().slice(0, 10)}.${format}`;
+}
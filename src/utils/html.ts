@@ -0,0 +1,12 @@
+// HTML helpers for the content scripts' Shadow DOM markup
+
+/**
+ * Escape text for use in element content and double-quoted attributes
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
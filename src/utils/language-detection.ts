@@ -0,0 +1,133 @@
+// Review language detection - a local guess from writing system and common words, no network needed
+
+import type { LanguageDetection, ReviewData } from '../types';
+
+// Below this a detection is shown as a guess and never used to pick the reply language
+export const MIN_LANGUAGE_CONFIDENCE = 0.5;
+
+// Words a short review in each language is almost sure to contain
+const COMMON_WORDS: Record<string, readonly string[]> = {
+  en: ['the', 'and', 'was', 'were', 'is', 'are', 'with', 'very', 'this', 'that', 'for', 'not', 'but', 'they', 'we', 'our', 'you', 'it', 'of', 'to', 'great', 'good', 'staff', 'food', 'would'],
+  es: ['el', 'la', 'los', 'las', 'y', 'muy', 'es', 'fue', 'con', 'para', 'pero', 'que', 'lo', 'de', 'del', 'una', 'por', 'servicio', 'comida', 'excelente', 'bueno', 'todo', 'nos', 'mi', 'está'],
+  fr: ['le', 'la', 'les', 'et', 'très', 'est', 'était', 'avec', 'pour', 'mais', 'nous', 'un', 'une', 'des', 'du', 'pas', 'ce', 'qui', 'accueil', 'bien', 'je', 'au', 'personnel', 'vraiment', 'à'],
+  de: ['der', 'die', 'das', 'und', 'sehr', 'ist', 'war', 'mit', 'für', 'aber', 'nicht', 'ein', 'eine', 'wir', 'ich', 'es', 'auch', 'zu', 'essen', 'gut', 'freundlich', 'immer', 'wieder', 'hier', 'den'],
+  it: ['il', 'lo', 'la', 'gli', 'le', 'e', 'molto', 'è', 'era', 'con', 'per', 'ma', 'non', 'un', 'una', 'che', 'della', 'servizio', 'cibo', 'ottimo', 'sono', 'ci', 'personale', 'tutto', 'anche'],
+  pt: ['o', 'a', 'os', 'as', 'e', 'muito', 'é', 'foi', 'com', 'para', 'mas', 'não', 'um', 'uma', 'que', 'de', 'do', 'da', 'atendimento', 'comida', 'ótimo', 'bom', 'em', 'excelente', 'você'],
+  nl: ['de', 'het', 'een', 'en', 'zeer', 'heel', 'is', 'was', 'met', 'voor', 'maar', 'niet', 'wij', 'we', 'ik', 'ook', 'van', 'goed', 'lekker', 'eten', 'vriendelijk', 'personeel', 'zijn', 'erg', 'wel']
+};
+
+// Letters only one of the languages above uses
+const CHARACTER_HINTS: Array<{ pattern: RegExp; language: string }> = [
+  { pattern: /[ñ¿¡]/g, language: 'es' },
+  { pattern: /[ßäö]/g, language: 'de' },
+  { pattern: /[ãõ]/g, language: 'pt' },
+  { pattern: /[œù]/g, language: 'fr' },
+  { pattern: /[ìò]/g, language: 'it' },
+  { pattern: /ij/g, language: 'nl' }
+];
+
+// Writing systems that identify the language on their own; kana is checked before Han
+const SCRIPTS: Array<{ pattern: RegExp; language: string }> = [
+  { pattern: /[\u3040-\u30ff]/g, language: 'ja' },
+  { pattern: /[\uac00-\ud7af]/g, language: 'ko' },
+  { pattern: /\p{Script=Han}/gu, language: 'zh' },
+  { pattern: /\p{Script=Cyrillic}/gu, language: 'ru' },
+  { pattern: /\p{Script=Greek}/gu, language: 'el' },
+  { pattern: /\p{Script=Arabic}/gu, language: 'ar' },
+  { pattern: /\p{Script=Hebrew}/gu, language: 'he' },
+  { pattern: /\p{Script=Thai}/gu, language: 'th' }
+];
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese',
+  ru: 'Russian',
+  el: 'Greek',
+  ar: 'Arabic',
+  he: 'Hebrew',
+  th: 'Thai'
+};
+
+// Common-word hits needed before a Latin-script guess is fully trusted
+const CONFIDENT_HITS = 4;
+
+const UNDETECTED: LanguageDetection = { language: null, confidence: 0 };
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function detectScript(text: string): LanguageDetection | null {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) {
+    return null;
+  }
+
+  for (const { pattern, language } of SCRIPTS) {
+    const share = (text.match(pattern)?.length ?? 0) / letters;
+    // Japanese mixes kana with Han characters, so a little kana is enough
+    if (share >= (language === 'ja' ? 0.1 : 0.5)) {
+      return { language, confidence: round(Math.min(1, share + 0.2)) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Guess the language text is written in. Short or mixed text comes back with low confidence,
+ * text with nothing to go on as { language: null, confidence: 0 }.
+ */
+export function detectLanguage(text: string | null | undefined): LanguageDetection {
+  if (!text || !text.trim()) {
+    return UNDETECTED;
+  }
+
+  const byScript = detectScript(text);
+  if (byScript) {
+    return byScript;
+  }
+
+  const lower = text.toLowerCase();
+  const words = lower.match(/\p{L}+/gu) ?? [];
+  const scores: Record<string, number> = {};
+  for (const [language, common] of Object.entries(COMMON_WORDS)) {
+    scores[language] = words.filter(word => common.includes(word)).length;
+  }
+  for (const { pattern, language } of CHARACTER_HINTS) {
+    scores[language] += lower.match(pattern)?.length ?? 0;
+  }
+
+  const [best, second] = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  if (!best || best[1] === 0) {
+    return UNDETECTED;
+  }
+
+  // How clearly the best language beat the runner-up, scaled down for reviews with few clues
+  const margin = (best[1] - (second?.[1] ?? 0)) / best[1];
+  const evidence = Math.min(1, best[1] / CONFIDENT_HITS);
+  return { language: best[0], confidence: round(margin * evidence) };
+}
+
+/**
+ * A copy of the review tagged with the language its text is written in
+ */
+export function tagReviewLanguage(reviewData: ReviewData): ReviewData {
+  const { language, confidence } = detectLanguage(reviewData.review_text);
+  return {
+    ...reviewData,
+    detected_language: language ?? undefined,
+    detected_language_confidence: language ? confidence : undefined
+  };
+}
+
+export function getLanguageName(code: string): string {
+  return LANGUAGE_NAMES[code] ?? code.toUpperCase();
+}
@@ -0,0 +1,433 @@
+// Message protocol - every message that crosses a context boundary, as { type, payload }:
+// requests to the service worker, pushes to content scripts, the streaming port, the Google
+// reply iframe's postMessages and the auth broadcast. Receivers parse what arrives with the
+// guards here and answer anything unknown or malformed with a structured MessageFailure.
+
+import { FOLLOW_UP_STATUSES, REFINE_INSTRUCTIONS, REPLY_TONES, SHORTCUT_COMMANDS } from '../types';
+import type {
+  AIResponsePayload,
+  AIResponseRequestPayload,
+  AIResponseResultPayload,
+  AnsweringMode,
+  AuthStateChangedPayload,
+  AuthStatusResponse,
+  BusinessProfileDetails,
+  ExtractionReport,
+  FollowUpEntry,
+  FollowUpStatus,
+  GoogleAuthMessage,
+  IframeReadyPayload,
+  InsertIntoPagePayload,
+  InsertResponsePayload,
+  PageLocationState,
+  PageReviewResponse,
+  PromptsResponse,
+  QueuedReplyReadyPayload,
+  RedactionPreviewResponse,
+  RefineReplyRequestPayload,
+  ReplyGeneratedPayload,
+  ReplyHistoryQuery,
+  ReplyHistoryResponse,
+  ReviewData,
+  RunShortcutPayload,
+  SelectionReplyPayload,
+  StreamProgressPayload,
+  User
+} from '../types';
+
+// ── Envelope and errors ──────────────────────────────────────────────────────
+
+export const MESSAGE_ERROR_CODES = ['UNKNOWN_MESSAGE', 'INVALID_MESSAGE', 'INVALID_PAYLOAD', 'NO_RESPONSE'] as const;
+export type MessageErrorCode = typeof MESSAGE_ERROR_CODES[number];
+
+export interface MessageSuccess {
+  success: true;
+}
+
+// What a receiver answers when a request fails: protocol errors carry an errorCode, handler errors don't
+export interface MessageFailure {
+  success: false;
+  error: string;
+  errorCode?: MessageErrorCode;
+}
+
+// Messages without a payload leave it out
+type MessageUnion<TPayloads> = {
+  [K in keyof TPayloads & string]: TPayloads[K] extends undefined
+    ? { type: K; payload?: undefined }
+    : { type: K; payload: TPayloads[K] };
+}[keyof TPayloads & string];
+
+// The rest parameters of the send helpers: none for a message without a payload
+export type PayloadArgs<TPayload> = [TPayload] extends [undefined] ? [] : [payload: TPayload];
+
+export type ParseResult<TMessage> = { ok: true; message: TMessage } | { ok: false; error: MessageFailure };
+
+export function messageFailure(errorCode: MessageErrorCode, error: string): MessageFailure {
+  return { success: false, error, errorCode };
+}
+
+// ── Service worker requests (chrome.runtime.sendMessage) ─────────────────────
+
+export interface BackgroundProtocol {
+  GENERATE_AI_RESPONSE: { request: AIResponseRequestPayload; response: AIResponsePayload };
+  REFINE_AI_RESPONSE: { request: RefineReplyRequestPayload; response: AIResponsePayload };
+  AUTH_STATUS: { request: undefined; response: MessageSuccess & AuthStatusResponse };
+  GET_AUTH_STATUS: { request: undefined; response: MessageSuccess & { isAuthenticated: boolean; user?: User } };
+  GET_ACCESS_TOKEN: { request: undefined; response: MessageSuccess & { token: string | null } };
+  OPEN_GOOGLE_LOGIN: { request: undefined; response: MessageSuccess };
+  GET_REPLY_HISTORY: { request: ReplyHistoryQuery; response: MessageSuccess & ReplyHistoryResponse };
+  DELETE_REPLY_HISTORY_ENTRY: { request: { id: string }; response: MessageSuccess };
+  CLEAR_REPLY_HISTORY: { request: undefined; response: MessageSuccess };
+  GET_FOLLOW_UPS: { request: undefined; response: MessageSuccess & { entries: FollowUpEntry[] } };
+  UPDATE_FOLLOW_UP_STATUS: { request: { id: string; status: FollowUpStatus }; response: MessageSuccess };
+  DELETE_FOLLOW_UP: { request: { id: string }; response: MessageSuccess };
+  TRACK_ESCALATION: { request: { reviewData: ReviewData }; response: MessageSuccess };
+  REPORT_BROKEN_PAGE: { request: ExtractionReport; response: MessageSuccess };
+  GET_ANSWERING_MODE: { request: undefined; response: MessageSuccess & { answeringMode: AnsweringMode } };
+  SET_ANSWERING_MODE: { request: { mode: AnsweringMode }; response: MessageSuccess & { answeringMode: AnsweringMode } };
+  GET_PRO_PROMPTS: { request: undefined; response: MessageSuccess & Pick<PromptsResponse, 'prompts'> };
+  GET_BUSINESS_PROFILE: { request: undefined; response: MessageSuccess & { profile: BusinessProfileDetails } };
+  UPDATE_BUSINESS_PROFILE: {
+    request: { changes: Partial<BusinessProfileDetails> };
+    response: MessageSuccess & { profile: BusinessProfileDetails };
+  };
+  // The page URL defaults to the sender's; extension pages pass it
+  GET_BUSINESS_LOCATIONS: { request: { url?: string; refresh?: boolean }; response: MessageSuccess & PageLocationState };
+  SET_LOCATION_OVERRIDE: { request: { url?: string; locationId: string | null }; response: MessageSuccess & PageLocationState };
+  TRANSLATE_REVIEW: { request: { text: string; targetLanguage?: string }; response: MessageSuccess & { translation: string } };
+  PREVIEW_REDACTION: { request: AIResponseRequestPayload; response: MessageSuccess & RedactionPreviewResponse };
+  GET_PAGE_REVIEW: { request: undefined; response: MessageSuccess & PageReviewResponse };
+  INSERT_INTO_PAGE: { request: InsertIntoPagePayload; response: MessageSuccess & { inserted: boolean } };
+}
+
+export type BackgroundMessageType = keyof BackgroundProtocol;
+export type BackgroundRequest<K extends BackgroundMessageType> = BackgroundProtocol[K]['request'];
+export type BackgroundResponse<K extends BackgroundMessageType> = BackgroundProtocol[K]['response'] | MessageFailure;
+export type BackgroundMessage = MessageUnion<{ [K in BackgroundMessageType]: BackgroundRequest<K> }>;
+
+// ── Content script pushes (chrome.tabs.sendMessage) ──────────────────────────
+
+// Only the frame that can act on a push answers, so an unanswered push means no frame could
+export interface ContentHandledResponse {
+  handled: boolean;
+}
+
+export interface ContentProtocol {
+  AI_RESPONSE_RESULT: { request: AIResponseResultPayload; response: ContentHandledResponse };
+  INSERT_RESPONSE: { request: InsertResponsePayload; response: ContentHandledResponse };
+  QUEUED_REPLY_READY: { request: QueuedReplyReadyPayload; response: ContentHandledResponse };
+  RUN_SHORTCUT: { request: RunShortcutPayload; response: ContentHandledResponse };
+  REPLY_TO_SELECTION: { request: SelectionReplyPayload; response: ContentHandledResponse };
+  EXTRACT_REVIEW: { request: undefined; response: { handled: true; reviewData: ReviewData } };
+}
+
+export type ContentMessageType = keyof ContentProtocol;
+export type ContentRequest<K extends ContentMessageType> = ContentProtocol[K]['request'];
+export type ContentResponse<K extends ContentMessageType> = ContentProtocol[K]['response'] | MessageFailure;
+export type ContentMessage = MessageUnion<{ [K in ContentMessageType]: ContentRequest<K> }>;
+
+// ── One-way channels ─────────────────────────────────────────────────────────
+
+// Posted by a content script on the AI_STREAM port
+export type StreamClientMessage = MessageUnion<{
+  GENERATE_AI_RESPONSE: AIResponseRequestPayload;
+  CANCEL_GENERATION: undefined;
+}>;
+
+// Posted back by the service worker on the AI_STREAM port
+export type StreamServerMessage = MessageUnion<{
+  PROGRESS_UPDATE: StreamProgressPayload;
+  AI_RESPONSE_RESULT: AIResponsePayload;
+}>;
+
+// Posted by the Google reply iframe to the page's top frame
+export type FrameMessage = MessageUnion<{
+  IFRAME_READY: IframeReadyPayload;
+  REPLY_GENERATED: ReplyGeneratedPayload;
+}>;
+
+// Broadcast by the service worker to the popup and side panel
+export type BroadcastMessage = MessageUnion<{
+  AUTH_STATE_CHANGED: AuthStateChangedPayload;
+}>;
+
+// ── Payload guards ───────────────────────────────────────────────────────────
+
+type PayloadGuard<T> = (payload: unknown) => payload is T;
+type PayloadGuards<TPayloads> = { [K in keyof TPayloads]-?: PayloadGuard<TPayloads[K]> };
+type FieldCheck = (value: unknown) => boolean;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+const isString: FieldCheck = value => typeof value === 'string';
+const isNumber: FieldCheck = value => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: FieldCheck = value => typeof value === 'boolean';
+const isObject: FieldCheck = value => asRecord(value) !== null;
+const isArray: FieldCheck = value => Array.isArray(value);
+const optional = (check: FieldCheck): FieldCheck => value => value === undefined || check(value);
+const nullable = (check: FieldCheck): FieldCheck => value => value === null || check(value);
+const oneOf = (values: readonly unknown[]): FieldCheck => value => values.includes(value);
+
+// Every field of T must be listed, so a payload type can't grow a field its guard doesn't check
+function shape<T>(checks: { [K in keyof T]-?: FieldCheck }): PayloadGuard<T> {
+  return (payload: unknown): payload is T => {
+    const record = asRecord(payload);
+    return record !== null && Object.entries<FieldCheck>(checks).every(([key, check]) => check(record[key]));
+  };
+}
+
+const isEmpty: PayloadGuard<undefined> = (payload: unknown): payload is undefined => payload === undefined;
+
+// Extracted reviews carry many optional fields; the text is the one everything relies on
+const isReviewData: FieldCheck = value => {
+  const record = asRecord(value);
+  return record !== null &&
+    typeof record.review_text === 'string' &&
+    optional(isString)(record.reviewer_name) &&
+    optional(isNumber)(record.review_rating) &&
+    optional(isString)(record.review_id) &&
+    optional(isBoolean)(record.has_photos);
+};
+
+const isAIResponsePayload: PayloadGuard<AIResponsePayload> = (payload: unknown): payload is AIResponsePayload => {
+  const record = asRecord(payload);
+  if (record?.success === true) {
+    return typeof record.aiResponse === 'string' && typeof record.requestId === 'string' && optional(isArray)(record.variants);
+  }
+  return record?.success === false && typeof record.error === 'string';
+};
+
+const isAIResponseResult: PayloadGuard<AIResponseResultPayload> = (payload: unknown): payload is AIResponseResultPayload => {
+  return isAIResponsePayload(payload) && optional(isString)(asRecord(payload)?.clientRequestId);
+};
+
+const isInsertResponsePayload = shape<InsertResponsePayload>({ text: isString });
+
+const isProfileChanges: FieldCheck = value => {
+  const record = asRecord(value);
+  return record !== null && Object.values(record).every(isString);
+};
+
+const isAIResponseRequest = shape<AIResponseRequestPayload>({
+  reviewData: isReviewData,
+  variants: optional(isNumber),
+  variantPresets: optional(isArray),
+  promptId: optional(isString),
+  businessProfileId: optional(isString),
+  preferences: optional(isObject),
+  customPrompt: optional(isString),
+  clientRequestId: optional(isString)
+});
+
+const BACKGROUND_PAYLOAD_GUARDS: PayloadGuards<{ [K in BackgroundMessageType]: BackgroundRequest<K> }> = {
+  GENERATE_AI_RESPONSE: isAIResponseRequest,
+  REFINE_AI_RESPONSE: shape<RefineReplyRequestPayload>({
+    reviewData: isReviewData,
+    draft: isString,
+    instruction: oneOf(REFINE_INSTRUCTIONS),
+    detail: optional(isString),
+    preferences: optional(isObject)
+  }),
+  AUTH_STATUS: isEmpty,
+  GET_AUTH_STATUS: isEmpty,
+  GET_ACCESS_TOKEN: isEmpty,
+  OPEN_GOOGLE_LOGIN: isEmpty,
+  GET_REPLY_HISTORY: shape<ReplyHistoryQuery>({ search: optional(isString), limit: optional(isNumber) }),
+  DELETE_REPLY_HISTORY_ENTRY: shape<{ id: string }>({ id: isString }),
+  CLEAR_REPLY_HISTORY: isEmpty,
+  GET_FOLLOW_UPS: isEmpty,
+  UPDATE_FOLLOW_UP_STATUS: shape<{ id: string; status: FollowUpStatus }>({ id: isString, status: oneOf(FOLLOW_UP_STATUSES) }),
+  DELETE_FOLLOW_UP: shape<{ id: string }>({ id: isString }),
+  TRACK_ESCALATION: shape<{ reviewData: ReviewData }>({ reviewData: isReviewData }),
+  REPORT_BROKEN_PAGE: shape<ExtractionReport>({
+    id: isString,
+    createdAt: isString,
+    platform: isString,
+    pageUrl: isString,
+    extensionVersion: isString,
+    selectorVersion: isNumber,
+    userAgent: isString,
+    trace: isObject,
+    domSnippet: isString
+  }),
+  GET_ANSWERING_MODE: isEmpty,
+  SET_ANSWERING_MODE: shape<{ mode: AnsweringMode }>({ mode: oneOf(['simple', 'pro']) }),
+  GET_PRO_PROMPTS: isEmpty,
+  GET_BUSINESS_PROFILE: isEmpty,
+  UPDATE_BUSINESS_PROFILE: shape<{ changes: Partial<BusinessProfileDetails> }>({ changes: isProfileChanges }),
+  GET_BUSINESS_LOCATIONS: shape<{ url?: string; refresh?: boolean }>({ url: optional(isString), refresh: optional(isBoolean) }),
+  SET_LOCATION_OVERRIDE: shape<{ url?: string; locationId: string | null }>({ url: optional(isString), locationId: nullable(isString) }),
+  TRANSLATE_REVIEW: shape<{ text: string; targetLanguage?: string }>({ text: isString, targetLanguage: optional(isString) }),
+  PREVIEW_REDACTION: isAIResponseRequest,
+  GET_PAGE_REVIEW: isEmpty,
+  INSERT_INTO_PAGE: shape<InsertIntoPagePayload>({ text: isString, tabId: isNumber })
+};
+
+const CONTENT_PAYLOAD_GUARDS: PayloadGuards<{ [K in ContentMessageType]: ContentRequest<K> }> = {
+  AI_RESPONSE_RESULT: isAIResponseResult,
+  INSERT_RESPONSE: isInsertResponsePayload,
+  QUEUED_REPLY_READY: shape<QueuedReplyReadyPayload>({
+    reviewData: isReviewData,
+    result: value => isAIResponsePayload(value) && value.success
+  }),
+  RUN_SHORTCUT: shape<RunShortcutPayload>({ command: oneOf(SHORTCUT_COMMANDS) }),
+  REPLY_TO_SELECTION: shape<SelectionReplyPayload>({
+    text: isString,
+    generate: isBoolean,
+    tone: optional(oneOf(REPLY_TONES)),
+    templateId: optional(isString)
+  }),
+  EXTRACT_REVIEW: isEmpty
+};
+
+const STREAM_CLIENT_PAYLOAD_GUARDS: PayloadGuards<{ GENERATE_AI_RESPONSE: AIResponseRequestPayload; CANCEL_GENERATION: undefined }> = {
+  GENERATE_AI_RESPONSE: BACKGROUND_PAYLOAD_GUARDS.GENERATE_AI_RESPONSE,
+  CANCEL_GENERATION: isEmpty
+};
+
+const STREAM_SERVER_PAYLOAD_GUARDS: PayloadGuards<{ PROGRESS_UPDATE: StreamProgressPayload; AI_RESPONSE_RESULT: AIResponsePayload }> = {
+  PROGRESS_UPDATE: shape<StreamProgressPayload>({
+    status: oneOf(['pending', 'processing', 'completed', 'failed']),
+    delta: isString,
+    text: isString
+  }),
+  AI_RESPONSE_RESULT: isAIResponsePayload
+};
+
+const FRAME_PAYLOAD_GUARDS: PayloadGuards<{ IFRAME_READY: IframeReadyPayload; REPLY_GENERATED: ReplyGeneratedPayload }> = {
+  IFRAME_READY: shape<IframeReadyPayload>({ url: isString, timestamp: isString }),
+  REPLY_GENERATED: shape<ReplyGeneratedPayload>({
+    replyLength: isNumber,
+    reviewTextLength: isNumber,
+    confidence: optional(isNumber),
+    processingTime: optional(isNumber),
+    tokensUsed: optional(isNumber),
+    timestamp: isString
+  })
+};
+
+const BROADCAST_PAYLOAD_GUARDS: PayloadGuards<{ AUTH_STATE_CHANGED: AuthStateChangedPayload }> = {
+  AUTH_STATE_CHANGED: shape<AuthStateChangedPayload>({
+    isAuthenticated: isBoolean,
+    user: optional(value => typeof asRecord(value)?.id === 'string')
+  })
+};
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+function parseMessage<TPayloads>(value: unknown, guards: PayloadGuards<TPayloads>): ParseResult<MessageUnion<TPayloads>> {
+  const record = asRecord(value);
+  if (!record || typeof record.type !== 'string') {
+    return { ok: false, error: messageFailure('INVALID_MESSAGE', 'Messages need a string type') };
+  }
+  if (!Object.prototype.hasOwnProperty.call(guards, record.type)) {
+    return { ok: false, error: messageFailure('UNKNOWN_MESSAGE', `Unknown message type: ${record.type}`) };
+  }
+
+  const guard: PayloadGuard<unknown> = guards[record.type as keyof TPayloads];
+  if (!guard(record.payload)) {
+    return { ok: false, error: messageFailure('INVALID_PAYLOAD', `Invalid payload for ${record.type}`) };
+  }
+  return { ok: true, message: { type: record.type, payload: record.payload } as MessageUnion<TPayloads> };
+}
+
+export function parseBackgroundMessage(value: unknown): ParseResult<BackgroundMessage> {
+  return parseMessage(value, BACKGROUND_PAYLOAD_GUARDS);
+}
+
+export function parseContentMessage(value: unknown): ParseResult<ContentMessage> {
+  return parseMessage(value, CONTENT_PAYLOAD_GUARDS);
+}
+
+export function parseStreamClientMessage(value: unknown): ParseResult<StreamClientMessage> {
+  return parseMessage(value, STREAM_CLIENT_PAYLOAD_GUARDS);
+}
+
+export function parseStreamServerMessage(value: unknown): ParseResult<StreamServerMessage> {
+  return parseMessage(value, STREAM_SERVER_PAYLOAD_GUARDS);
+}
+
+export function parseFrameMessage(value: unknown): ParseResult<FrameMessage> {
+  return parseMessage(value, FRAME_PAYLOAD_GUARDS);
+}
+
+export function parseBroadcastMessage(value: unknown): ParseResult<BroadcastMessage> {
+  return parseMessage(value, BROADCAST_PAYLOAD_GUARDS);
+}
+
+/**
+ * The website's sign-in page sends its own flat message format, so it has a guard of its own
+ */
+export function parseExternalMessage(value: unknown): ParseResult<GoogleAuthMessage> {
+  const record = asRecord(value);
+  if (!record || typeof record.type !== 'string') {
+    return { ok: false, error: messageFailure('INVALID_MESSAGE', 'Messages need a string type') };
+  }
+  if (record.type !== 'AUTH_TOKENS') {
+    return { ok: false, error: messageFailure('UNKNOWN_MESSAGE', `Unknown message type: ${record.type}`) };
+  }
+  const { access_token, refresh_token, expires_in } = record;
+  if (typeof access_token !== 'string' || typeof refresh_token !== 'string' || typeof expires_in !== 'number' || !Number.isFinite(expires_in)) {
+    return { ok: false, error: messageFailure('INVALID_PAYLOAD', 'Invalid payload for AUTH_TOKENS') };
+  }
+  return { ok: true, message: { type: 'AUTH_TOKENS', access_token, refresh_token, expires_in } };
+}
+
+// ── Sending ──────────────────────────────────────────────────────────────────
+
+/**
+ * Send a request to the service worker. Never rejects: a worker that can't be reached,
+ * or a context invalidated by an extension update, resolves as a NO_RESPONSE failure.
+ */
+export function sendMessage<K extends BackgroundMessageType>(
+  type: K,
+  ...payload: PayloadArgs<BackgroundRequest<K>>
+): Promise<BackgroundResponse<K>> {
+  const noResponse = messageFailure('NO_RESPONSE', 'Connection error. Please try again.');
+  return new Promise(resolve => {
+    try {
+      chrome.runtime.sendMessage({ type, payload: payload[0] }, (response: unknown) => {
+        if (chrome.runtime.lastError || asRecord(response) === null) {
+          resolve(noResponse);
+          return;
+        }
+        resolve(response as BackgroundResponse<K>);
+      });
+    } catch {
+      resolve(noResponse);
+    }
+  });
+}
+
+/**
+ * Push a message to a tab's content scripts, all frames unless frameId is given.
+ * Resolves undefined when no frame answers, e.g. on chrome:// pages and the Web Store.
+ */
+export async function sendTabMessage<K extends ContentMessageType>(
+  target: { tabId: number; frameId?: number },
+  type: K,
+  ...payload: PayloadArgs<ContentRequest<K>>
+): Promise<ContentResponse<K> | undefined> {
+  const options: chrome.tabs.MessageSendOptions = target.frameId === undefined ? {} : { frameId: target.frameId };
+  try {
+    const response: unknown = await chrome.tabs.sendMessage(target.tabId, { type, payload: payload[0] }, options);
+    return asRecord(response) === null ? undefined : (response as ContentResponse<K>);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Tell the popup and side panel about a change; resolves false when neither is open
+ */
+export async function broadcastMessage(message: BroadcastMessage): Promise<boolean> {
+  try {
+    await chrome.runtime.sendMessage(message);
+    return true;
+  } catch {
+    return false;
+  }
+}
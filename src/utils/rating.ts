@@ -0,0 +1,124 @@
+// Star rating extraction - reads ratings from accessible labels in several languages or by
+// counting filled stars, and reports 'unknown' rather than guessing
+
+import { queryAllMatches, queryFirstMatch } from './selectors';
+import type { RatingResult, RatingSource } from '../types';
+
+const MAX_STARS = 5;
+
+// "out of" in EN/ES/FR/DE/IT/PT/NL, plus the slash shorthand
+const OUT_OF = '(?:out\\s+of|of|de|sur|von|su|van|/)';
+
+// Star words in EN/ES/FR/DE/IT/PT/NL, singular and plural
+const STAR_WORD = '(?:stars?|estrellas?|[ée]toiles?|sterne?n?|stell[ae]|estrelas?|sterren|ster)';
+
+const NUMBER = '(\\d+(?:[.,]\\d+)?)';
+
+// A star word on its own, not inside a longer word ("monster")
+const STAR_WORD_PATTERN = new RegExp(`(?:^|[^\\p{L}])${STAR_WORD}(?![\\p{L}])`, 'iu');
+
+// Tried in order: "4 out of 5", "4 stars", then a bare "4" (data attributes)
+const RATING_PATTERNS: Array<{ pattern: RegExp; hasScale: boolean }> = [
+  { pattern: new RegExp(`${NUMBER}\\s*${OUT_OF}\\s*${NUMBER}`, 'i'), hasScale: true },
+  { pattern: new RegExp(`${NUMBER}\\s*${STAR_WORD}`, 'i'), hasScale: false },
+  { pattern: new RegExp(`^\\s*${NUMBER}\\s*$`), hasScale: false }
+];
+
+export interface RatingSelectors {
+  rating: string[];
+  filledStar: string[];
+}
+
+export interface RatingExtraction {
+  result: RatingResult;
+  element: Element | null;
+}
+
+const UNKNOWN: RatingResult = { status: 'unknown' };
+
+function toNumber(raw: string): number {
+  return parseFloat(raw.replace(',', '.'));
+}
+
+function known(value: number, source: RatingSource): RatingResult {
+  return { status: 'known', value, source };
+}
+
+/**
+ * Parse a rating label such as "4 out of 5 stars", "4 de 5 estrellas", "4 sur 5 étoiles",
+ * "4 von 5 Sternen", "4 su 5 stelle", "4 de 5 estrelas", "4 van 5 sterren" or "4/5".
+ * Ratings on another scale ("8.5 / 10", or defaultScale for bare numbers) are converted to 1-5.
+ */
+export function parseRatingLabel(label: string | null | undefined, defaultScale = MAX_STARS): RatingResult {
+  if (!label) {
+    return UNKNOWN;
+  }
+
+  for (const { pattern, hasScale } of RATING_PATTERNS) {
+    const match = label.match(pattern);
+    if (!match) {
+      continue;
+    }
+
+    const value = toNumber(match[1]);
+    const scale = hasScale ? toNumber(match[2]) : defaultScale;
+    if (Number.isNaN(value) || Number.isNaN(scale) || scale <= 0 || value <= 0 || value > scale) {
+      continue;
+    }
+
+    return known(Math.max(1, Math.round((value / scale) * MAX_STARS)), 'aria-label');
+  }
+
+  return UNKNOWN;
+}
+
+/**
+ * Count filled star icons inside a rating element. Anything outside 1-5 is treated as unreadable.
+ */
+export function countFilledStars(container: ParentNode, filledStarSelectors: string[]): RatingResult {
+  const filled = queryAllMatches(container, filledStarSelectors).length;
+  return filled >= 1 && filled <= MAX_STARS ? known(filled, 'filled-stars') : UNKNOWN;
+}
+
+/**
+ * Find the rating inside root: the rating element's label, then its filled stars, then any
+ * rating-like aria-label inside the review's own container. Never the whole page: that usually
+ * finds the business's overall rating, which the reviewer didn't give.
+ */
+export function extractRating(
+  root: ParentNode,
+  selectors: RatingSelectors,
+  reviewContainer: ParentNode | null
+): RatingExtraction {
+  const ratingElement = queryFirstMatch(root, selectors.rating);
+
+  if (ratingElement) {
+    const fromLabel = parseRatingLabel(ratingElement.getAttribute('aria-label') || ratingElement.getAttribute('title'));
+    if (fromLabel.status === 'known') {
+      return { result: fromLabel, element: ratingElement };
+    }
+
+    const fromStars = countFilledStars(ratingElement, selectors.filledStar);
+    if (fromStars.status === 'known') {
+      return { result: fromStars, element: ratingElement };
+    }
+  }
+
+  if (!reviewContainer) {
+    return { result: UNKNOWN, element: null };
+  }
+
+  // Layout changed under us - look for any label in the review that reads like a star rating
+  for (const element of Array.from(reviewContainer.querySelectorAll('[aria-label]'))) {
+    const label = element.getAttribute('aria-label') || '';
+    if (!STAR_WORD_PATTERN.test(label)) {
+      continue;
+    }
+    const result = parseRatingLabel(label);
+    if (result.status === 'known') {
+      return { result: { ...result, source: 'page-scan' }, element };
+    }
+  }
+
+  return { result: UNKNOWN, element: null };
+}
@@ -0,0 +1,137 @@
+// Personal data redaction - masks a review before it leaves the browser and puts safe tokens back in the reply
+
+import type { Redaction, RedactionKind, ReviewData } from '../types';
+
+export const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+export const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{6,}\d/g;
+// Digit runs shorter than this are prices, dates and counts rather than phone numbers
+export const MIN_PHONE_DIGITS = 8;
+
+// The reviewer's first name is safe to publish, so the reply gets it back
+export const FIRST_NAME_TOKEN = '[FIRST_NAME]';
+
+// "Order #A12345", "booking ref: 88123", "pedido nº 5521"; only the number itself is masked
+const ORDER_NUMBER_PATTERNS: readonly RegExp[] = [
+  /\b(?:order|booking|reservation|invoice|receipt|ticket|confirmation|case|reference|ref|pedido|reserva|factura|commande|réservation|facture|bestellung|buchung|rechnung|ordine|prenotazione|fattura|encomenda|bestelling|boeking|factuur)(?:\s*(?:number|no\.?|nr\.?|n[º°o]\.?|num\.?|id|número|numéro|nummer|numero))?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})\b/giu,
+  /#(\d{4,})\b/g
+];
+
+// Street addresses in the formats our customers' reviews use: "12 Main Street", "Calle Mayor 5", "Hauptstraße 3"
+const ADDRESS_PATTERNS: readonly RegExp[] = [
+  /\b\d{1,5}[A-Za-z]?\s+(?:[\p{Lu}\d][\p{L}'.-]*\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct|Place|Pl|Terrace|Square|Sq)\b/gu,
+  /\b\d{1,5},?\s+(?:rue|avenue|boulevard|bd|place|allée|chemin|impasse)\s+(?:(?:de|du|des|la|le|l'|d')\s*)*[\p{Lu}][\p{L}'-]*/gu,
+  /\b(?:[Cc]alle|C\/|[Aa]venida|[Aa]vda\.|[Vv]ia|[Vv]iale|[Pp]iazza|[Cc]orso|[Rr]ua|[Pp]raça)\s+(?:[\p{Lu}][\p{L}'.-]*\s+|(?:de|del|della|di|da|do|dos|das|la)\s+){1,4}\d{1,5}[A-Za-z]?\b/gu,
+  /\b[\p{Lu}][\p{L}-]*(?:straße|strasse|str\.|weg|gasse|allee|platz|straat|laan|gracht|plein)\s*\d{1,5}[a-z]?\b/gu,
+  /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/g // UK postcodes
+];
+
+// Titles that put a surname right after them: "Dr. Smith", "Frau Weber"
+const HONORIFIC_SURNAME_PATTERN = /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof|Sr|Sra|Srta|Herr|Frau|Mme|Mlle|Dott|Dhr|Mevr)\.?\s+([\p{Lu}][\p{L}'’-]+)/gu;
+
+const TOKEN_PREFIXES: Record<RedactionKind, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  address: 'ADDRESS',
+  'order-number': 'ORDER',
+  'first-name': 'FIRST_NAME',
+  surname: 'SURNAME'
+};
+
+export interface Redactor {
+  redact: (text: string) => string;
+  restore: (text: string) => string; // Safe tokens only, for replies that get published
+  unmask: (text: string) => string; // Every token, for text only the user sees
+  getRedactions: () => Redaction[];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function wholeWordPattern(value: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(value)}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function replaceToken(text: string, token: string, value: string): string {
+  return text.split(token).join(value);
+}
+
+/**
+ * A redactor for one request. Tokens are numbered per kind and reused for repeated values,
+ * so the draft of a refine request masks the same way the review did.
+ */
+export function createRedactor(reviewerName?: string | null): Redactor {
+  const redactions: Redaction[] = [];
+
+  function tokenFor(kind: RedactionKind, original: string, restoreAs?: string): string {
+    const existing = redactions.find(entry => entry.kind === kind && entry.original.toLowerCase() === original.toLowerCase());
+    if (existing) {
+      return existing.token;
+    }
+    const count = redactions.filter(entry => entry.kind === kind).length + 1;
+    const token = kind === 'first-name' ? FIRST_NAME_TOKEN : `[${TOKEN_PREFIXES[kind]}_${count}]`;
+    redactions.push({ token, kind, original, restoreAs });
+    return token;
+  }
+
+  // Mask every match, or only its first capture group when the pattern has one
+  function maskPattern(text: string, pattern: RegExp, kind: RedactionKind, accept?: (value: string) => boolean): string {
+    return text.replace(pattern, (match: string, group?: unknown) => {
+      const value = typeof group === 'string' ? group : match.trim();
+      if (accept && !accept(value)) {
+        return match;
+      }
+      return match.replace(value, tokenFor(kind, value));
+    });
+  }
+
+  const nameParts = (reviewerName ?? '').trim().split(/\s+/).filter(Boolean);
+  const [firstName, ...surnames] = nameParts;
+  if (firstName && firstName.length > 1) {
+    tokenFor('first-name', firstName, firstName);
+  }
+  // Initials say little on their own and would mask every "S." in the text
+  surnames.filter(surname => surname.replace(/\./g, '').length > 1).forEach(surname => tokenFor('surname', surname));
+
+  function redact(text: string): string {
+    let result = maskPattern(text, EMAIL_PATTERN, 'email');
+    for (const pattern of ORDER_NUMBER_PATTERNS) {
+      result = maskPattern(result, pattern, 'order-number', value => /\d/.test(value));
+    }
+    result = maskPattern(result, PHONE_PATTERN, 'phone', value => value.replace(/\D/g, '').length >= MIN_PHONE_DIGITS);
+    for (const pattern of ADDRESS_PATTERNS) {
+      result = maskPattern(result, pattern, 'address');
+    }
+    result = maskPattern(result, HONORIFIC_SURNAME_PATTERN, 'surname');
+
+    // Anything else already known, such as the reviewer's own name inside the text; longest first
+    const known = [...redactions].sort((a, b) => b.original.length - a.original.length);
+    for (const { original, token } of known) {
+      result = result.replace(wholeWordPattern(original), token);
+    }
+    return result;
+  }
+
+  return {
+    redact,
+    restore: (text) => redactions
+      .filter(entry => entry.restoreAs !== undefined)
+      .reduce((result, entry) => replaceToken(result, entry.token, entry.restoreAs ?? ''), text),
+    unmask: (text) => redactions.reduce((result, entry) => replaceToken(result, entry.token, entry.original), text),
+    getRedactions: () => [...redactions]
+  };
+}
+
+/**
+ * The review as the API receives it: the reviewer is known only by the first-name token,
+ * the text is masked and the link to their profile is dropped.
+ */
+export function redactReviewData(reviewData: ReviewData, redactor: Redactor): ReviewData {
+  const hasFirstName = redactor.getRedactions().some(entry => entry.kind === 'first-name');
+  return {
+    ...reviewData,
+    reviewer_name: reviewData.reviewer_name && hasFirstName ? FIRST_NAME_TOKEN : undefined,
+    reviewer_profile_url: undefined,
+    review_text: redactor.redact(reviewData.review_text)
+  };
+}
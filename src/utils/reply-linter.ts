@@ -0,0 +1,129 @@
+// Reply linter - local checks on a draft before it is written into the reply box
+
+import { EMAIL_PATTERN, MIN_PHONE_DIGITS, PHONE_PATTERN } from './redaction';
+import { DEFAULT_LINT_LEVELS, LINT_RULES } from '../types';
+import type { LintFinding, LintLevel, LintRuleId } from '../types';
+
+// Google rejects owner replies longer than this
+export const GOOGLE_REPLY_MAX_LENGTH = 4096;
+
+export interface LintContext {
+  reviewerName?: string | null;
+  levels?: Partial<Record<LintRuleId, LintLevel>>; // Missing rules use DEFAULT_LINT_LEVELS
+}
+
+type RuleCheck = (draft: string, context: LintContext) => Array<Omit<LintFinding, 'rule' | 'level'>>;
+
+// Template and extraction leftovers: "[Review with no text content]", "{business_name}", "<INSERT NAME>"
+const PLACEHOLDER_PATTERNS: readonly RegExp[] = [
+  /\[[^\]\n]{2,80}\]/g,
+  /\{\{?\s*[\w .-]{1,40}\s*\}?\}/g,
+  /<[A-Z][A-Z _-]{2,40}>/g
+];
+
+// Greetings the model opens with, followed by the name it thinks it is answering
+const GREETING_PATTERN = /^\s*(?:hi|hello|hey|dear|thanks|thank you|hola|estimado|estimada|bonjour|cher|chère|hallo|liebe|lieber|ciao|gentile|olá|caro|cara|beste)\s*,?\s+(\p{L}[\p{L}'’-]*)/iu;
+
+// Commitments the business may not be able to honour once they are public
+const PROMISE_PATTERNS: readonly RegExp[] = [
+  /\b(?:full |partial )?refund(?:ed|s)?\b/gi,
+  /\breimburse\w*/gi,
+  /\bmoney back\b/gi,
+  /\bdiscount\w*/gi,
+  /\b(?:voucher|coupon|gift card)s?\b/gi,
+  /\bcompensat\w*/gi,
+  /\b\d{1,2}\s?% off\b/gi,
+  /\b(?:free|complimentary) (?:meal|drink|dessert|night|stay|service|visit|treatment|month)s?\b/gi,
+  /\b(?:reembols\w*|descuento\w*|remboursement\w*|réduction\w*|rückerstattung|rabatt\w*|rimbors\w*|sconto|desconto\w*|terugbetaling|korting)\b/giu
+];
+
+// Google's reply policy: no offensive language, no pressure to change the review, no incentives for reviews
+const POLICY_PATTERNS: Array<{ pattern: RegExp; message: string }> = [
+  {
+    pattern: /\b(?:fuck\w*|shit\w*|bullshit|asshole|bitch\w*|bastard|idiot\w*|moron\w*|liar)\b/gi,
+    message: 'Offensive language is not allowed in replies.'
+  },
+  {
+    pattern: /\b(?:remove|delete|take down|change|edit|update|reconsider|revise|amend)\s+(?:your|this|the)\s+(?:\d[- ]star\s+)?(?:review|rating)\b/gi,
+    message: 'Asking the reviewer to change or remove their review breaks Google policy.'
+  },
+  {
+    pattern: /\b(?:in exchange for|in return for|for leaving|reward for)\s+(?:a|an|your)?\s*(?:\d[- ]star\s+|positive\s+|good\s+|new\s+)?(?:review|rating)\b/gi,
+    message: 'Offering something in return for a review breaks Google policy.'
+  }
+];
+
+function collectMatches(text: string, pattern: RegExp): string[] {
+  return Array.from(text.matchAll(pattern), match => match[0].trim());
+}
+
+function normalizeName(value: string): string {
+  return value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+const RULE_CHECKS: Record<LintRuleId, RuleCheck> = {
+  placeholder: (draft) => PLACEHOLDER_PATTERNS
+    .flatMap(pattern => collectMatches(draft, pattern))
+    .map(excerpt => ({ message: 'The draft still contains a placeholder.', excerpt })),
+
+  'reviewer-name': (draft, { reviewerName }) => {
+    // Only a capitalised word is a name; "Hi there" greets nobody in particular
+    const candidate = draft.match(GREETING_PATTERN)?.[1];
+    const greeted = candidate && candidate[0] !== candidate[0].toLowerCase() ? candidate : undefined;
+    const nameParts = normalizeName(reviewerName ?? '').split(/[\s.]+/).filter(Boolean);
+    if (!greeted || nameParts.length === 0 || nameParts.includes(normalizeName(greeted))) {
+      return [];
+    }
+    return [{ message: `The reply greets "${greeted}" but the review is by ${reviewerName?.trim()}.`, excerpt: greeted }];
+  },
+
+  length: (draft) => draft.length > GOOGLE_REPLY_MAX_LENGTH
+    ? [{ message: `The reply is ${draft.length} characters; Google allows ${GOOGLE_REPLY_MAX_LENGTH}.` }]
+    : [],
+
+  'personal-data': (draft) => [
+    ...collectMatches(draft, EMAIL_PATTERN).map(excerpt => ({ message: 'Replies are public; avoid sharing email addresses.', excerpt })),
+    ...collectMatches(draft, PHONE_PATTERN)
+      .filter(excerpt => excerpt.replace(/\D/g, '').length >= MIN_PHONE_DIGITS)
+      .map(excerpt => ({ message: 'Replies are public; avoid sharing phone numbers.', excerpt }))
+  ],
+
+  promise: (draft) => PROMISE_PATTERNS
+    .flatMap(pattern => collectMatches(draft, pattern))
+    .map(excerpt => ({ message: 'The reply mentions a refund, discount or compensation. Make sure you can honour it.', excerpt })),
+
+  policy: (draft) => POLICY_PATTERNS.flatMap(({ pattern, message }) => (
+    collectMatches(draft, pattern).map(excerpt => ({ message, excerpt }))
+  ))
+};
+
+export function getLintLevel(rule: LintRuleId, levels: Partial<Record<LintRuleId, LintLevel>> | undefined): LintLevel {
+  return levels?.[rule] ?? DEFAULT_LINT_LEVELS[rule];
+}
+
+/**
+ * Check a draft against every enabled rule. Findings come back in rule order, blocking ones first.
+ */
+export function lintReply(draft: string, context: LintContext = {}): LintFinding[] {
+  const findings: LintFinding[] = [];
+  for (const rule of LINT_RULES) {
+    const level = getLintLevel(rule, context.levels);
+    if (level === 'off') {
+      continue;
+    }
+    // One finding per distinct excerpt keeps repeated matches from flooding the preview
+    const seen = new Set<string>();
+    for (const finding of RULE_CHECKS[rule](draft, context)) {
+      const key = finding.excerpt ?? finding.message;
+      if (!seen.has(key)) {
+        seen.add(key);
+        findings.push({ rule, level, ...finding });
+      }
+    }
+  }
+  return findings.sort((a, b) => Number(b.level === 'block') - Number(a.level === 'block'));
+}
+
+export function hasBlockingFindings(findings: LintFinding[]): boolean {
+  return findings.some(finding => finding.level === 'block');
+}
@@ -0,0 +1,148 @@
+// Reply templates - boilerplate replies with {variable} placeholders, synced through chrome.storage.sync.
+// Each template has its own key so one long template can't push the others over the per-item quota.
+
+import { sendMessage } from './messaging';
+import { STORAGE_KEYS, TEMPLATE_VARIABLES } from '../types';
+import type { AuthStatusBusinessProfile, ReplyTemplate, ReviewData, TemplateVariable } from '../types';
+
+export const MAX_TEMPLATE_NAME_LENGTH = 60;
+export const MAX_TEMPLATE_BODY_LENGTH = 2000; // Well inside storage.sync's 8 KB per item
+
+// The profile fields templates can use; BusinessProfileDetails has the same two
+export type TemplateProfile = Pick<AuthStatusBusinessProfile, 'business_name' | 'signatures'>;
+
+const KEY_PREFIX = `${STORAGE_KEYS.REPLY_TEMPLATES}:`;
+
+function templateKey(id: string): string {
+  return `${KEY_PREFIX}${id}`;
+}
+
+function isReplyTemplate(value: unknown): value is ReplyTemplate {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return typeof record.id === 'string' && typeof record.name === 'string' && typeof record.body === 'string';
+}
+
+function isTemplateVariable(value: string): value is TemplateVariable {
+  return TEMPLATE_VARIABLES.some(variable => variable === value);
+}
+
+/**
+ * Why a template can't be saved, or null when it can
+ */
+export function validateReplyTemplate(name: string, body: string): string | null {
+  if (!name.trim()) {
+    return 'Give the template a name.';
+  }
+  if (name.trim().length > MAX_TEMPLATE_NAME_LENGTH) {
+    return `Names can be up to ${MAX_TEMPLATE_NAME_LENGTH} characters.`;
+  }
+  if (!body.trim()) {
+    return 'The template is empty.';
+  }
+  if (body.length > MAX_TEMPLATE_BODY_LENGTH) {
+    return `Templates can be up to ${MAX_TEMPLATE_BODY_LENGTH} characters.`;
+  }
+  return null;
+}
+
+export async function getReplyTemplates(): Promise<ReplyTemplate[]> {
+  const items = await chrome.storage.sync.get(null);
+  return Object.entries(items)
+    .filter(([key]) => key.startsWith(KEY_PREFIX))
+    .map(([, value]) => value)
+    .filter(isReplyTemplate)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Create a template, or update it when id is given. Throws when the template is invalid.
+ */
+export async function saveReplyTemplate(input: { id?: string; name: string; body: string }): Promise<ReplyTemplate> {
+  const error = validateReplyTemplate(input.name, input.body);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const now = new Date().toISOString();
+  const id = input.id ?? `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const stored: unknown = input.id ? (await chrome.storage.sync.get([templateKey(id)]))[templateKey(id)] : undefined;
+  const template: ReplyTemplate = {
+    id,
+    name: input.name.trim(),
+    body: input.body,
+    createdAt: isReplyTemplate(stored) ? stored.createdAt : now,
+    updatedAt: now
+  };
+  await chrome.storage.sync.set({ [templateKey(id)]: template });
+  return template;
+}
+
+export async function deleteReplyTemplate(id: string): Promise<void> {
+  await chrome.storage.sync.remove(templateKey(id));
+}
+
+/**
+ * Call back with the full list whenever a template changes here or on another synced browser.
+ * Returns a function that stops listening.
+ */
+export function onReplyTemplatesChange(callback: (templates: ReplyTemplate[]) => void): () => void {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string): void => {
+    if (areaName === 'sync' && Object.keys(changes).some(key => key.startsWith(KEY_PREFIX))) {
+      getReplyTemplates().then(callback).catch(() => undefined);
+    }
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+/**
+ * Values for every template variable; anything unknown is an empty string
+ */
+export function getTemplateValues(
+  reviewData: Partial<ReviewData> | null,
+  profile: TemplateProfile | null
+): Record<TemplateVariable, string> {
+  const reviewerName = (reviewData?.reviewer_name ?? '').trim();
+  const rating = reviewData?.review_rating;
+  return {
+    reviewer_first_name: reviewerName.split(/\s+/)[0] ?? '',
+    reviewer_name: reviewerName,
+    rating: typeof rating === 'number' ? String(rating) : '',
+    business_name: profile?.business_name?.trim() ?? '',
+    signature: profile?.signatures?.trim() ?? ''
+  };
+}
+
+/**
+ * Fill a template's {variable} placeholders. Unknown placeholders are left for the reply linter
+ * to flag; an empty value takes the space before it along, so "Hi {reviewer_first_name}," reads "Hi,".
+ */
+export function fillTemplate(body: string, values: Record<TemplateVariable, string>): string {
+  return body
+    .replace(/[ \t]*\{(\w+)\}/g, (match: string, name: string) => {
+      if (!isTemplateVariable(name)) {
+        return match;
+      }
+      const value = values[name];
+      return value ? match.replace(`{${name}}`, value) : '';
+    })
+    .trim();
+}
+
+/**
+ * The business profile fields templates use, from the service worker; null when it can't be loaded.
+ */
+export async function requestTemplateProfile(): Promise<TemplateProfile | null> {
+  const response = await sendMessage('GET_BUSINESS_PROFILE');
+  return response.success ? response.profile : null;
+}
+
+/**
+ * A template filled in for a review, with the business name and signature from the profile
+ */
+export async function renderTemplateForReview(template: ReplyTemplate, reviewData: Partial<ReviewData> | null): Promise<string> {
+  return fillTemplate(template.body, getTemplateValues(reviewData, await requestTemplateProfile()));
+}
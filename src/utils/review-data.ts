@@ -0,0 +1,107 @@
+// Review model - reading ReviewData from storage and older builds, and the Google-only details
+// Earlier versions stored camelCase copies (reviewerName, rating, reviewText, reviewDate, reviewId)
+// next to or instead of the snake_case fields; normalizeReviewData folds them into the canonical ones.
+
+import { queryFirstMatch } from './selectors';
+import type { ReviewData, SelectorManifest } from '../types';
+
+// Google Business review pages carry the location ID: /local/business/{id}/customers/reviews
+const GOOGLE_LOCATION_PATTERN = /\/local\/business\/(\d+)\//;
+
+function readString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function readRating(...values: unknown[]): number | undefined {
+  for (const value of values) {
+    const rating = typeof value === 'string' && value.trim() ? Number(value) : value;
+    if (typeof rating === 'number' && rating >= 1 && rating <= 5) {
+      return rating;
+    }
+  }
+  return undefined;
+}
+
+function readBoolean(...values: unknown[]): boolean | undefined {
+  return values.find((value): value is boolean => typeof value === 'boolean');
+}
+
+function readUrl(value: string | null | undefined, base?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const url = new URL(value, base);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A review in the canonical shape from any shape this extension has stored or sent.
+ * Null when there is no review text under either name.
+ */
+export function normalizeReviewData(value: unknown): ReviewData | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const reviewText = [record.review_text, record.reviewText].find((text): text is string => typeof text === 'string');
+  if (reviewText === undefined) {
+    return null;
+  }
+
+  const confidence = record.detected_language_confidence;
+  return {
+    review_text: reviewText,
+    reviewer_name: readString(record.reviewer_name, record.reviewerName),
+    review_rating: readRating(record.review_rating, record.rating),
+    review_date: readString(record.review_date, record.reviewDate),
+    review_id: readString(record.review_id, record.reviewId),
+    reviewer_profile_url: readUrl(readString(record.reviewer_profile_url)),
+    has_photos: readBoolean(record.has_photos),
+    website_url: readString(record.website_url),
+    source_platform: readString(record.source_platform),
+    location_id: readString(record.location_id),
+    detected_language: readString(record.detected_language),
+    detected_language_confidence: typeof confidence === 'number' && confidence >= 0 && confidence <= 1 ? confidence : undefined
+  };
+}
+
+/**
+ * The Google location a review page belongs to, from its URL
+ */
+export function getGoogleLocationId(url: string | undefined): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return new URL(url).pathname.match(GOOGLE_LOCATION_PATTERN)?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Date, reviewer profile, photos and location of the Google review on screen
+ */
+export function extractGoogleReviewDetails(
+  root: ParentNode,
+  selectors: SelectorManifest['google'],
+  pageUrl: string
+): Pick<ReviewData, 'review_date' | 'reviewer_profile_url' | 'has_photos' | 'location_id'> {
+  const dateElement = queryFirstMatch(root, selectors.reviewDate);
+  return {
+    review_date: readString(dateElement?.getAttribute('datetime'), dateElement?.textContent),
+    reviewer_profile_url: readUrl(queryFirstMatch(root, selectors.reviewerProfileLink)?.getAttribute('href'), pageUrl),
+    has_photos: queryFirstMatch(root, selectors.reviewPhotos) !== null,
+    location_id: getGoogleLocationId(pageUrl)
+  };
+}
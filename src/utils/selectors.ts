@@ -0,0 +1,170 @@
+// Selector manifest - the Google Business selectors content scripts use, with ordered fallbacks.
+// A bundled default ships with the extension; the service worker caches newer manifests from
+// /extension/selectors so a Google UI change can be fixed without a store release.
+
+import { GOOGLE_SELECTOR_FIELDS, STORAGE_KEYS } from '../types';
+import type { GoogleSelectorField, SelectorManifest } from '../types';
+
+const MAX_SELECTORS_PER_FIELD = 20;
+const MAX_SELECTOR_LENGTH = 500;
+
+export const DEFAULT_SELECTOR_MANIFEST: SelectorManifest = {
+  version: 1,
+  google: {
+    reviewerName: [
+      '#AH1dze > div > div > main > div > div > c-wiz > div > div > article > div.noyJyc > div > div > div.N0c6q.JhRJje',
+      'article div.N0c6q.JhRJje'
+    ],
+    rating: [
+      'span.DYizzd[aria-label]',
+      'span[aria-label*="de 5 estrellas"]',
+      'span[aria-label*="out of 5 stars"]'
+    ],
+    ratingFilledStar: [
+      'i.VfPpkd-kBDsod.lMAmUc:not(.VOmEhb)'
+    ],
+    reviewText: [
+      'div.gyKkFe.JhRJje.Fv38Af'
+    ],
+    reviewDate: [
+      'article time[datetime]',
+      'article time'
+    ],
+    reviewerProfileLink: [
+      'article a[href*="/maps/contrib/"]'
+    ],
+    reviewPhotos: [
+      'article button[aria-label*="photo" i]',
+      'article img[src*="googleusercontent.com/p/"]'
+    ],
+    replyTextarea: [
+      'textarea[jsname="YPqjbf"]',
+      '[jsname="YPqjbf"]'
+    ],
+    skipButton: [
+      'button[jsname="dmDvRc"]'
+    ],
+    actionContainer: [
+      'div.FkJOzc.lgfhc.LW6Hp'
+    ]
+  }
+};
+
+function isSelectorList(value: unknown): value is string[] {
+  return Array.isArray(value)
+    && value.length > 0
+    && value.length <= MAX_SELECTORS_PER_FIELD
+    && value.every(selector => typeof selector === 'string' && selector.trim().length > 0 && selector.length <= MAX_SELECTOR_LENGTH);
+}
+
+/**
+ * Check an untrusted manifest (API response or storage) against the schema.
+ * Fields it leaves out fall back to the bundled selectors; any malformed field rejects the whole manifest.
+ */
+export function validateSelectorManifest(value: unknown): SelectorManifest | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.version !== 'number' || !Number.isInteger(candidate.version) || candidate.version < 1) {
+    return null;
+  }
+
+  const google = candidate.google;
+  if (typeof google !== 'object' || google === null) {
+    return null;
+  }
+
+  const fields: Record<GoogleSelectorField, string[]> = { ...DEFAULT_SELECTOR_MANIFEST.google };
+  for (const field of GOOGLE_SELECTOR_FIELDS) {
+    const selectors = (google as Record<string, unknown>)[field];
+    if (selectors === undefined) {
+      continue;
+    }
+    if (!isSelectorList(selectors)) {
+      return null;
+    }
+    fields[field] = selectors;
+  }
+
+  return {
+    version: candidate.version,
+    updatedAt: typeof candidate.updatedAt === 'string' ? candidate.updatedAt : undefined,
+    google: fields
+  };
+}
+
+/**
+ * The cached manifest, unless the bundled one is at least as new
+ */
+export async function loadSelectorManifest(): Promise<SelectorManifest> {
+  try {
+    const result = await chrome.storage.local.get([STORAGE_KEYS.SELECTOR_MANIFEST]);
+    const cached = validateSelectorManifest(result[STORAGE_KEYS.SELECTOR_MANIFEST]);
+    if (cached && cached.version > DEFAULT_SELECTOR_MANIFEST.version) {
+      return cached;
+    }
+  } catch (error) {
+    console.error('❌ Error loading selector manifest:', error);
+  }
+  return DEFAULT_SELECTOR_MANIFEST;
+}
+
+/**
+ * Call back whenever the service worker caches a newer manifest
+ */
+export function onSelectorManifestChange(callback: (manifest: SelectorManifest) => void): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    const change = changes[STORAGE_KEYS.SELECTOR_MANIFEST];
+    if (areaName !== 'local' || !change) {
+      return;
+    }
+    const manifest = validateSelectorManifest(change.newValue);
+    if (manifest && manifest.version > DEFAULT_SELECTOR_MANIFEST.version) {
+      callback(manifest);
+    }
+  });
+}
+
+/**
+ * First element matched by the selector list. A selector Chrome cannot parse is skipped,
+ * so one bad remote entry never breaks extraction.
+ */
+export function queryFirstMatch<T extends Element = HTMLElement>(root: ParentNode, selectors: string[]): T | null {
+  for (const selector of selectors) {
+    try {
+      const match = root.querySelector<T>(selector);
+      if (match) {
+        return match;
+      }
+    } catch {
+      // Invalid selector - try the next fallback
+    }
+  }
+  return null;
+}
+
+export function queryAllMatches<T extends Element = HTMLElement>(root: ParentNode, selectors: string[]): T[] {
+  for (const selector of selectors) {
+    try {
+      const matches = Array.from(root.querySelectorAll<T>(selector));
+      if (matches.length > 0) {
+        return matches;
+      }
+    } catch {
+      // Invalid selector - try the next fallback
+    }
+  }
+  return [];
+}
+
+export function matchesAnySelector(element: Element, selectors: string[]): boolean {
+  return selectors.some(selector => {
+    try {
+      return element.matches(selector);
+    } catch {
+      return false;
+    }
+  });
+}
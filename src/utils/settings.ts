@@ -0,0 +1,36 @@
+// Extension settings - user preferences in chrome.storage.local, merged over the defaults
+
+import { DEFAULT_SETTINGS, STORAGE_KEYS } from '../types';
+import type { ExtensionSettings } from '../types';
+
+function mergeSettings(stored: unknown): ExtensionSettings {
+  if (typeof stored !== 'object' || stored === null) {
+    return { ...DEFAULT_SETTINGS };
+  }
+  return { ...DEFAULT_SETTINGS, ...(stored as Partial<ExtensionSettings>) };
+}
+
+export async function getSettings(): Promise<ExtensionSettings> {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.SETTINGS]);
+  return mergeSettings(result[STORAGE_KEYS.SETTINGS]);
+}
+
+export async function updateSettings(changes: Partial<ExtensionSettings>): Promise<ExtensionSettings> {
+  const settings = { ...(await getSettings()), ...changes };
+  await chrome.storage.local.set({ [STORAGE_KEYS.SETTINGS]: settings });
+  return settings;
+}
+
+/**
+ * Call back with the merged settings whenever they change. Returns a function that stops listening.
+ */
+export function onSettingsChange(callback: (settings: ExtensionSettings) => void): () => void {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string): void => {
+    const change = changes[STORAGE_KEYS.SETTINGS];
+    if (areaName === 'local' && change) {
+      callback(mergeSettings(change.newValue));
+    }
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
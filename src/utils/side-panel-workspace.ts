@@ -0,0 +1,35 @@
+// Side panel workspace - the review and draft open in the side panel, in chrome.storage.session
+
+import { sanitizeGenerationPreferences } from './generation-preferences';
+import { normalizeReviewData } from './review-data';
+import { STORAGE_KEYS } from '../types';
+import type { SidePanelWorkspace } from '../types';
+
+export const EMPTY_SIDE_PANEL_WORKSPACE: SidePanelWorkspace = {
+  reviewData: null,
+  draft: '',
+  preferences: {},
+  templateId: '',
+  sourceTabId: null
+};
+
+export async function getSidePanelWorkspace(): Promise<SidePanelWorkspace> {
+  const result = await chrome.storage.session.get([STORAGE_KEYS.SIDE_PANEL_WORKSPACE]);
+  const stored: unknown = result[STORAGE_KEYS.SIDE_PANEL_WORKSPACE];
+  if (typeof stored !== 'object' || stored === null) {
+    return EMPTY_SIDE_PANEL_WORKSPACE;
+  }
+
+  const record = stored as Record<string, unknown>;
+  return {
+    reviewData: normalizeReviewData(record.reviewData),
+    draft: typeof record.draft === 'string' ? record.draft : '',
+    preferences: sanitizeGenerationPreferences(record.preferences),
+    templateId: typeof record.templateId === 'string' ? record.templateId : '',
+    sourceTabId: typeof record.sourceTabId === 'number' ? record.sourceTabId : null
+  };
+}
+
+export async function saveSidePanelWorkspace(workspace: SidePanelWorkspace): Promise<void> {
+  await chrome.storage.session.set({ [STORAGE_KEYS.SIDE_PANEL_WORKSPACE]: workspace });
+}
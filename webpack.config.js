@@ -10,7 +10,8 @@ module.exports = {
     'content/main-content-script': './src/content/content-script.ts',
     'content/iframe-script': './src/content/iframe-script.ts',
     'content/universal-content-script': './src/content/universal-content-script.ts',
-    'popup/popup': './src/popup/popup.tsx'
+    'popup/popup': './src/popup/popup.tsx',
+    'sidepanel/sidepanel': './src/sidepanel/sidepanel.tsx'
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
@@ -65,6 +66,11 @@ module.exports = {
       template: './src/popup/popup.html',
       filename: 'popup/popup.html',
       chunks: ['popup/popup']
+    }),
+    new HtmlWebpackPlugin({
+      template: './src/sidepanel/sidepanel.html',
+      filename: 'sidepanel/sidepanel.html',
+      chunks: ['sidepanel/sidepanel']
     })
   ],
   optimization: {